@@ -86,20 +86,20 @@ async function main() {
   }
 
   // Graceful shutdown
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     console.log('\n\n🛑 Shutting down copy trading bot...');
     const stats = copyTradingMonitor.getStats();
     console.log('\n📊 Final Statistics:');
     console.log(`   Total trades executed: ${stats.totalTradesExecuted}`);
     console.log(`   Total trades failed: ${stats.totalTradesFailed}`);
     console.log(`   Total volume: $${stats.totalVolume}`);
-    copyTradingMonitor.stop();
+    await copyTradingMonitor.stop(); // Cancels open copy orders
     process.exit(0);
   });
 
-  process.on('SIGTERM', () => {
+  process.on('SIGTERM', async () => {
     console.log('\n\n🛑 Shutting down copy trading bot...');
-    copyTradingMonitor.stop();
+    await copyTradingMonitor.stop();
     process.exit(0);
   });
 }
@@ -0,0 +1,168 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { ClobEvent, ClobWebSocket } from './clob-websocket';
+
+const CREDENTIALS = { apiKey: 'api-key', secret: 'api-secret', passphrase: 'api-passphrase' };
+
+function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() > deadline) return reject(new Error('timed out'));
+      setTimeout(check, 2);
+    };
+    check();
+  });
+}
+
+/**
+ * Local stand-in for the CLOB WebSocket endpoint
+ */
+interface StubServer {
+  url: string;
+  accept: boolean; // Whether handshakes succeed
+  attempts: number[]; // Times of connection attempts, accepted or not
+  sockets: WebSocket[]; // Accepted connections, oldest first
+  messages: string[][]; // Messages received on each accepted connection
+}
+
+async function withServer(run: (server: StubServer) => Promise<void>): Promise<void> {
+  const stub: StubServer = { url: '', accept: true, attempts: [], sockets: [], messages: [] };
+  const server = new WebSocketServer({
+    host: '127.0.0.1',
+    port: 0,
+    verifyClient: () => {
+      stub.attempts.push(Date.now());
+      return stub.accept;
+    },
+  });
+  server.on('connection', socket => {
+    const received: string[] = [];
+    stub.sockets.push(socket);
+    stub.messages.push(received);
+    socket.on('message', data => received.push(data.toString()));
+  });
+  await new Promise<void>(resolve => server.once('listening', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    stub.url = `ws://127.0.0.1:${port}/ws/`;
+    await run(stub);
+  } finally {
+    server.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('reconnects with exponential backoff capped at maxBackoff', async t => {
+  t.mock.method(console, 'warn', () => {});
+  t.mock.method(Math, 'random', () => 1); // No jitter: every delay is the full backoff
+
+  await withServer(async server => {
+    server.accept = false;
+    const socket = new ClobWebSocket({ url: server.url, channel: 'market', initialBackoff: 40, maxBackoff: 100 });
+    socket.connect();
+    try {
+      await until(() => server.attempts.length >= 5, 5000);
+    } finally {
+      socket.close();
+    }
+
+    const gaps = server.attempts.slice(1).map((at, i) => at - server.attempts[i]);
+    [40, 80, 100, 100].forEach((backoff, i) => {
+      assert.ok(gaps[i] >= backoff - 1, `attempt ${i + 2} came ${gaps[i]}ms after the previous one, expected ${backoff}ms`);
+    });
+    assert.ok(gaps[3] < 300, `the fifth attempt waited ${gaps[3]}ms, past maxBackoff`); // 320ms uncapped
+  });
+});
+
+test('reconnects when the socket goes silent past the stale timeout, sending PINGs meanwhile', async t => {
+  t.mock.method(console, 'warn', () => {});
+
+  await withServer(async server => {
+    const health: boolean[] = [];
+    const socket = new ClobWebSocket({
+      url: server.url,
+      channel: 'market',
+      heartbeatInterval: 20,
+      staleTimeout: 100,
+      initialBackoff: 10,
+      onHealthChange: healthy => health.push(healthy),
+    });
+    socket.connect();
+    try {
+      // A stalled event loop can find the first connection stale before its first PING
+      await until(() => server.sockets.length >= 2 && server.messages.some(received => received.includes('PING')));
+    } finally {
+      socket.close();
+    }
+
+    assert.deepEqual(health.slice(0, 3), [true, false, true]);
+  });
+});
+
+test('sends subscription changes as a diff and the full subscription again after a reconnect', async t => {
+  t.mock.method(console, 'warn', () => {});
+
+  await withServer(async server => {
+    const socket = new ClobWebSocket({ url: server.url, channel: 'user', credentials: CREDENTIALS, initialBackoff: 10 });
+    socket.setSubscriptions(['market-a', 'market-b']);
+    socket.connect();
+    try {
+      await until(() => server.messages[0]?.length === 1);
+      assert.deepEqual(JSON.parse(server.messages[0][0]), {
+        type: 'user',
+        markets: ['market-a', 'market-b'],
+        auth: CREDENTIALS,
+      });
+
+      socket.setSubscriptions(['market-b', 'market-c']);
+      await until(() => server.messages[0].length === 3);
+      assert.deepEqual(server.messages[0].slice(1).map(message => JSON.parse(message)), [
+        { operation: 'subscribe', markets: ['market-c'] },
+        { operation: 'unsubscribe', markets: ['market-a'] },
+      ]);
+
+      server.sockets[0].terminate();
+      await until(() => server.messages[1]?.length === 1);
+      assert.deepEqual(JSON.parse(server.messages[1][0]), {
+        type: 'user',
+        markets: ['market-b', 'market-c'],
+        auth: CREDENTIALS,
+      });
+    } finally {
+      socket.close();
+    }
+  });
+});
+
+test('passes on order, trade and last trade price events and drops other or malformed messages', async () => {
+  await withServer(async server => {
+    const events: ClobEvent[] = [];
+    const socket = new ClobWebSocket({ url: server.url, channel: 'user', credentials: CREDENTIALS, onEvent: event => events.push(event) });
+    socket.connect();
+    try {
+      await until(() => server.sockets.length === 1);
+      server.sockets[0].send(JSON.stringify([
+        { event_type: 'book', asset_id: 'token-1' },
+        { event_type: 'order', id: 'order-1', status: 'LIVE' },
+        { event_type: 'order' },
+        { event_type: 'trade', taker_order_id: 'order-2', maker_orders: [{ order_id: 'order-3' }, { price: '0.5' }] },
+      ]));
+      server.sockets[0].send('not json');
+      server.sockets[0].send(JSON.stringify({ event_type: 'last_trade_price', asset_id: 'token-1', price: '0.5' }));
+      await until(() => events.length === 3);
+    } finally {
+      socket.close();
+    }
+
+    assert.deepEqual(events, [
+      { event_type: 'order', id: 'order-1' },
+      { event_type: 'trade', taker_order_id: 'order-2', maker_orders: [{ order_id: 'order-3' }] },
+      { event_type: 'last_trade_price', asset_id: 'token-1' },
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import WebSocket from 'ws';
+
+/**
+ * CLOB WebSocket channels
+ * - market: public order book and trade events for a set of outcome token IDs
+ * - user: authenticated order and trade events of our own API key for a set of market (condition) IDs
+ */
+export type ClobChannel = 'market' | 'user';
+
+export interface ClobWebSocketCredentials {
+  apiKey: string;
+  secret: string;
+  passphrase: string;
+}
+
+export interface ClobWebSocketOptions {
+  url?: string; // Base URL; the channel name is appended (default: wss://ws-subscriptions-clob.polymarket.com/ws/)
+  channel: ClobChannel;
+  credentials?: ClobWebSocketCredentials; // Required for the user channel
+  heartbeatInterval?: number; // Interval in ms between PINGs (default: 10000)
+  staleTimeout?: number; // Reconnect when nothing was received for this many ms (default: 30000)
+  initialBackoff?: number; // First reconnect delay in ms (default: 1000)
+  maxBackoff?: number; // Maximum reconnect delay in ms (default: 60000)
+  onEvent?: (event: ClobEvent) => void;
+  onHealthChange?: (healthy: boolean) => void;
+}
+
+/**
+ * User channel: one of our orders was placed, updated or cancelled
+ */
+export interface ClobOrderEvent {
+  event_type: 'order';
+  id: string; // Order ID
+}
+
+/**
+ * User channel: a trade matched our orders, as taker or maker
+ */
+export interface ClobTradeEvent {
+  event_type: 'trade';
+  taker_order_id?: string;
+  maker_orders: Array<{ order_id: string }>;
+}
+
+/**
+ * Market channel: a subscribed token traded
+ */
+export interface ClobLastTradePriceEvent {
+  event_type: 'last_trade_price';
+  asset_id: string; // Token ID
+}
+
+/**
+ * Channel events passed to onEvent; other event types (book snapshots, price changes) are dropped
+ */
+export type ClobEvent = ClobOrderEvent | ClobTradeEvent | ClobLastTradePriceEvent;
+
+const DEFAULT_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Narrow a parsed message to an event we handle; undefined for other types and malformed events
+ */
+function toClobEvent(value: unknown): ClobEvent | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+
+  switch (value.event_type) {
+    case 'order': {
+      const id = nonEmptyString(value.id);
+      return id ? { event_type: 'order', id } : undefined;
+    }
+    case 'trade': {
+      const makers = Array.isArray(value.maker_orders) ? value.maker_orders : [];
+      return {
+        event_type: 'trade',
+        taker_order_id: nonEmptyString(value.taker_order_id),
+        maker_orders: makers.flatMap(maker => {
+          const orderId = isRecord(maker) ? nonEmptyString(maker.order_id) : undefined;
+          return orderId ? [{ order_id: orderId }] : [];
+        }),
+      };
+    }
+    case 'last_trade_price': {
+      const assetId = nonEmptyString(value.asset_id);
+      return assetId ? { event_type: 'last_trade_price', asset_id: assetId } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * CLOB WebSocket
+ * Keeps a subscription to one CLOB channel alive: heartbeats, reconnects with jittered
+ * exponential backoff and re-sends the current subscription after every reconnect.
+ * The subscribed IDs can change at any time; only the difference is sent.
+ */
+export class ClobWebSocket {
+  private options: Required<Omit<ClobWebSocketOptions, 'credentials'>> & Pick<ClobWebSocketOptions, 'credentials'>;
+  private socket?: WebSocket;
+  private desired: Set<string> = new Set(); // IDs we want to receive events for
+  private subscribed: Set<string> = new Set(); // IDs subscribed on the current socket
+  private heartbeatTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private attempts = 0;
+  private lastMessageAt = 0;
+  private healthy = false;
+  private closed = true;
+
+  constructor(options: ClobWebSocketOptions) {
+    if (options.channel === 'user' && !options.credentials) {
+      throw new Error('API credentials are required for the CLOB user channel');
+    }
+
+    this.options = {
+      url: options.url ?? DEFAULT_WS_URL,
+      channel: options.channel,
+      credentials: options.credentials,
+      heartbeatInterval: options.heartbeatInterval ?? 10000,
+      staleTimeout: options.staleTimeout ?? 30000,
+      initialBackoff: options.initialBackoff ?? 1000,
+      maxBackoff: options.maxBackoff ?? 60000,
+      onEvent: options.onEvent ?? (() => {}),
+      onHealthChange: options.onHealthChange ?? (() => {}),
+    };
+  }
+
+  /**
+   * Open the connection; it is kept open until close() is called
+   */
+  connect(): void {
+    if (!this.closed) return;
+
+    this.closed = false;
+    this.open();
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    this.clearTimers();
+    this.setHealthy(false);
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => {}); // Errors while closing are expected
+      this.socket.terminate();
+      this.socket = undefined;
+    }
+  }
+
+  /**
+   * Set the token IDs (market channel) or condition IDs (user channel) to receive events for
+   */
+  setSubscriptions(ids: string[]): void {
+    this.desired = new Set(ids.filter(id => id));
+    this.syncSubscriptions();
+  }
+
+  /**
+   * Whether the socket is connected and has received data recently
+   */
+  isHealthy(): boolean {
+    return this.healthy;
+  }
+
+  private open(): void {
+    const url = this.options.url.replace(/\/?$/, '/') + this.options.channel;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    this.subscribed = new Set();
+
+    socket.on('open', () => {
+      this.attempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setHealthy(true);
+      this.syncSubscriptions();
+      this.startHeartbeat();
+    });
+
+    socket.on('message', (data: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.setHealthy(true);
+      this.handleMessage(data.toString());
+    });
+
+    socket.on('error', (error: Error) => {
+      console.warn(`⚠️  CLOB ${this.options.channel} WebSocket error: ${error.message}`);
+    });
+
+    socket.on('close', () => {
+      this.scheduleReconnect();
+    });
+  }
+
+  private handleMessage(text: string): void {
+    if (text === 'PONG' || text.length === 0) {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch (error) {
+      return; // Ignore non-JSON status messages
+    }
+
+    const items: unknown[] = Array.isArray(payload) ? payload : [payload];
+    for (const item of items) {
+      const event = toClobEvent(item);
+      if (!event) continue;
+
+      try {
+        this.options.onEvent(event);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error handling CLOB ${this.options.channel} event:`, message);
+      }
+    }
+  }
+
+  /**
+   * Send the initial subscription on a fresh socket, or the added and removed IDs afterwards
+   */
+  private syncSubscriptions(): void {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const idsKey = this.options.channel === 'market' ? 'assets_ids' : 'markets';
+    const added = Array.from(this.desired).filter(id => !this.subscribed.has(id));
+    const removed = Array.from(this.subscribed).filter(id => !this.desired.has(id));
+
+    if (this.subscribed.size === 0) {
+      if (added.length === 0) return;
+
+      socket.send(JSON.stringify({
+        type: this.options.channel,
+        [idsKey]: added,
+        ...(this.options.credentials && {
+          auth: {
+            apiKey: this.options.credentials.apiKey,
+            secret: this.options.credentials.secret,
+            passphrase: this.options.credentials.passphrase,
+          },
+        }),
+      }));
+    } else {
+      if (added.length > 0) {
+        socket.send(JSON.stringify({ operation: 'subscribe', [idsKey]: added }));
+      }
+      if (removed.length > 0) {
+        socket.send(JSON.stringify({ operation: 'unsubscribe', [idsKey]: removed }));
+      }
+    }
+
+    this.subscribed = new Set(this.desired);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      const socket = this.socket;
+      if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+      if (Date.now() - this.lastMessageAt > this.options.staleTimeout) {
+        console.warn(`⚠️  CLOB ${this.options.channel} WebSocket silent for ${this.options.staleTimeout / 1000}s, reconnecting`);
+        this.setHealthy(false);
+        socket.terminate(); // Triggers 'close' and the reconnect
+        return;
+      }
+
+      socket.send('PING');
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  /**
+   * Reconnect after a jittered exponential backoff
+   */
+  private scheduleReconnect(): void {
+    this.stopHeartbeat();
+    this.setHealthy(false);
+    this.socket = undefined;
+
+    if (this.closed || this.reconnectTimer) return;
+
+    const backoff = Math.min(this.options.initialBackoff * 2 ** this.attempts, this.options.maxBackoff);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.attempts++;
+
+    console.warn(`🔌 CLOB ${this.options.channel} WebSocket disconnected, reconnecting in ${(delay / 1000).toFixed(1)}s`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (!this.closed) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  private setHealthy(healthy: boolean): void {
+    if (this.healthy === healthy) return;
+
+    this.healthy = healthy;
+    this.options.onHealthChange(healthy);
+  }
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_HTTP_CONFIG, HttpClient, parseRetryAfter } from './http-client';
+
+test('parses Retry-After as seconds or an HTTP date', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  assert.equal(parseRetryAfter('2', now), 2000);
+  assert.equal(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now), 5000);
+  assert.equal(parseRetryAfter(undefined, now), undefined);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+});
+
+test('clients of one host with different rates do not share a rate limit', async () => {
+  const server = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const baseURL = `http://127.0.0.1:${port}`;
+    const slow = new HttpClient('gamma', baseURL, { ...DEFAULT_HTTP_CONFIG, rateLimits: { data: 0, gamma: 1, clob: 0 } });
+    const fast = new HttpClient('gamma', baseURL, { ...DEFAULT_HTTP_CONFIG, rateLimits: { data: 0, gamma: 1000, clob: 0 } });
+
+    await slow.get('/', { endpoint: 'market' }); // Empties the 1 request/s bucket
+
+    const started = Date.now();
+    for (let i = 0; i < 5; i++) {
+      await fast.get('/', { endpoint: 'market' });
+    }
+    assert.ok(Date.now() - started < 500, 'the fast client waited on the slow client\'s bucket');
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
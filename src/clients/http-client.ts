@@ -0,0 +1,202 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { ApiEndpoint, ApiHost, HttpConfig } from '../types';
+import { ApiError } from '../utils/errors';
+
+/**
+ * Default retry, rate limit and timeout settings
+ */
+export const DEFAULT_HTTP_CONFIG: HttpConfig = {
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+  rateLimits: { data: 10, gamma: 10, clob: 10 },
+  timeouts: { positions: 30000, trades: 15000, orderBook: 5000, market: 10000 },
+};
+
+/**
+ * Statuses worth retrying: rate limited, or the server failed and may recover
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Token Bucket
+ * Allows bursts up to the bucket size and refills at a fixed rate. A Retry-After from the
+ * server pauses the bucket so every request to the host waits, not only the one retried.
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(requestsPerSecond: number) {
+    this.capacity = Math.max(requestsPerSecond, 1);
+    this.refillPerMs = requestsPerSecond / 1000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent and take a token
+   */
+  async take(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+
+  /**
+   * Hold all requests for the given time
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * One bucket per host and rate, shared by every client talking to the host at that rate.
+ * Keying by rate as well means a client configured with a different limit gets its own
+ * bucket instead of silently inheriting the rate of whichever client was created first.
+ */
+const buckets: Map<string, TokenBucket> = new Map();
+
+function getBucket(baseURL: string, requestsPerSecond: number): TokenBucket | undefined {
+  if (requestsPerSecond <= 0) {
+    return undefined;
+  }
+
+  const key = `${new URL(baseURL).host}@${requestsPerSecond}`;
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(requestsPerSecond);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or an HTTP date), in ms
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = new Date(String(value)).getTime();
+  return isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Options for a request
+ */
+export interface RequestOptions {
+  endpoint: ApiEndpoint; // Selects the timeout
+  params?: Record<string, unknown>;
+}
+
+/**
+ * HTTP Client
+ * GET requests to one Polymarket API host with rate limiting, per-endpoint timeouts and
+ * jittered exponential backoff on 429, 5xx and network errors. Failures are thrown as ApiError
+ * carrying the HTTP status code.
+ */
+export class HttpClient {
+  private host: ApiHost;
+  private axios: AxiosInstance;
+  private config: HttpConfig;
+  private bucket?: TokenBucket;
+
+  constructor(host: ApiHost, baseURL: string, config: HttpConfig, headers: Record<string, string> = {}) {
+    this.host = host;
+    this.config = config;
+    this.axios = axios.create({ baseURL, headers });
+    this.bucket = getBucket(baseURL, config.rateLimits[host]);
+  }
+
+  async get<T = any>(path: string, options: RequestOptions): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket?.take();
+
+      try {
+        return await this.axios.get<T>(path, {
+          params: options.params,
+          timeout: this.config.timeouts[options.endpoint],
+        });
+      } catch (error: unknown) {
+        if (attempt >= this.config.maxRetries || !this.isRetryable(error)) {
+          throw this.toApiError(path, error);
+        }
+
+        const retryAfter = axios.isAxiosError(error)
+          ? parseRetryAfter(error.response?.headers?.['retry-after'])
+          : undefined;
+        const delay = Math.min(retryAfter ?? this.getBackoff(attempt), this.config.maxDelay);
+        if (retryAfter !== undefined) {
+          this.bucket?.pause(delay);
+        }
+
+        console.warn(
+          `⚠️  ${this.host} API ${path} failed (${this.describe(error)}), ` +
+          `retry ${attempt + 1}/${this.config.maxRetries} in ${(delay / 1000).toFixed(1)}s`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter: a random delay up to baseDelay * 2^attempt
+   */
+  private getBackoff(attempt: number): number {
+    const ceiling = Math.min(this.config.baseDelay * 2 ** attempt, this.config.maxDelay);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    // No response: timeout, connection reset, DNS failure
+    return !error.response || RETRYABLE_STATUSES.has(error.response.status);
+  }
+
+  private describe(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private toApiError(path: string, error: unknown): ApiError {
+    const statusCode = axios.isAxiosError(error) ? error.response?.status : undefined;
+    const cause = error instanceof Error ? error : undefined;
+    return new ApiError(`${this.host} API ${path} failed: ${this.describe(error)}`, statusCode, cause);
+  }
+}
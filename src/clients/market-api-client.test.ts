@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MarketApiClient } from './market-api-client';
+import { DEFAULT_HTTP_CONFIG } from './http-client';
+import { ApiError, SchemaValidationError } from '../utils/errors';
+
+const CONDITION_ID = '0x' + 'ab'.repeat(32);
+const OTHER_CONDITION_ID = '0x' + 'cd'.repeat(32);
+
+function market(id: string, conditionId: string, question: string) {
+  return { id, conditionId, question, slug: question.toLowerCase().replace(/\W+/g, '-'), active: true };
+}
+
+/**
+ * Serve a fixed /markets response from a local Gamma stand-in and run the test against it
+ */
+async function withGamma(markets: unknown[], run: (client: MarketApiClient, queries: string[]) => Promise<void>) {
+  const queries: string[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/markets') {
+      res.writeHead(404).end();
+      return;
+    }
+    queries.push(url.searchParams.get('condition_ids') || '');
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(markets));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const client = new MarketApiClient({
+      gammaApiUrl: `http://127.0.0.1:${port}`,
+      http: { ...DEFAULT_HTTP_CONFIG, maxRetries: 0, rateLimits: { data: 0, gamma: 0, clob: 0 } },
+    });
+    await run(client, queries);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('returns the market whose condition ID matches, not the first result', async () => {
+  await withGamma(
+    [market('1', OTHER_CONDITION_ID, 'Unrelated market'), market('2', CONDITION_ID, 'Will it rain?')],
+    async (client, queries) => {
+      const result = await client.getMarketByConditionId(CONDITION_ID.toUpperCase().replace('0X', '0x'));
+      assert.equal(result.question, 'Will it rain?');
+      assert.equal(queries[0], CONDITION_ID.toUpperCase().replace('0X', '0x'));
+    }
+  );
+});
+
+test('fails closed when no returned market has the condition ID', async () => {
+  await withGamma([market('1', OTHER_CONDITION_ID, 'Unrelated market')], async client => {
+    await assert.rejects(
+      client.getMarketByConditionId(CONDITION_ID),
+      (error: unknown) => error instanceof ApiError && error.statusCode === 404
+    );
+  });
+});
+
+/**
+ * Serve fixed responses by path from a local Data API stand-in; unknown paths are 404s
+ */
+async function withDataApi(routes: Record<string, [number, unknown]>, run: (client: MarketApiClient) => Promise<void>) {
+  const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const [status, body] = routes[pathname] ?? [404, { error: 'not found' }];
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const client = new MarketApiClient({
+      dataApiUrl: `http://127.0.0.1:${port}`,
+      http: { ...DEFAULT_HTTP_CONFIG, maxRetries: 0, rateLimits: { data: 0, gamma: 0, clob: 0 } },
+    });
+    await run(client);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+const USER = '0x' + '12'.repeat(20);
+
+test('throws on a malformed positions or trades list instead of reporting none', async () => {
+  const routes: Record<string, [number, unknown]> = {
+    '/positions': [200, { error: 'shape changed' }],
+    '/trades': [200, { error: 'shape changed' }],
+  };
+  await withDataApi(routes, async client => {
+    await assert.rejects(client.getUserPositions(USER), SchemaValidationError);
+    await assert.rejects(client.getUserTrades(USER), SchemaValidationError);
+  });
+});
+
+test('reports no positions or trades only when the endpoint in use returns 404', async () => {
+  await withDataApi({}, async client => {
+    assert.deepEqual((await client.getUserPositions(USER)).positions, []);
+    assert.deepEqual((await client.getUserTrades(USER)).trades, []);
+  });
+
+  const failing: Record<string, [number, unknown]> = { '/positions': [500, {}], '/trades': [500, {}] };
+  await withDataApi(failing, async client => {
+    await assert.rejects(client.getUserPositions(USER), (error: unknown) => error instanceof ApiError && error.statusCode === 500);
+    await assert.rejects(client.getUserTrades(USER), (error: unknown) => error instanceof ApiError && error.statusCode === 500);
+  });
+});
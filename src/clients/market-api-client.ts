@@ -1,6 +1,12 @@
-import axios, { AxiosInstance } from 'axios';
+import { HttpClient, DEFAULT_HTTP_CONFIG } from './http-client';
+import { SchemaValidator, POSITION_SCHEMA, TRADE_SCHEMA, MARKET_SCHEMA, ORDER_BOOK_SCHEMA, BOOK_LEVEL_SCHEMA } from './schemas';
+import { ApiError, SchemaValidationError } from '../utils/errors';
+import { Decimal } from '../utils/decimal';
 import {
+  DecimalString,
   Market,
+  OrderBook,
+  OrderBookLevel,
   Position,
   Trade,
   UserPositions,
@@ -13,9 +19,13 @@ import {
  * Handles communication with Polymarket's various APIs
  */
 export class MarketApiClient {
-  private client: AxiosInstance;
+  private client: HttpClient; // Data API
+  private gammaClient: HttpClient;
+  private clobClient: HttpClient;
   private config: PolymarketConfig;
+  private validator: SchemaValidator;
   private marketCache: Map<string, Market> = new Map();
+  private conditionMarketCache: Map<string, Market> = new Map(); // Keyed by lower-case condition ID
 
   constructor(config: PolymarketConfig = {}) {
     this.config = {
@@ -26,14 +36,21 @@ export class MarketApiClient {
       ...config,
     };
 
-    this.client = axios.create({
-      baseURL: this.config.dataApiUrl,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
-      },
-      timeout: 30000,
+    const http = this.config.http ?? DEFAULT_HTTP_CONFIG;
+    this.client = new HttpClient('data', this.config.dataApiUrl!, http, {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
     });
+    this.gammaClient = new HttpClient('gamma', this.config.gammaApiUrl!, http);
+    this.clobClient = new HttpClient('clob', this.config.clobApiUrl!, http);
+    this.validator = new SchemaValidator(this.config.validation ?? 'strict');
+  }
+
+  /**
+   * Get the response validator (mode and lenient fallback counts)
+   */
+  getValidator(): SchemaValidator {
+    return this.validator;
   }
 
   /**
@@ -42,7 +59,7 @@ export class MarketApiClient {
   async getUserPositions(userAddress: string): Promise<UserPositions> {
     try {
       // Try multiple possible endpoint formats
-      let positions: Position[] = [];
+      let positions: unknown[] = [];
       
       try {
         // Primary endpoint format - try to get all positions (check for pagination)
@@ -53,6 +70,7 @@ export class MarketApiClient {
         
         while (hasMore && page < 10) { // Limit to 10 pages to avoid infinite loops
           const response = await this.client.get(`/users/${userAddress}/positions`, {
+            endpoint: 'positions',
             params: {
               active: true,
               limit: limit,
@@ -61,25 +79,18 @@ export class MarketApiClient {
             },
           });
           
-          const pagePositions = response.data.positions || response.data?.data || response.data || [];
+          const pagePositions = this.validator.readList('positions', response.data, 'positions', ['positions', 'data']);
+          allPositions = allPositions.concat(pagePositions);
           
-          if (Array.isArray(pagePositions)) {
-            allPositions = allPositions.concat(pagePositions);
-            
-            // Check if we got fewer results than limit (last page)
-            if (pagePositions.length < limit) {
-              hasMore = false;
-            } else {
-              page++;
-              // Log pagination if fetching multiple pages
-              if (page === 1 && process.env.DEBUG) {
-                console.log(`[DEBUG] Fetching positions page ${page + 1}... (found ${allPositions.length} so far)`);
-              }
-            }
-          } else {
-            // If response is not an array, it might be the full result
-            allPositions = pagePositions;
+          // Check if we got fewer results than limit (last page)
+          if (pagePositions.length < limit) {
             hasMore = false;
+          } else {
+            page++;
+            // Log pagination if fetching multiple pages
+            if (page === 1 && process.env.DEBUG) {
+              console.log(`[DEBUG] Fetching positions page ${page + 1}... (found ${allPositions.length} so far)`);
+            }
           }
         }
         
@@ -90,6 +101,11 @@ export class MarketApiClient {
           console.log(`[WARNING] Hit pagination limit (10 pages). There may be more than ${allPositions.length} positions.`);
         }
       } catch (primaryError: any) {
+        // A malformed response is not a missing route: never read it as an empty list
+        if (primaryError instanceof SchemaValidationError) {
+          throw primaryError;
+        }
+
         // Try alternative endpoint format (GraphQL or different structure)
         try {
           let allPositions: any[] = [];
@@ -99,6 +115,7 @@ export class MarketApiClient {
           
           while (hasMore && page < 10) {
             const altResponse = await this.client.get(`/positions`, {
+              endpoint: 'positions',
               params: {
                 user: userAddress,
                 active: true,
@@ -108,25 +125,19 @@ export class MarketApiClient {
               },
             });
             
-            const pagePositions = altResponse.data.positions || altResponse.data?.data || altResponse.data || [];
-            
-            if (Array.isArray(pagePositions)) {
-              allPositions = allPositions.concat(pagePositions);
-              if (pagePositions.length < limit) {
-                hasMore = false;
-              } else {
-                page++;
-              }
-            } else {
-              allPositions = pagePositions;
+            const pagePositions = this.validator.readList('positions', altResponse.data, 'positions', ['positions', 'data']);
+            allPositions = allPositions.concat(pagePositions);
+            if (pagePositions.length < limit) {
               hasMore = false;
+            } else {
+              page++;
             }
           }
           
           positions = allPositions;
         } catch (altError: any) {
-          // If both fail, check if it's a 404 (no positions) or actual error
-          if (primaryError.response?.status === 404 || altError.response?.status === 404) {
+          // The alternative endpoint is the one in use now: only its 404 means no positions
+          if (altError instanceof ApiError && altError.statusCode === 404) {
             return {
               user: userAddress,
               positions: [],
@@ -134,12 +145,11 @@ export class MarketApiClient {
               timestamp: new Date().toISOString(),
             };
           }
-          throw primaryError;
+          throw altError;
         }
       }
       
-      const positionsArray = Array.isArray(positions) ? positions : [];
-      const normalizedPositions = this.normalizePositions(positionsArray);
+      const normalizedPositions = this.normalizePositions(positions);
       
       return {
         user: userAddress,
@@ -148,7 +158,7 @@ export class MarketApiClient {
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
-      if (error.response?.status === 404) {
+      if (error instanceof ApiError && error.statusCode === 404) {
         // User has no positions
         return {
           user: userAddress,
@@ -157,7 +167,7 @@ export class MarketApiClient {
           timestamp: new Date().toISOString(),
         };
       }
-      throw new Error(`Failed to fetch user positions: ${error.message}`);
+      throw this.wrapError('Failed to fetch user positions', error);
     }
   }
 
@@ -167,11 +177,12 @@ export class MarketApiClient {
   async getUserTrades(userAddress: string, limit: number = 50): Promise<UserTrades> {
     try {
       // Try multiple possible endpoint formats
-      let trades: Trade[] = [];
+      let trades: unknown[] = [];
       
       try {
         // Primary endpoint format
         const response = await this.client.get(`/users/${userAddress}/trades`, {
+          endpoint: 'trades',
           params: {
             limit,
             sort: 'desc',
@@ -187,24 +198,24 @@ export class MarketApiClient {
           });
         }
         
-        trades = response.data.trades || response.data?.data || response.data || [];
+        trades = this.validator.readList('trades', response.data, 'trades', ['trades', 'data']);
         
         // Log first trade item structure for debugging
-        if (process.env.DEBUG && Array.isArray(trades) && trades.length > 0) {
+        if (process.env.DEBUG && trades.length > 0) {
           console.log('\n=== First Trade Item Structure ===');
           console.log(JSON.stringify(trades[0], null, 2));
           console.log('===================================\n');
         }
-        
-        // Ensure it's an array
-        if (!Array.isArray(trades)) {
-          console.warn('API returned non-array trades data, converting...');
-          trades = [];
-        }
       } catch (primaryError: any) {
+        // A malformed response is not a missing route: never read it as an empty list
+        if (primaryError instanceof SchemaValidationError) {
+          throw primaryError;
+        }
+
         // Try alternative endpoint format
         try {
           const altResponse = await this.client.get(`/trades`, {
+            endpoint: 'trades',
             params: {
               user: userAddress,
               limit,
@@ -212,14 +223,10 @@ export class MarketApiClient {
             },
           });
           
-          trades = altResponse.data.trades || altResponse.data?.data || altResponse.data || [];
-          
-          if (!Array.isArray(trades)) {
-            trades = [];
-          }
+          trades = this.validator.readList('trades', altResponse.data, 'trades', ['trades', 'data']);
         } catch (altError: any) {
-          // If both fail, check if it's a 404 (no trades) or actual error
-          if (primaryError.response?.status === 404 || altError.response?.status === 404) {
+          // The alternative endpoint is the one in use now: only its 404 means no trades
+          if (altError instanceof ApiError && altError.statusCode === 404) {
             return {
               user: userAddress,
               trades: [],
@@ -227,13 +234,11 @@ export class MarketApiClient {
               timestamp: new Date().toISOString(),
             };
           }
-          throw primaryError;
+          throw altError;
         }
       }
 
-      // Ensure trades is an array and log for debugging
-      const tradesArray = Array.isArray(trades) ? trades : [];
-      const normalizedTrades = this.normalizeTrades(tradesArray);
+      const normalizedTrades = this.normalizeTrades(trades);
 
       return {
         user: userAddress,
@@ -244,10 +249,10 @@ export class MarketApiClient {
     } catch (error: any) {
       // Log the actual error for debugging
       if (process.env.DEBUG) {
-        console.error('Error fetching trades:', error.response?.data || error.message);
+        console.error('Error fetching trades:', error.message);
       }
       
-      if (error.response?.status === 404) {
+      if (error instanceof ApiError && error.statusCode === 404) {
         return {
           user: userAddress,
           trades: [],
@@ -256,18 +261,22 @@ export class MarketApiClient {
         };
       }
       
-      // If it's a normalization error, return empty trades instead of throwing
-      if (error.message?.includes('Cannot read properties')) {
-        console.warn('Warning: Error normalizing trade data, returning empty trades');
-        return {
-          user: userAddress,
-          trades: [],
-          totalTrades: 0,
-          timestamp: new Date().toISOString(),
-        };
-      }
-      
-      throw new Error(`Failed to fetch user trades: ${error.message}`);
+      throw this.wrapError('Failed to fetch user trades', error);
+    }
+  }
+
+  /**
+   * Get the live CLOB order book for an outcome token
+   */
+  async getOrderBook(tokenId: string): Promise<OrderBook> {
+    try {
+      const response = await this.clobClient.get('/book', {
+        endpoint: 'orderBook',
+        params: { token_id: tokenId },
+      });
+      return this.normalizeOrderBook(tokenId, response.data);
+    } catch (error: any) {
+      throw this.wrapError('Failed to fetch order book', error);
     }
   }
 
@@ -290,27 +299,18 @@ export class MarketApiClient {
       
       try {
         // Try Gamma API first (usually has better market data)
-        const gammaClient = axios.create({
-          baseURL: this.config.gammaApiUrl,
-          timeout: 30000,
-        });
-        
         // Try different Gamma API endpoint formats
         try {
-          const gammaResponse = await gammaClient.get(`/markets/${marketId}`);
+          const gammaResponse = await this.gammaClient.get(`/markets/${marketId}`, { endpoint: 'market' });
           marketData = gammaResponse.data;
         } catch (e1: any) {
           try {
-            // Try with condition ID format
-            const gammaResponse2 = await gammaClient.get(`/events`, {
-              params: { conditionId: marketId },
-            });
-            if (gammaResponse2.data && gammaResponse2.data.length > 0) {
-              marketData = gammaResponse2.data[0];
-            }
+            // Try as a condition ID; only the market with that exact condition ID is used
+            marketData = await this.fetchMarketByConditionId(marketId);
           } catch (e2: any) {
             // Try markets endpoint
-            const gammaResponse3 = await gammaClient.get(`/markets`, {
+            const gammaResponse3 = await this.gammaClient.get(`/markets`, {
+              endpoint: 'market',
               params: { id: marketId },
             });
             if (gammaResponse3.data && Array.isArray(gammaResponse3.data) && gammaResponse3.data.length > 0) {
@@ -323,34 +323,57 @@ export class MarketApiClient {
       } catch (gammaError: any) {
         // Try Data API
         try {
-          const response = await this.client.get(`/markets/${marketId}`);
+          const response = await this.client.get(`/markets/${marketId}`, { endpoint: 'market' });
           marketData = response.data;
         } catch (dataApiError: any) {
           // Try CLOB API
           try {
-            const clobClient = axios.create({
-              baseURL: this.config.clobApiUrl,
-              timeout: 30000,
-            });
-            const clobResponse = await clobClient.get(`/markets/${marketId}`);
+            const clobResponse = await this.clobClient.get(`/markets/${marketId}`, { endpoint: 'market' });
             marketData = clobResponse.data;
           } catch (clobError: any) {
-            // If all fail, return default market with ID
+            // If all fail, return default market with ID.
+            // Only a market every API reports as missing is cached; outages and rate limits are retried next time.
             const defaultMarket = this.normalizeMarket({ id: marketId, marketId: marketId });
-            this.marketCache.set(marketId, defaultMarket);
+            if ([gammaError, dataApiError, clobError].every(e => e instanceof ApiError && e.statusCode === 404)) {
+              this.marketCache.set(marketId, defaultMarket);
+            } else {
+              console.warn(`⚠️  Market ${marketId} unavailable: ${clobError.message}`);
+            }
             return defaultMarket;
           }
         }
       }
       
-      const normalizedMarket = this.normalizeMarket(marketData || { id: marketId });
+      const normalizedMarket = marketData
+        ? this.parseMarket(marketData)
+        : this.normalizeMarket({ id: marketId });
       this.marketCache.set(marketId, normalizedMarket);
       return normalizedMarket;
     } catch (error: any) {
+      if (error instanceof SchemaValidationError) {
+        throw error;
+      }
       // Return market with at least the ID
-      const defaultMarket = this.normalizeMarket({ id: marketId, marketId: marketId });
-      this.marketCache.set(marketId, defaultMarket);
-      return defaultMarket;
+      return this.normalizeMarket({ id: marketId, marketId: marketId });
+    }
+  }
+
+  /**
+   * Get a market by its condition ID. Unlike getMarket there is no fallback to a default
+   * market: throws an ApiError (404) unless Gamma returns the market with this condition ID.
+   */
+  async getMarketByConditionId(conditionId: string): Promise<Market> {
+    const cached = this.conditionMarketCache.get(conditionId.toLowerCase());
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const market = this.parseMarket(await this.fetchMarketByConditionId(conditionId));
+      this.conditionMarketCache.set(conditionId.toLowerCase(), market);
+      return market;
+    } catch (error: any) {
+      throw this.wrapError(`Failed to fetch market ${conditionId}`, error);
     }
   }
 
@@ -367,6 +390,39 @@ export class MarketApiClient {
     }
   }
 
+  /**
+   * Query Gamma's /markets by condition ID and return the raw market whose condition ID matches.
+   * The query can return other markets, so the first result is never taken on trust.
+   */
+  private async fetchMarketByConditionId(conditionId: string): Promise<unknown> {
+    const response = await this.gammaClient.get('/markets', {
+      endpoint: 'market',
+      params: { condition_ids: conditionId },
+    });
+    const markets = this.validator.readList('market', response.data, 'markets');
+
+    const match = markets.find((item, i) => {
+      const m = this.validator.readRecord('market', MARKET_SCHEMA, item, `markets[${i}]`);
+      return m.conditionId?.toLowerCase() === conditionId.toLowerCase();
+    });
+    if (!match) {
+      throw new ApiError(`No market with condition ID ${conditionId}`, 404);
+    }
+    return match;
+  }
+
+  /**
+   * Prefix an API failure with what was being fetched, keeping its status code.
+   * Schema validation errors are passed through so their payload path is kept.
+   */
+  private wrapError(context: string, error: any): ApiError | SchemaValidationError {
+    if (error instanceof SchemaValidationError) {
+      return error;
+    }
+    const statusCode = error instanceof ApiError ? error.statusCode : undefined;
+    return new ApiError(`${context}: ${error.message}`, statusCode, error instanceof Error ? error : undefined);
+  }
+
   /**
    * Enrich trades with market data by fetching market details
    */
@@ -464,101 +520,120 @@ export class MarketApiClient {
   /**
    * Normalize position data from API response
    */
-  private normalizePositions(data: any[]): Position[] {
-    return data
-      .filter((item: any) => item != null)
-      .map((item: any) => {
-        // Extract market data directly from the item (API already includes it!)
-        const marketData = {
-          id: item.conditionId || item.market_id || item.marketId || '',
-          question: item.title || item.question || '',
-          slug: item.slug || '',
-          icon: item.icon || '',
-          eventSlug: item.eventSlug || '',
-          endDate: item.endDate || '',
-        };
-        
-        // Calculate current value from the position data
-        // Priority: currentValue > (size * curPrice) > initialValue > (size * avgPrice)
-        let currentValue: string;
-        const size = parseFloat(item.size || item.quantity || '0');
-        const curPrice = parseFloat(item.curPrice || item.currentPrice || '0');
-        const avgPrice = parseFloat(item.avgPrice || item.price || '0');
-        
-        if (item.currentValue !== undefined && item.currentValue !== null && item.currentValue !== 0) {
-          // Use API's currentValue if it's not 0
-          currentValue = String(item.currentValue);
-        } else if (curPrice > 0 && size > 0) {
-          // Calculate from size * current price
-          currentValue = String(size * curPrice);
-        } else if (item.initialValue !== undefined && item.initialValue !== null && item.initialValue > 0) {
-          // Fallback to initial value
-          currentValue = String(item.initialValue);
-        } else if (avgPrice > 0 && size > 0) {
-          // Calculate from size * average price (cost basis)
-          currentValue = String(size * avgPrice);
-        } else {
-          // Last resort: use calculatePositionValue
-          currentValue = this.calculatePositionValue(item);
-        }
-        
-        // Use current price if available and > 0, otherwise use average price
-        const displayPrice = curPrice > 0 ? curPrice : (avgPrice > 0 ? avgPrice : '0');
-        
-        // Store initial value for display when current value is 0
-        const initialValue = item.initialValue !== undefined && item.initialValue !== null
-          ? String(item.initialValue)
-          : (avgPrice > 0 && size > 0 ? String(size * avgPrice) : undefined);
-        
-        return {
-          id: item.asset || item.id || item.positionId || '',
-          market: this.normalizeMarket(marketData),
-          outcome: item.outcome || item.outcomeToken || '',
-          quantity: String(item.size || item.quantity || '0'),
-          price: String(displayPrice),
-          value: currentValue,
-          initialValue: initialValue,
-          timestamp: item.timestamp 
-            ? (typeof item.timestamp === 'number' 
-                ? new Date(item.timestamp * 1000).toISOString() 
-                : item.timestamp)
-            : new Date().toISOString(),
-        };
-      });
+  private normalizePositions(data: unknown[]): Position[] {
+    return data.flatMap((item: unknown, index: number) => {
+      const p = this.validator.readRecord('positions', POSITION_SCHEMA, item, `positions[${index}]`);
+      if (!item || typeof item !== 'object') {
+        return []; // Not a record; skipped in lenient mode
+      }
+
+      // Extract market data directly from the item (API already includes it!)
+      const marketData = {
+        id: p.conditionId ?? '',
+        question: p.title ?? '',
+        slug: p.slug ?? '',
+        icon: p.icon ?? '',
+        eventSlug: p.eventSlug ?? '',
+        endDate: p.endDate ?? '',
+      };
+      
+      // Calculate current value from the position data
+      // Priority: currentValue > (size * curPrice) > initialValue > (size * avgPrice)
+      let currentValue: Decimal;
+      const size = Decimal.from(p.size ?? 0);
+      const curPrice = Decimal.from(p.curPrice ?? 0);
+      const avgPrice = Decimal.from(p.avgPrice ?? 0);
+      
+      if (p.currentValue !== undefined && !Decimal.from(p.currentValue).isZero()) {
+        // Use API's currentValue if it's not 0
+        currentValue = Decimal.from(p.currentValue);
+      } else if (curPrice.isPositive() && size.isPositive()) {
+        // Calculate from size * current price
+        currentValue = size.times(curPrice);
+      } else if (p.initialValue !== undefined && Decimal.from(p.initialValue).isPositive()) {
+        // Fallback to initial value
+        currentValue = Decimal.from(p.initialValue);
+      } else {
+        // Calculate from size * average price (cost basis)
+        currentValue = size.times(avgPrice);
+      }
+      
+      // Use current price if available and > 0, otherwise use average price
+      const displayPrice = curPrice.isPositive() ? curPrice : avgPrice;
+      
+      // Store initial value for display when current value is 0
+      const initialValue = p.initialValue !== undefined
+        ? Decimal.from(p.initialValue).toString()
+        : (avgPrice.isPositive() && size.isPositive() ? size.times(avgPrice).toString() : undefined);
+      
+      return [{
+        id: p.tokenId ?? '',
+        market: this.normalizeMarket(marketData),
+        outcome: p.outcome ?? '',
+        quantity: size.toString(),
+        price: displayPrice.toString(),
+        value: currentValue.toString(),
+        initialValue: initialValue,
+        timestamp: p.timestamp ?? new Date().toISOString(),
+      }];
+    });
   }
 
   /**
    * Normalize trade data from API response
    */
-  private normalizeTrades(data: any[]): Trade[] {
-    return data
-      .filter((item: any) => item != null) // Filter out null/undefined items
-      .map((item: any) => {
-        // Extract market data directly from the item (API already includes it!)
-        const marketData = {
-          id: item.conditionId || item.market_id || item.marketId || '',
-          question: item.title || item.question || '',
-          slug: item.slug || '',
-          icon: item.icon || '',
-          eventSlug: item.eventSlug || '',
-        };
-        
-        return {
-          id: item.transactionHash || item.id || item.tradeId || `trade-${Date.now()}-${Math.random()}`,
-          market: this.normalizeMarket(marketData),
-          outcome: item.outcome || item.outcomeToken || '',
-          side: (item.side || '').toLowerCase() === 'buy' ? 'buy' : 'sell',
-          quantity: String(item.size || item.quantity || item.amount || '0'),
-          price: String(item.price || item.executionPrice || item.fillPrice || '0'),
-          timestamp: item.timestamp 
-            ? (typeof item.timestamp === 'number' 
-                ? new Date(item.timestamp * 1000).toISOString() 
-                : item.timestamp)
-            : new Date().toISOString(),
-          transactionHash: item.transactionHash || item.txHash || item.tx,
-          user: item.proxyWallet || item.user || item.userAddress || item.account || '',
-        };
-      });
+  private normalizeTrades(data: unknown[]): Trade[] {
+    return data.flatMap((item: unknown, index: number) => {
+      const t = this.validator.readRecord('trades', TRADE_SCHEMA, item, `trades[${index}]`);
+      if (!item || typeof item !== 'object') {
+        return []; // Not a record; skipped in lenient mode
+      }
+
+      // Extract market data directly from the item (API already includes it!)
+      const marketData = {
+        id: t.conditionId ?? '',
+        question: t.title ?? '',
+        slug: t.slug ?? '',
+        icon: t.icon ?? '',
+        eventSlug: t.eventSlug ?? '',
+      };
+      
+      return [{
+        id: t.transactionHash ?? t.id ?? `trade-${Date.now()}-${Math.random()}`,
+        market: this.normalizeMarket(marketData),
+        outcome: t.outcome ?? '',
+        side: t.side === 'buy' ? 'buy' : 'sell',
+        quantity: Decimal.from(t.size ?? 0).toString(),
+        price: Decimal.from(t.price ?? 0).toString(),
+        timestamp: t.timestamp ?? new Date().toISOString(),
+        transactionHash: t.transactionHash,
+        tokenId: t.tokenId,
+        user: t.user ?? '',
+      }];
+    });
+  }
+
+  /**
+   * Validate a market payload from an API and normalize it
+   */
+  private parseMarket(data: unknown): Market {
+    const m = this.validator.readRecord('market', MARKET_SCHEMA, data, 'market');
+
+    return this.normalizeMarket({
+      id: m.id,
+      question: m.question,
+      slug: m.slug,
+      eventSlug: m.eventSlug,
+      description: m.description,
+      endDate: m.endDate,
+      image: m.image,
+      icon: m.icon,
+      resolutionSource: m.resolutionSource,
+      tags: m.tags,
+      liquidity: m.liquidity,
+      volume: m.volume,
+      active: m.active,
+    });
   }
 
   /**
@@ -571,6 +646,7 @@ export class MarketApiClient {
         id: '',
         question: 'Unknown Market',
         slug: '',
+        eventSlug: undefined,
         description: undefined,
         endDate: undefined,
         image: undefined,
@@ -587,12 +663,18 @@ export class MarketApiClient {
       id: data.id || data.marketId || data.market_id || data.conditionId || '',
       question: data.question || data.title || data.name || 'Unknown Market',
       slug: data.slug || data.slug_id || '',
+      eventSlug: data.eventSlug || data.event_slug || undefined,
       description: data.description || data.desc,
       endDate: data.endDate || data.endDateISO || data.end_date,
       image: data.image || data.imageUrl || data.image_url,
       icon: data.icon,
       resolutionSource: data.resolutionSource || data.resolution_source,
-      tags: Array.isArray(data.tags) ? data.tags : [],
+      // Gamma returns tags as objects ({ label, slug }); keep their slugs
+      tags: Array.isArray(data.tags)
+        ? data.tags
+            .map((tag: any) => (typeof tag === 'string' ? tag : tag?.slug || tag?.label))
+            .filter((tag: any): tag is string => typeof tag === 'string' && tag.length > 0)
+        : [],
       liquidity: data.liquidity ? parseFloat(String(data.liquidity)) : undefined,
       volume: data.volume ? parseFloat(String(data.volume)) : undefined,
       active: data.active !== undefined ? Boolean(data.active) : true,
@@ -600,23 +682,34 @@ export class MarketApiClient {
   }
 
   /**
-   * Calculate total value of positions
+   * Normalize order book data from API response
    */
-  private calculateTotalValue(positions: Position[]): string {
-    const total = positions.reduce((sum, pos) => {
-      const value = parseFloat(pos.value || '0');
-      return sum + (isNaN(value) ? 0 : value);
-    }, 0);
-    return total.toFixed(6);
+  private normalizeOrderBook(tokenId: string, data: unknown): OrderBook {
+    const book = this.validator.readRecord('orderBook', ORDER_BOOK_SCHEMA, data, 'book');
+    const toLevels = (levels: unknown[] | undefined, side: string): OrderBookLevel[] =>
+      (levels ?? []).flatMap((level: unknown, index: number) => {
+        const l = this.validator.readRecord('orderBook', BOOK_LEVEL_SCHEMA, level, `book.${side}[${index}]`);
+        return l.price !== undefined && l.size !== undefined && Decimal.from(l.size).isPositive()
+          ? [{ price: Decimal.from(l.price).toString(), size: Decimal.from(l.size).toString() }]
+          : [];
+      });
+
+    return {
+      tokenId: book.tokenId ?? tokenId,
+      bids: toLevels(book.bids, 'bids').sort((a, b) => Decimal.from(b.price).cmp(a.price)),
+      asks: toLevels(book.asks, 'asks').sort((a, b) => Decimal.from(a.price).cmp(b.price)),
+      tickSize: Decimal.from(book.tickSize ?? '0.01').toString(),
+      minOrderSize: Decimal.from(book.minOrderSize ?? 0).toString(),
+      timestamp: book.timestamp !== undefined
+        ? new Date(Number(book.timestamp)).toISOString()
+        : new Date().toISOString(),
+    };
   }
 
   /**
-   * Calculate position value
+   * Calculate total value of positions (exact sum, not rounded)
    */
-  private calculatePositionValue(item: any): string {
-    const quantity = parseFloat(item.quantity || item.size || '0');
-    const price = parseFloat(item.price || item.lastPrice || '0');
-    const value = quantity * price;
-    return isNaN(value) ? '0' : value.toFixed(6);
+  private calculateTotalValue(positions: Position[]): DecimalString {
+    return Decimal.sum(positions.map(pos => Decimal.parse(pos.value))).toString();
   }
 }
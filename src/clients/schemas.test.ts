@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POSITION_SCHEMA, SchemaValidator, TRADE_SCHEMA } from './schemas';
+import { SchemaValidationError } from '../utils/errors';
+
+const POSITION = {
+  asset: 'token-1',
+  conditionId: '0xcondition',
+  size: '12.345678901234567',
+  avgPrice: 0.1,
+  outcome: 'Yes',
+  timestamp: 1700000000,
+};
+
+test('reads fields under any accepted key and keeps numbers exact', () => {
+  const validator = new SchemaValidator('strict');
+  const position = validator.readRecord('positions', POSITION_SCHEMA, { ...POSITION, asset: undefined, id: 'token-2' }, 'positions[0]');
+
+  assert.equal(position.tokenId, 'token-2');
+  assert.equal(position.size, '12.345678901234567');
+  assert.equal(position.avgPrice, '0.1');
+  assert.equal(position.timestamp, '2023-11-14T22:13:20.000Z');
+  assert.equal(position.curPrice, undefined);
+  assert.equal(validator.getFallbackCount(), 0);
+});
+
+test('throws on a missing required field or a bad value in strict mode', () => {
+  const validator = new SchemaValidator('strict');
+  const { size: _size, ...missingSize } = POSITION;
+
+  assert.throws(
+    () => validator.readRecord('positions', POSITION_SCHEMA, missingSize, 'positions[2]'),
+    (error: unknown) => error instanceof SchemaValidationError && error.endpoint === 'positions' && error.path === 'positions[2].size'
+  );
+  assert.throws(
+    () => validator.readRecord('trades', TRADE_SCHEMA, { side: 'HOLD', size: 1, price: 0.5, timestamp: 1 }, 'trades[0]'),
+    /trades\[0\]\.side: expected one of buy, sell/
+  );
+  assert.throws(() => validator.readRecord('positions', POSITION_SCHEMA, [], 'positions[0]'), SchemaValidationError);
+});
+
+test('falls back to undefined and counts each fallback per field in lenient mode', t => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const validator = new SchemaValidator('lenient');
+
+  const first = validator.readRecord('positions', POSITION_SCHEMA, { ...POSITION, size: 'lots' }, 'positions[0]');
+  const second = validator.readRecord('positions', POSITION_SCHEMA, { ...POSITION, size: 'lots' }, 'positions[1]');
+  assert.equal(first.size, undefined);
+  assert.equal(second.size, undefined);
+  assert.equal(first.tokenId, 'token-1');
+
+  assert.equal(validator.getFallbackCount(), 2);
+  assert.deepEqual(validator.getFallbacks(), { 'positions positions[].size': 2 });
+  assert.equal(warn.mock.callCount(), 1); // Warned once per field
+});
+
+test('reads lists bare or wrapped in an envelope', t => {
+  t.mock.method(console, 'warn', () => {});
+  const validator = new SchemaValidator('strict');
+  assert.deepEqual(validator.readList('trades', [1, 2], 'trades'), [1, 2]);
+  assert.deepEqual(validator.readList('trades', { data: [1] }, 'trades'), [1]);
+  assert.deepEqual(validator.readList('markets', { markets: [2] }, 'markets', ['data', 'markets']), [2]);
+  assert.throws(() => validator.readList('trades', { items: [] }, 'trades'), /expected a list, got an object/);
+
+  const lenient = new SchemaValidator('lenient');
+  assert.deepEqual(lenient.readList('trades', null, 'trades'), []);
+  assert.equal(lenient.getFallbackCount(), 1);
+});
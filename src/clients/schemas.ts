@@ -0,0 +1,254 @@
+import { DecimalString, ValidationMode } from '../types';
+import { Decimal } from '../utils/decimal';
+import { SchemaValidationError } from '../utils/errors';
+
+type FieldType = 'string' | 'numeric' | 'boolean' | 'timestamp' | 'array';
+
+/**
+ * One field of a response record
+ */
+interface FieldSpec {
+  keys: readonly string[]; // Accepted field names, in order of preference
+  type: FieldType;
+  required?: boolean;
+  values?: readonly string[]; // Allowed values (case-insensitive) for string fields
+}
+
+type RecordSchema = Record<string, FieldSpec>;
+
+type FieldValue<T extends FieldType> =
+  T extends 'numeric' ? DecimalString :
+  T extends 'boolean' ? boolean :
+  T extends 'array' ? unknown[] :
+  string;
+
+/**
+ * Values read from a record; undefined when missing or replaced by the lenient fallback
+ */
+export type ParsedRecord<S extends RecordSchema> = { [K in keyof S]: FieldValue<S[K]['type']> | undefined };
+
+/**
+ * Data API /positions item
+ */
+export const POSITION_SCHEMA = {
+  tokenId: { keys: ['asset', 'id', 'positionId'], type: 'string', required: true },
+  conditionId: { keys: ['conditionId', 'market_id', 'marketId'], type: 'string', required: true },
+  size: { keys: ['size', 'quantity'], type: 'numeric', required: true },
+  avgPrice: { keys: ['avgPrice', 'price'], type: 'numeric', required: true },
+  curPrice: { keys: ['curPrice', 'currentPrice'], type: 'numeric' },
+  currentValue: { keys: ['currentValue'], type: 'numeric' },
+  initialValue: { keys: ['initialValue'], type: 'numeric' },
+  outcome: { keys: ['outcome', 'outcomeToken'], type: 'string', required: true },
+  title: { keys: ['title', 'question'], type: 'string' },
+  slug: { keys: ['slug'], type: 'string' },
+  icon: { keys: ['icon'], type: 'string' },
+  eventSlug: { keys: ['eventSlug'], type: 'string' },
+  endDate: { keys: ['endDate'], type: 'string' },
+  timestamp: { keys: ['timestamp'], type: 'timestamp' },
+} as const;
+
+/**
+ * Data API /trades item
+ */
+export const TRADE_SCHEMA = {
+  side: { keys: ['side'], type: 'string', required: true, values: ['buy', 'sell'] },
+  size: { keys: ['size', 'quantity', 'amount'], type: 'numeric', required: true },
+  price: { keys: ['price', 'executionPrice', 'fillPrice'], type: 'numeric', required: true },
+  timestamp: { keys: ['timestamp'], type: 'timestamp', required: true },
+  transactionHash: { keys: ['transactionHash', 'txHash', 'tx'], type: 'string' },
+  id: { keys: ['id', 'tradeId'], type: 'string' },
+  tokenId: { keys: ['asset', 'asset_id', 'tokenId'], type: 'string' },
+  conditionId: { keys: ['conditionId', 'market_id', 'marketId'], type: 'string' },
+  outcome: { keys: ['outcome', 'outcomeToken'], type: 'string' },
+  title: { keys: ['title', 'question'], type: 'string' },
+  slug: { keys: ['slug'], type: 'string' },
+  icon: { keys: ['icon'], type: 'string' },
+  eventSlug: { keys: ['eventSlug'], type: 'string' },
+  user: { keys: ['proxyWallet', 'user', 'userAddress', 'account'], type: 'string' },
+} as const;
+
+/**
+ * Gamma, data API or CLOB market
+ */
+export const MARKET_SCHEMA = {
+  id: { keys: ['id', 'marketId', 'market_id', 'conditionId', 'condition_id'], type: 'string', required: true },
+  conditionId: { keys: ['conditionId', 'condition_id'], type: 'string' },
+  question: { keys: ['question', 'title', 'name'], type: 'string', required: true },
+  slug: { keys: ['slug', 'slug_id', 'market_slug'], type: 'string' },
+  eventSlug: { keys: ['eventSlug', 'event_slug'], type: 'string' },
+  description: { keys: ['description', 'desc'], type: 'string' },
+  endDate: { keys: ['endDate', 'endDateISO', 'end_date', 'end_date_iso'], type: 'string' },
+  image: { keys: ['image', 'imageUrl', 'image_url'], type: 'string' },
+  icon: { keys: ['icon'], type: 'string' },
+  resolutionSource: { keys: ['resolutionSource', 'resolution_source'], type: 'string' },
+  tags: { keys: ['tags'], type: 'array' },
+  liquidity: { keys: ['liquidity', 'liquidityNum'], type: 'numeric' },
+  volume: { keys: ['volume', 'volumeNum'], type: 'numeric' },
+  active: { keys: ['active'], type: 'boolean' },
+} as const;
+
+/**
+ * CLOB /book response
+ */
+export const ORDER_BOOK_SCHEMA = {
+  tokenId: { keys: ['asset_id'], type: 'string' },
+  bids: { keys: ['bids'], type: 'array', required: true },
+  asks: { keys: ['asks'], type: 'array', required: true },
+  tickSize: { keys: ['tick_size'], type: 'numeric' },
+  minOrderSize: { keys: ['min_order_size'], type: 'numeric' },
+  timestamp: { keys: ['timestamp'], type: 'numeric' },
+} as const;
+
+/**
+ * CLOB order book level
+ */
+export const BOOK_LEVEL_SCHEMA = {
+  price: { keys: ['price'], type: 'numeric', required: true },
+  size: { keys: ['size'], type: 'numeric', required: true },
+} as const;
+
+/**
+ * Schema Validator
+ * Reads API payloads against the schemas above. In strict mode any mismatch throws a
+ * SchemaValidationError naming the endpoint and payload path; in lenient mode the field
+ * falls back to undefined (the caller's default) and the fallback is counted.
+ */
+export class SchemaValidator {
+  private mode: ValidationMode;
+  private fallbacks: Map<string, number> = new Map(); // endpoint and path (without indices) -> count
+
+  constructor(mode: ValidationMode = 'strict') {
+    this.mode = mode;
+  }
+
+  /**
+   * Read a record's fields. Missing optional fields are undefined without counting as a fallback.
+   */
+  readRecord<S extends RecordSchema>(endpoint: string, schema: S, value: unknown, path: string): ParsedRecord<S> {
+    const result = {} as ParsedRecord<S>;
+
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      this.fail(endpoint, path, `expected an object, got ${describe(value)}`);
+      return result;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const name of Object.keys(schema) as Array<keyof S & string>) {
+      const spec = schema[name];
+      const key = spec.keys.find(k => record[k] !== undefined && record[k] !== null && record[k] !== '');
+
+      if (key === undefined) {
+        if (spec.required) {
+          this.fail(endpoint, `${path}.${spec.keys[0]}`, 'required field is missing');
+        }
+        continue;
+      }
+
+      const parsed = parseField(spec, record[key]);
+      if (parsed === undefined) {
+        this.fail(endpoint, `${path}.${key}`, `expected ${describeSpec(spec)}, got ${describe(record[key])}`);
+        continue;
+      }
+      result[name] = parsed as ParsedRecord<S>[typeof name];
+    }
+
+    return result;
+  }
+
+  /**
+   * Read a list response. A list may come bare or wrapped in one of the given envelope keys.
+   */
+  readList(endpoint: string, value: unknown, path: string, envelopes: readonly string[] = ['data']): unknown[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const key = envelopes.find(k => Array.isArray(record[k]));
+      if (key) {
+        return record[key] as unknown[];
+      }
+    }
+
+    this.fail(endpoint, path, `expected a list, got ${describe(value)}`);
+    return [];
+  }
+
+  /**
+   * Number of times the lenient fallback was used
+   */
+  getFallbackCount(): number {
+    return Array.from(this.fallbacks.values()).reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Lenient fallbacks per endpoint and field
+   */
+  getFallbacks(): Record<string, number> {
+    return Object.fromEntries(this.fallbacks);
+  }
+
+  getMode(): ValidationMode {
+    return this.mode;
+  }
+
+  private fail(endpoint: string, path: string, message: string): void {
+    if (this.mode === 'strict') {
+      throw new SchemaValidationError(message, endpoint, path);
+    }
+
+    // Group items of a list under one field: positions[3].size -> positions[].size
+    const field = `${endpoint} ${path.replace(/\[\d+\]/g, '[]')}`;
+    const count = (this.fallbacks.get(field) ?? 0) + 1;
+    this.fallbacks.set(field, count);
+    if (count === 1) {
+      console.warn(`⚠️  ${endpoint} response invalid at ${path}: ${message}; using fallback (lenient validation)`);
+    }
+  }
+}
+
+function parseField(spec: FieldSpec, value: unknown): unknown {
+  switch (spec.type) {
+    case 'string': {
+      if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+      const text = String(value);
+      if (spec.values && !spec.values.includes(text.toLowerCase())) return undefined;
+      return spec.values ? text.toLowerCase() : text;
+    }
+    case 'numeric': {
+      // Kept as an exact decimal string; numeric strings are never rounded through a float
+      if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+      try {
+        return Decimal.from(value).toString();
+      } catch {
+        return undefined;
+      }
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return undefined;
+    case 'timestamp': {
+      // Data API timestamps are Unix seconds
+      if (typeof value === 'number' && Number.isFinite(value)) return new Date(value * 1000).toISOString();
+      if (typeof value === 'string' && /^\d+$/.test(value)) return new Date(Number(value) * 1000).toISOString();
+      if (typeof value === 'string' && !isNaN(new Date(value).getTime())) return value;
+      return undefined;
+    }
+    case 'array':
+      return Array.isArray(value) ? value : undefined;
+  }
+}
+
+function describeSpec(spec: FieldSpec): string {
+  if (spec.values) return `one of ${spec.values.join(', ')}`;
+  return spec.type === 'numeric' ? 'a number' : spec.type === 'array' ? 'a list' : `a ${spec.type}`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '...' : value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, validateConfig } from './index';
+import { REDACTED, redact } from '../utils/redact';
+
+test('registers the API key, keystore password and remote signer token for redaction', () => {
+  process.env.TARGET_ADDRESS = '0x' + '12'.repeat(20);
+  process.env.POLYMARKET_API_KEY = 'data-api-key-1234';
+  process.env.KEYSTORE_PASSWORD = 'keystore-password-5678';
+  process.env.REMOTE_SIGNER_URL = 'http://127.0.0.1:8550';
+  process.env.REMOTE_SIGNER_AUTH_TOKEN = 'signer-token-9012';
+
+  const config = loadConfig();
+  assert.equal(config.api.apiKey, 'data-api-key-1234');
+
+  const headers = JSON.stringify({ 'X-Api': 'data-api-key-1234', token: 'signer-token-9012' });
+  assert.equal(redact(headers), JSON.stringify({ 'X-Api': REDACTED, token: REDACTED }));
+  assert.equal(redact('unlock with keystore-password-5678'), `unlock with ${REDACTED}`);
+});
+
+test('reads TARGETS_FILE entries and rejects settings of the wrong type', t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'targets-'));
+  const file = path.join(dir, 'targets.json');
+  const address = '0x' + '34'.repeat(20);
+  process.env.TARGET_ADDRESS = '0x' + '12'.repeat(20);
+  process.env.TARGETS_FILE = file;
+  t.after(() => {
+    delete process.env.TARGETS_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  fs.writeFileSync(file, JSON.stringify([{ address, label: 'whale', weight: 2, sizing: { multiplier: 0.5 } }]));
+  const target = loadConfig().targets.find(entry => entry.address === address);
+  assert.equal(target?.label, 'whale');
+  assert.equal(target?.weight, 2);
+  assert.equal(target?.sizing.multiplier, 0.5);
+
+  fs.writeFileSync(file, JSON.stringify([{ address, sizing: 'fixed-usd' }]));
+  assert.throws(() => loadConfig(), /"sizing" must be an object/);
+
+  fs.writeFileSync(file, JSON.stringify([{ address, weight: '2' }]));
+  assert.throws(() => loadConfig(), /"weight" must be a number/);
+});
+
+test('requires a valid FUNDER_ADDRESS for proxy and Safe wallets and none for an EOA', t => {
+  t.mock.method(console, 'warn', () => {});
+  const funder = '0x' + '56'.repeat(20);
+  process.env.TARGET_ADDRESS = '0x' + '12'.repeat(20);
+  process.env.COPY_TRADING_ENABLED = 'true';
+  process.env.PRIVATE_KEY = '0x' + '11'.repeat(32);
+  t.after(() => {
+    for (const name of ['COPY_TRADING_ENABLED', 'PRIVATE_KEY', 'SIGNATURE_TYPE', 'FUNDER_ADDRESS']) {
+      delete process.env[name];
+    }
+  });
+
+  process.env.SIGNATURE_TYPE = 'gnosis-safe';
+  process.env.FUNDER_ADDRESS = funder;
+  const config = loadConfig();
+  validateConfig(config);
+  assert.equal(config.copyTrading.signatureType, 'gnosis-safe');
+  assert.equal(config.copyTrading.funderAddress, funder);
+
+  delete process.env.FUNDER_ADDRESS;
+  assert.throws(() => validateConfig(loadConfig()), /FUNDER_ADDRESS is required with SIGNATURE_TYPE gnosis-safe/);
+
+  process.env.SIGNATURE_TYPE = 'poly-proxy';
+  process.env.FUNDER_ADDRESS = '0x1234';
+  assert.throws(() => validateConfig(loadConfig()), /FUNDER_ADDRESS "0x1234" is not a valid address/);
+
+  process.env.SIGNATURE_TYPE = 'eoa';
+  process.env.FUNDER_ADDRESS = funder;
+  assert.throws(() => validateConfig(loadConfig()), /FUNDER_ADDRESS is only used with SIGNATURE_TYPE poly-proxy or gnosis-safe/);
+
+  process.env.SIGNATURE_TYPE = 'safe';
+  assert.throws(() => validateConfig(loadConfig()), /Invalid signature type "safe"/);
+});
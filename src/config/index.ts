@@ -4,33 +4,79 @@
  */
 
 import dotenv from 'dotenv';
+import * as fs from 'fs';
+import { isAddress, isKeystoreJson } from 'ethers';
+import { registerSecret } from '../utils/redact';
+import { PORTFOLIO_SIZING_STRATEGIES } from '../execution/sizing';
+import { KeystoreConfig, KeystorePasswordSource, RemoteSignerConfig, RemoteSignerProtocol, WalletSignatureType, StartupPolicy, CopyOrderType, SizingConfig, SizingStrategyName, RiskLimits, MarketFilterConfig, PriceDriftConfig, PriceDriftAction, ConsensusConfig, HttpConfig, ValidationMode } from '../types';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * A wallet to copy with its effective sizing and filter settings
+ * (the defaults from the environment merged with the target's overrides)
+ */
+export interface TargetSettings {
+  address: string;
+  label?: string;
+  enabled: boolean;
+  weight: number; // Vote weight in consensus mode
+  sizing: SizingConfig;
+  filters: MarketFilterConfig;
+}
+
 /**
  * Application configuration interface
  */
 export interface AppConfig {
   // Target configuration
-  targetAddress: string;
+  targets: TargetSettings[];
   
   // Trading configuration
   copyTrading: {
     enabled: boolean;
-    privateKey: string;
+    privateKey: string; // Plaintext key; empty when a keystore or remote signer is used
+    keystore?: KeystoreConfig;
+    remoteSigner?: RemoteSignerConfig;
+    signatureType: WalletSignatureType;
+    funderAddress: string; // Proxy or Safe wallet holding the funds; empty for eoa
     dryRun: boolean;
     positionSizeMultiplier: number;
     maxPositionSize: number;
     maxTradeSize: number;
     minTradeSize: number;
     slippageTolerance: number;
+    buyOrderType: CopyOrderType;
+    sellOrderType: CopyOrderType;
+    gtdExpiration: number;
+    orderTimeout: number;
+    orderPollInterval: number;
+    startupPolicy: StartupPolicy;
   };
   
+  // Position sizing configuration
+  sizing: SizingConfig;
+  
+  // Portfolio risk limits (0 disables a limit)
+  risk: RiskLimits;
+  
+  // Price-drift guard for copy buys (0 disables a threshold)
+  priceDrift: PriceDriftConfig;
+  
+  // Market filters applied to copy buys (0 or empty disables a filter)
+  filters: MarketFilterConfig;
+  
+  // Consensus mode (minWallets 0 copies every target on its own)
+  consensus: ConsensusConfig;
+  
   // Monitoring configuration
   monitoring: {
     pollInterval: number;
     enableWebSocket: boolean;
+    webSocketUrl: string;
+    enableTradeFeed: boolean;
+    enableChainListener: boolean;
   };
   
   // API configuration
@@ -40,12 +86,23 @@ export interface AppConfig {
     dataApiUrl: string;
     gammaApiUrl: string;
     clobApiUrl: string;
+    validation: ValidationMode;
   };
   
+  // HTTP retries, rate limits and timeouts for the Polymarket APIs
+  http: HttpConfig;
+  
   // Chain configuration
   chain: {
     chainId: number;
     clobHost: string;
+    rpcUrl: string; // JSON-RPC (http/https) or WebSocket (ws/wss) endpoint for the OrderFilled listener
+    exchangeAddresses: string[]; // Empty uses the Polymarket CTF and neg-risk CTF exchanges
+  };
+
+  // Storage configuration
+  storage: {
+    stateFile: string;
   };
 }
 
@@ -56,59 +113,361 @@ const DEFAULT_CONFIG = {
   monitoring: {
     pollInterval: 30000, // 30 seconds
     enableWebSocket: false,
+    webSocketUrl: 'wss://ws-subscriptions-clob.polymarket.com/ws/',
+    enableTradeFeed: false,
+    enableChainListener: false,
   },
   api: {
     baseUrl: 'https://clob.polymarket.com',
     dataApiUrl: 'https://data-api.polymarket.com',
     gammaApiUrl: 'https://gamma-api.polymarket.com',
     clobApiUrl: 'https://clob.polymarket.com',
+    validation: 'strict',
   },
   chain: {
     chainId: 137, // Polygon mainnet
     clobHost: 'https://clob.polymarket.com',
+    rpcUrl: '',
   },
   copyTrading: {
+    keystoreFile: './keys/keystore.json', // Where `keystore create/import` writes
+    remoteSignerProtocol: 'json-rpc',
+    remoteSignerTimeout: 10000,
+    signatureType: 'eoa',
     positionSizeMultiplier: 1.0,
     maxPositionSize: 10000,
     maxTradeSize: 5000,
     minTradeSize: 1,
     slippageTolerance: 1.0,
+    buyOrderType: 'GTC',
+    sellOrderType: 'GTC',
+    gtdExpiration: 300, // 5 minutes
+    orderTimeout: 60000, // 1 minute
+    orderPollInterval: 2000, // 2 seconds
+    startupPolicy: 'ignore-existing',
+  },
+  storage: {
+    stateFile: './data/state.json',
+  },
+  http: {
+    maxRetries: 3,
+    baseDelay: 500, // 0.5 seconds, doubled per retry
+    maxDelay: 30000, // 30 seconds
+    rateLimits: { data: 10, gamma: 10, clob: 10 }, // requests per second
+    timeouts: { positions: 30000, trades: 15000, orderBook: 5000, market: 10000 },
+  },
+  risk: {
+    maxTotalExposure: 0,
+    maxMarketExposure: 0,
+    maxEventExposure: 0,
+    maxOpenPositions: 0,
+    dailyLossLimit: 0,
+  },
+  priceDrift: {
+    maxAbsolute: 0,
+    maxRelative: 0,
+    action: 'skip',
+  },
+  consensus: {
+    minWallets: 0,
+    window: 600000, // 10 minutes
+  },
+  filters: {
+    requireActive: true,
+    minLiquidity: 0,
+    minVolume: 0,
+    minHoursToEnd: 0,
+    minPrice: 0,
+    maxPrice: 0,
+  },
+  sizing: {
+    strategy: 'multiplier',
+    fixedUsd: 10,
+    portfolioPercent: 1.0,
+    bankroll: 0,
+    kellyEdge: 0.05,
+    kellyFraction: 0.25,
+    kellyCap: 0.05,
   },
 } as const;
 
+const STARTUP_POLICIES: StartupPolicy[] = ['ignore-existing', 'mirror-existing', 'ask'];
+
+const ORDER_TYPES: CopyOrderType[] = ['GTC', 'GTD', 'FOK', 'FAK', 'MARKET'];
+
+const PRICE_DRIFT_ACTIONS: PriceDriftAction[] = ['skip', 'limit'];
+
+const VALIDATION_MODES: ValidationMode[] = ['strict', 'lenient'];
+
+const REMOTE_SIGNER_PROTOCOLS: RemoteSignerProtocol[] = ['json-rpc', 'http'];
+
+const SIGNATURE_TYPES: WalletSignatureType[] = ['eoa', 'poly-proxy', 'gnosis-safe'];
+
+const SIZING_STRATEGIES: SizingStrategyName[] = [
+  'multiplier',
+  'fixed-usd',
+  'portfolio-percent',
+  'proportional',
+  'kelly',
+];
+
+/**
+ * Parse a comma-separated environment variable into a list
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build the target list from the addresses in the environment and the optional TARGETS_FILE.
+ * Each file entry looks like:
+ *   { "address": "0x...", "label": "whale", "enabled": true, "weight": 2, "positionSizeMultiplier": 0.5,
+ *     "sizing": { "strategy": "fixed-usd", "fixedUsd": 25 }, "filters": { "excludeTags": ["sports"] } }
+ * Entries override the defaults for that address; addresses only in the environment use the defaults.
+ */
+function loadTargets(addresses: string[], sizing: SizingConfig, filters: MarketFilterConfig): TargetSettings[] {
+  const targets: TargetSettings[] = addresses.map(address => ({
+    address,
+    enabled: true,
+    weight: 1,
+    sizing: { ...sizing },
+    filters: { ...filters },
+  }));
+
+  const targetsFile = process.env.TARGETS_FILE;
+  if (!targetsFile) {
+    return targets;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(targetsFile, 'utf-8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read TARGETS_FILE ${targetsFile}: ${message}`);
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`TARGETS_FILE ${targetsFile} must contain a JSON array of targets`);
+  }
+
+  for (const entry of entries as unknown[]) {
+    if (!isRecord(entry) || typeof entry.address !== 'string') {
+      throw new Error(`Every target in ${targetsFile} needs an "address"`);
+    }
+    if (entry.weight !== undefined && typeof entry.weight !== 'number') {
+      throw new Error(`Target ${entry.address} in ${targetsFile}: "weight" must be a number`);
+    }
+    if (entry.sizing !== undefined && !isRecord(entry.sizing)) {
+      throw new Error(`Target ${entry.address} in ${targetsFile}: "sizing" must be an object`);
+    }
+    if (entry.filters !== undefined && !isRecord(entry.filters)) {
+      throw new Error(`Target ${entry.address} in ${targetsFile}: "filters" must be an object`);
+    }
+
+    // Setting values are checked with the rest of the config in validateConfig
+    const target: TargetSettings = {
+      address: entry.address,
+      label: typeof entry.label === 'string' ? entry.label : undefined,
+      enabled: entry.enabled !== false,
+      weight: entry.weight ?? 1,
+      sizing: {
+        ...sizing,
+        ...(typeof entry.positionSizeMultiplier === 'number' && { multiplier: entry.positionSizeMultiplier }),
+        ...(entry.sizing as Partial<SizingConfig> | undefined),
+      },
+      filters: { ...filters, ...(entry.filters as Partial<MarketFilterConfig> | undefined) },
+    };
+
+    const index = targets.findIndex(t => t.address.toLowerCase() === target.address.toLowerCase());
+    if (index === -1) {
+      targets.push(target);
+    } else {
+      targets[index] = target;
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Keystore file and password source from the environment.
+ * The password comes from KEYSTORE_PASSWORD_FD, then KEYSTORE_PASSWORD, then a terminal prompt.
+ */
+export function loadKeystoreSettings(): { file: string; password: KeystorePasswordSource } {
+  let password: KeystorePasswordSource = { type: 'prompt' };
+  if (process.env.KEYSTORE_PASSWORD_FD) {
+    password = { type: 'fd', fd: parseInt(process.env.KEYSTORE_PASSWORD_FD, 10) };
+  } else if (process.env.KEYSTORE_PASSWORD !== undefined) {
+    password = { type: 'env', variable: 'KEYSTORE_PASSWORD' };
+  }
+
+  return {
+    file: process.env.KEYSTORE_FILE || DEFAULT_CONFIG.copyTrading.keystoreFile,
+    password,
+  };
+}
+
+/**
+ * Read the keystore named by KEYSTORE_FILE, if any.
+ * Key material may only be read here in the config loader.
+ */
+function loadKeystore(): KeystoreConfig | undefined {
+  if (!process.env.KEYSTORE_FILE) {
+    return undefined;
+  }
+
+  const { file, password } = loadKeystoreSettings();
+  try {
+    return { file, json: fs.readFileSync(file, 'utf-8'), password };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read KEYSTORE_FILE ${file}: ${message}`);
+  }
+}
+
+/**
+ * Remote signing service from REMOTE_SIGNER_URL, if any
+ */
+function loadRemoteSigner(): RemoteSignerConfig | undefined {
+  if (!process.env.REMOTE_SIGNER_URL) {
+    return undefined;
+  }
+
+  return {
+    url: process.env.REMOTE_SIGNER_URL,
+    protocol: (process.env.REMOTE_SIGNER_PROTOCOL ||
+      DEFAULT_CONFIG.copyTrading.remoteSignerProtocol) as RemoteSignerProtocol,
+    address: process.env.REMOTE_SIGNER_ADDRESS || undefined,
+    authToken: process.env.REMOTE_SIGNER_AUTH_TOKEN || undefined,
+    timeout: parseInt(
+      process.env.REMOTE_SIGNER_TIMEOUT ||
+      String(DEFAULT_CONFIG.copyTrading.remoteSignerTimeout),
+      10
+    ),
+  };
+}
+
 /**
  * Load and validate configuration from environment variables
  */
 export function loadConfig(): AppConfig {
-  const targetAddress = process.env.TARGET_ADDRESS || '';
+  const targetAddresses = parseList(process.env.TARGET_ADDRESSES || process.env.TARGET_ADDRESS);
   
-  if (!targetAddress) {
+  if (targetAddresses.length === 0 && !process.env.TARGETS_FILE) {
     throw new Error(
-      'TARGET_ADDRESS environment variable is required.\n' +
+      'TARGET_ADDRESS (or TARGET_ADDRESSES / TARGETS_FILE) environment variable is required.\n' +
       'Usage: TARGET_ADDRESS=0x... npm run dev'
     );
   }
 
   const copyTradingEnabled = process.env.COPY_TRADING_ENABLED === 'true';
   const privateKey = process.env.PRIVATE_KEY || '';
+  const keystore = loadKeystore();
+  const remoteSigner = loadRemoteSigner();
+
+  // Mask every credential the config holds wherever it ends up in output
+  registerSecret(privateKey);
+  registerSecret(process.env.POLYMARKET_API_KEY);
+  registerSecret(process.env.KEYSTORE_PASSWORD);
+  registerSecret(remoteSigner?.authToken);
 
-  if (copyTradingEnabled && !privateKey) {
+  if (copyTradingEnabled && !privateKey && !keystore && !remoteSigner) {
     throw new Error(
-      'PRIVATE_KEY environment variable is required when copy trading is enabled.\n' +
+      'REMOTE_SIGNER_URL, KEYSTORE_FILE (or PRIVATE_KEY) environment variable is required when copy trading is enabled.\n' +
+      'Create an encrypted keystore with: npm run keystore -- create\n' +
       '⚠️  WARNING: Never share your private key!'
     );
   }
 
+  const positionSizeMultiplier = parseFloat(
+    process.env.POSITION_SIZE_MULTIPLIER || 
+    String(DEFAULT_CONFIG.copyTrading.positionSizeMultiplier)
+  );
+
+  const sizing: SizingConfig = {
+    strategy: (process.env.SIZING_STRATEGY || 
+      DEFAULT_CONFIG.sizing.strategy) as SizingStrategyName,
+    multiplier: positionSizeMultiplier,
+    fixedUsd: parseFloat(
+      process.env.FIXED_TRADE_USD || 
+      String(DEFAULT_CONFIG.sizing.fixedUsd)
+    ),
+    portfolioPercent: parseFloat(
+      process.env.PORTFOLIO_PERCENT || 
+      String(DEFAULT_CONFIG.sizing.portfolioPercent)
+    ),
+    bankroll: parseFloat(
+      process.env.BANKROLL || 
+      String(DEFAULT_CONFIG.sizing.bankroll)
+    ),
+    kellyEdge: parseFloat(
+      process.env.KELLY_EDGE || 
+      String(DEFAULT_CONFIG.sizing.kellyEdge)
+    ),
+    kellyFraction: parseFloat(
+      process.env.KELLY_FRACTION || 
+      String(DEFAULT_CONFIG.sizing.kellyFraction)
+    ),
+    kellyCap: parseFloat(
+      process.env.KELLY_CAP || 
+      String(DEFAULT_CONFIG.sizing.kellyCap)
+    ),
+  };
+
+  const filters: MarketFilterConfig = {
+    requireActive: process.env.FILTER_REQUIRE_ACTIVE
+      ? process.env.FILTER_REQUIRE_ACTIVE === 'true'
+      : DEFAULT_CONFIG.filters.requireActive,
+    includeTags: parseList(process.env.FILTER_INCLUDE_TAGS),
+    excludeTags: parseList(process.env.FILTER_EXCLUDE_TAGS),
+    minLiquidity: parseFloat(
+      process.env.FILTER_MIN_LIQUIDITY || 
+      String(DEFAULT_CONFIG.filters.minLiquidity)
+    ),
+    minVolume: parseFloat(
+      process.env.FILTER_MIN_VOLUME || 
+      String(DEFAULT_CONFIG.filters.minVolume)
+    ),
+    minHoursToEnd: parseFloat(
+      process.env.FILTER_MIN_HOURS_TO_END || 
+      String(DEFAULT_CONFIG.filters.minHoursToEnd)
+    ),
+    minPrice: parseFloat(
+      process.env.FILTER_MIN_PRICE || 
+      String(DEFAULT_CONFIG.filters.minPrice)
+    ),
+    maxPrice: parseFloat(
+      process.env.FILTER_MAX_PRICE || 
+      String(DEFAULT_CONFIG.filters.maxPrice)
+    ),
+    allowMarketIds: parseList(process.env.ALLOW_MARKET_IDS),
+    allowMarketSlugs: parseList(process.env.ALLOW_MARKET_SLUGS),
+    allowEventSlugs: parseList(process.env.ALLOW_EVENT_SLUGS),
+    denyMarketIds: parseList(process.env.DENY_MARKET_IDS),
+    denyMarketSlugs: parseList(process.env.DENY_MARKET_SLUGS),
+    denyEventSlugs: parseList(process.env.DENY_EVENT_SLUGS),
+  };
+
   return {
-    targetAddress,
+    targets: loadTargets(targetAddresses, sizing, filters),
     copyTrading: {
       enabled: copyTradingEnabled,
       privateKey,
+      keystore,
+      remoteSigner,
+      signatureType: (process.env.SIGNATURE_TYPE ||
+        DEFAULT_CONFIG.copyTrading.signatureType) as WalletSignatureType,
+      funderAddress: process.env.FUNDER_ADDRESS || '',
       dryRun: process.env.DRY_RUN === 'true',
-      positionSizeMultiplier: parseFloat(
-        process.env.POSITION_SIZE_MULTIPLIER || 
-        String(DEFAULT_CONFIG.copyTrading.positionSizeMultiplier)
-      ),
+      positionSizeMultiplier,
       maxPositionSize: parseFloat(
         process.env.MAX_POSITION_SIZE || 
         String(DEFAULT_CONFIG.copyTrading.maxPositionSize)
@@ -125,6 +484,76 @@ export function loadConfig(): AppConfig {
         process.env.SLIPPAGE_TOLERANCE || 
         String(DEFAULT_CONFIG.copyTrading.slippageTolerance)
       ),
+      buyOrderType: (process.env.BUY_ORDER_TYPE || 
+        DEFAULT_CONFIG.copyTrading.buyOrderType).toUpperCase() as CopyOrderType,
+      sellOrderType: (process.env.SELL_ORDER_TYPE || 
+        DEFAULT_CONFIG.copyTrading.sellOrderType).toUpperCase() as CopyOrderType,
+      gtdExpiration: parseInt(
+        process.env.GTD_EXPIRATION || 
+        String(DEFAULT_CONFIG.copyTrading.gtdExpiration),
+        10
+      ),
+      orderTimeout: parseInt(
+        process.env.ORDER_TIMEOUT || 
+        String(DEFAULT_CONFIG.copyTrading.orderTimeout),
+        10
+      ),
+      orderPollInterval: parseInt(
+        process.env.ORDER_POLL_INTERVAL || 
+        String(DEFAULT_CONFIG.copyTrading.orderPollInterval),
+        10
+      ),
+      startupPolicy: (process.env.STARTUP_POLICY || 
+        DEFAULT_CONFIG.copyTrading.startupPolicy) as StartupPolicy,
+    },
+    sizing,
+    risk: {
+      maxTotalExposure: parseFloat(
+        process.env.MAX_TOTAL_EXPOSURE || 
+        String(DEFAULT_CONFIG.risk.maxTotalExposure)
+      ),
+      maxMarketExposure: parseFloat(
+        process.env.MAX_MARKET_EXPOSURE || 
+        String(DEFAULT_CONFIG.risk.maxMarketExposure)
+      ),
+      maxEventExposure: parseFloat(
+        process.env.MAX_EVENT_EXPOSURE || 
+        String(DEFAULT_CONFIG.risk.maxEventExposure)
+      ),
+      maxOpenPositions: parseInt(
+        process.env.MAX_OPEN_POSITIONS || 
+        String(DEFAULT_CONFIG.risk.maxOpenPositions),
+        10
+      ),
+      dailyLossLimit: parseFloat(
+        process.env.DAILY_LOSS_LIMIT || 
+        String(DEFAULT_CONFIG.risk.dailyLossLimit)
+      ),
+    },
+    priceDrift: {
+      maxAbsolute: parseFloat(
+        process.env.MAX_PRICE_DRIFT || 
+        String(DEFAULT_CONFIG.priceDrift.maxAbsolute)
+      ),
+      maxRelative: parseFloat(
+        process.env.MAX_PRICE_DRIFT_PERCENT || 
+        String(DEFAULT_CONFIG.priceDrift.maxRelative)
+      ),
+      action: (process.env.PRICE_DRIFT_ACTION || 
+        DEFAULT_CONFIG.priceDrift.action) as PriceDriftAction,
+    },
+    filters,
+    consensus: {
+      minWallets: parseInt(
+        process.env.CONSENSUS_MIN_WALLETS || 
+        String(DEFAULT_CONFIG.consensus.minWallets),
+        10
+      ),
+      window: parseInt(
+        process.env.CONSENSUS_WINDOW || 
+        String(DEFAULT_CONFIG.consensus.window),
+        10
+      ),
     },
     monitoring: {
       pollInterval: parseInt(
@@ -134,6 +563,11 @@ export function loadConfig(): AppConfig {
       ),
       enableWebSocket: process.env.ENABLE_WEBSOCKET === 'true' || 
                        DEFAULT_CONFIG.monitoring.enableWebSocket,
+      webSocketUrl: process.env.CLOB_WS_URL || DEFAULT_CONFIG.monitoring.webSocketUrl,
+      enableTradeFeed: process.env.ENABLE_TRADE_FEED === 'true' || 
+                       DEFAULT_CONFIG.monitoring.enableTradeFeed,
+      enableChainListener: process.env.ENABLE_CHAIN_LISTENER === 'true' || 
+                           DEFAULT_CONFIG.monitoring.enableChainListener,
     },
     api: {
       apiKey: process.env.POLYMARKET_API_KEY,
@@ -141,6 +575,7 @@ export function loadConfig(): AppConfig {
       dataApiUrl: process.env.POLYMARKET_DATA_API_URL || DEFAULT_CONFIG.api.dataApiUrl,
       gammaApiUrl: process.env.POLYMARKET_GAMMA_API_URL || DEFAULT_CONFIG.api.gammaApiUrl,
       clobApiUrl: process.env.POLYMARKET_CLOB_API_URL || DEFAULT_CONFIG.api.clobApiUrl,
+      validation: (process.env.API_VALIDATION || DEFAULT_CONFIG.api.validation) as ValidationMode,
     },
     chain: {
       chainId: parseInt(
@@ -149,10 +584,80 @@ export function loadConfig(): AppConfig {
         10
       ),
       clobHost: process.env.CLOB_HOST || DEFAULT_CONFIG.chain.clobHost,
+      rpcUrl: process.env.CHAIN_RPC_URL || DEFAULT_CONFIG.chain.rpcUrl,
+      exchangeAddresses: parseList(process.env.EXCHANGE_ADDRESSES),
+    },
+    http: {
+      maxRetries: parseInt(process.env.HTTP_MAX_RETRIES || String(DEFAULT_CONFIG.http.maxRetries), 10),
+      baseDelay: parseInt(process.env.HTTP_RETRY_BASE_DELAY || String(DEFAULT_CONFIG.http.baseDelay), 10),
+      maxDelay: parseInt(process.env.HTTP_RETRY_MAX_DELAY || String(DEFAULT_CONFIG.http.maxDelay), 10),
+      rateLimits: {
+        data: parseFloat(process.env.RATE_LIMIT_DATA_API || String(DEFAULT_CONFIG.http.rateLimits.data)),
+        gamma: parseFloat(process.env.RATE_LIMIT_GAMMA_API || String(DEFAULT_CONFIG.http.rateLimits.gamma)),
+        clob: parseFloat(process.env.RATE_LIMIT_CLOB_API || String(DEFAULT_CONFIG.http.rateLimits.clob)),
+      },
+      timeouts: {
+        positions: parseInt(process.env.TIMEOUT_POSITIONS || String(DEFAULT_CONFIG.http.timeouts.positions), 10),
+        trades: parseInt(process.env.TIMEOUT_TRADES || String(DEFAULT_CONFIG.http.timeouts.trades), 10),
+        orderBook: parseInt(process.env.TIMEOUT_ORDER_BOOK || String(DEFAULT_CONFIG.http.timeouts.orderBook), 10),
+        market: parseInt(process.env.TIMEOUT_MARKET || String(DEFAULT_CONFIG.http.timeouts.market), 10),
+      },
+    },
+    storage: {
+      stateFile: process.env.STATE_FILE || DEFAULT_CONFIG.storage.stateFile,
     },
   };
 }
 
+/**
+ * Warn that the private key sits in plaintext in the environment (and most likely in .env on disk)
+ */
+function warnPlaintextKey(keystoreInUse: boolean): void {
+  const bar = '⚠️  ' + '='.repeat(68);
+  console.warn(
+    [
+      bar,
+      '⚠️  PRIVATE_KEY IS SET IN PLAINTEXT',
+      '⚠️  Anyone or anything that can read your .env file or this process\'s',
+      '⚠️  environment can take every fund in the wallet.',
+      keystoreInUse
+        ? '⚠️  KEYSTORE_FILE or REMOTE_SIGNER_URL is used for signing; remove PRIVATE_KEY from .env.'
+        : '⚠️  Convert it with `npm run keystore -- import`, set KEYSTORE_FILE and remove PRIVATE_KEY.',
+      bar,
+    ].join('\n')
+  );
+}
+
+/**
+ * Validate the remote signer settings
+ */
+function validateRemoteSigner(remoteSigner: RemoteSignerConfig): void {
+  let protocol: string;
+  try {
+    protocol = new URL(remoteSigner.url).protocol;
+  } catch {
+    throw new Error(`REMOTE_SIGNER_URL "${remoteSigner.url}" is not a valid URL`);
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`REMOTE_SIGNER_URL must be an http(s) URL, got "${protocol}"`);
+  }
+
+  if (!REMOTE_SIGNER_PROTOCOLS.includes(remoteSigner.protocol)) {
+    throw new Error(
+      `Invalid remote signer protocol "${remoteSigner.protocol}". ` +
+      `Must be one of: ${REMOTE_SIGNER_PROTOCOLS.join(', ')}`
+    );
+  }
+
+  if (remoteSigner.address && !isAddress(remoteSigner.address)) {
+    throw new Error(`REMOTE_SIGNER_ADDRESS "${remoteSigner.address}" is not a valid address`);
+  }
+
+  if (remoteSigner.timeout === undefined || isNaN(remoteSigner.timeout) || remoteSigner.timeout <= 0) {
+    throw new Error('REMOTE_SIGNER_TIMEOUT must be greater than 0');
+  }
+}
+
 /**
  * Validate private key format
  */
@@ -174,33 +679,132 @@ function isValidPrivateKey(privateKey: string): boolean {
 }
 
 /**
- * Validate configuration values
+ * Validate position sizing configuration
  */
-export function validateConfig(config: AppConfig): void {
-  if (!config.targetAddress || !config.targetAddress.startsWith('0x')) {
+function validateSizingConfig(sizing: SizingConfig, dryRun: boolean): void {
+  if (!SIZING_STRATEGIES.includes(sizing.strategy)) {
     throw new Error(
-      'Invalid target address format. ' +
-      'Target address must start with "0x" and be a valid Ethereum address.\n' +
-      `Current value: ${config.targetAddress || '(empty)'}`
+      `Invalid sizing strategy "${sizing.strategy}". ` +
+      `Must be one of: ${SIZING_STRATEGIES.join(', ')}`
     );
   }
 
-  if (config.copyTrading.enabled) {
-    if (!config.copyTrading.privateKey || config.copyTrading.privateKey.trim().length === 0) {
+  if (sizing.strategy === 'fixed-usd' && sizing.fixedUsd <= 0) {
+    throw new Error('FIXED_TRADE_USD must be greater than 0');
+  }
+
+  if (isNaN(sizing.bankroll) || sizing.bankroll < 0) {
+    throw new Error('BANKROLL must be 0 (no cap) or a positive number');
+  }
+
+  // Dry runs have no wallet balance to size from
+  if (dryRun && PORTFOLIO_SIZING_STRATEGIES.includes(sizing.strategy) && sizing.bankroll <= 0) {
+    throw new Error(`BANKROLL must be greater than 0 for the ${sizing.strategy} sizing strategy in dry run mode`);
+  }
+
+  if (sizing.strategy === 'portfolio-percent' && (sizing.portfolioPercent <= 0 || sizing.portfolioPercent > 100)) {
+    throw new Error('PORTFOLIO_PERCENT must be between 0 and 100');
+  }
+
+  if (sizing.strategy === 'kelly') {
+    if (sizing.kellyEdge <= 0 || sizing.kellyEdge >= 1) {
+      throw new Error('KELLY_EDGE must be between 0 and 1');
+    }
+    if (sizing.kellyFraction <= 0 || sizing.kellyFraction > 1) {
+      throw new Error('KELLY_FRACTION must be between 0 and 1');
+    }
+    if (sizing.kellyCap <= 0 || sizing.kellyCap > 1) {
+      throw new Error('KELLY_CAP must be between 0 and 1');
+    }
+  }
+}
+
+/**
+ * Validate market filter configuration
+ */
+function validateFilterConfig(filters: MarketFilterConfig): void {
+  for (const name of ['minLiquidity', 'minVolume', 'minHoursToEnd', 'minPrice', 'maxPrice'] as const) {
+    if (typeof filters[name] !== 'number' || isNaN(filters[name]) || filters[name] < 0) {
+      throw new Error(`Market filter ${name} must be 0 (disabled) or a positive number`);
+    }
+  }
+
+  for (const name of [
+    'includeTags', 'excludeTags',
+    'allowMarketIds', 'allowMarketSlugs', 'allowEventSlugs',
+    'denyMarketIds', 'denyMarketSlugs', 'denyEventSlugs',
+  ] as const) {
+    if (!Array.isArray(filters[name])) {
+      throw new Error(`Market filter ${name} must be a list`);
+    }
+  }
+
+  if (filters.minPrice >= 1 || filters.maxPrice > 1) {
+    throw new Error('Market filter prices must be between 0 and 1');
+  }
+
+  if (filters.maxPrice > 0 && filters.maxPrice <= filters.minPrice) {
+    throw new Error('FILTER_MAX_PRICE must be greater than FILTER_MIN_PRICE');
+  }
+}
+
+/**
+ * Validate configuration values
+ */
+export function validateConfig(config: AppConfig): void {
+  if (config.targets.length === 0) {
+    throw new Error('At least one target address is required');
+  }
+
+  const seen = new Set<string>();
+  for (const target of config.targets) {
+    if (!target.address || !target.address.startsWith('0x')) {
       throw new Error(
-        'Private key is required when copy trading is enabled.\n' +
-        'Please set PRIVATE_KEY in your .env file.\n' +
-        '⚠️  WARNING: Never share your private key!'
+        'Invalid target address format. ' +
+        'Target address must start with "0x" and be a valid Ethereum address.\n' +
+        `Current value: ${target.address || '(empty)'}`
       );
     }
 
-    if (!isValidPrivateKey(config.copyTrading.privateKey)) {
+    if (typeof target.weight !== 'number' || !(target.weight > 0)) {
+      throw new Error(`Target ${target.label || target.address} weight must be greater than 0`);
+    }
+
+    if (seen.has(target.address.toLowerCase())) {
+      throw new Error(`Target address ${target.address} is listed more than once`);
+    }
+    seen.add(target.address.toLowerCase());
+  }
+
+  if (!config.targets.some(target => target.enabled)) {
+    throw new Error('All targets are disabled; enable at least one target');
+  }
+
+  if (config.copyTrading.privateKey) {
+    warnPlaintextKey(Boolean(config.copyTrading.keystore || config.copyTrading.remoteSigner));
+  }
+
+  if (config.copyTrading.enabled) {
+    const { keystore, remoteSigner } = config.copyTrading;
+    if (remoteSigner) {
+      validateRemoteSigner(remoteSigner);
+    } else if (keystore) {
+      if (!isKeystoreJson(keystore.json)) {
+        throw new Error(`KEYSTORE_FILE ${keystore.file} is not an encrypted JSON keystore`);
+      }
+    } else if (!config.copyTrading.privateKey || config.copyTrading.privateKey.trim().length === 0) {
+      throw new Error(
+        'A remote signer, keystore or private key is required when copy trading is enabled.\n' +
+        'Please set REMOTE_SIGNER_URL, KEYSTORE_FILE (or PRIVATE_KEY) in your .env file.\n' +
+        '⚠️  WARNING: Never share your private key!'
+      );
+    } else if (!isValidPrivateKey(config.copyTrading.privateKey)) {
       throw new Error(
         'Invalid private key format.\n' +
         'Private key must be:\n' +
         '  - 64 hexadecimal characters (with or without "0x" prefix)\n' +
         '  - Example: 0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef\n' +
-        `Current value: ${config.copyTrading.privateKey.substring(0, 20)}... (hidden for security)`
+        `Current value: ${config.copyTrading.privateKey.length} characters (not shown)`
       );
     }
 
@@ -215,10 +819,148 @@ export function validateConfig(config: AppConfig): void {
     if (config.copyTrading.maxTradeSize < config.copyTrading.minTradeSize) {
       throw new Error('Maximum trade size must be greater than or equal to minimum trade size');
     }
+
+    // The default sizing also sizes consensus buys
+    validateSizingConfig(config.sizing, config.copyTrading.dryRun);
+
+    for (const target of config.targets) {
+      try {
+        validateSizingConfig(target.sizing, config.copyTrading.dryRun);
+        validateFilterConfig(target.filters);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Target ${target.label || target.address}: ${message}`);
+      }
+    }
+
+    for (const [name, value] of Object.entries(config.risk)) {
+      if (isNaN(value) || value < 0) {
+        throw new Error(`Risk limit ${name} must be 0 (disabled) or a positive number`);
+      }
+    }
+
+    const { consensus } = config;
+    const enabledTargets = config.targets.filter(target => target.enabled).length;
+    if (isNaN(consensus.minWallets) || consensus.minWallets < 0) {
+      throw new Error('CONSENSUS_MIN_WALLETS must be 0 (disabled) or a positive number');
+    }
+
+    if (consensus.minWallets > enabledTargets) {
+      throw new Error(
+        `CONSENSUS_MIN_WALLETS (${consensus.minWallets}) exceeds the number of enabled targets (${enabledTargets})`
+      );
+    }
+
+    if (consensus.minWallets > 0 && (isNaN(consensus.window) || consensus.window < 1000)) {
+      throw new Error('CONSENSUS_WINDOW must be at least 1000ms');
+    }
+
+    const { priceDrift } = config;
+    if (isNaN(priceDrift.maxAbsolute) || priceDrift.maxAbsolute < 0 || priceDrift.maxAbsolute >= 1) {
+      throw new Error('MAX_PRICE_DRIFT must be 0 (disabled) or a price between 0 and 1');
+    }
+
+    if (isNaN(priceDrift.maxRelative) || priceDrift.maxRelative < 0) {
+      throw new Error('MAX_PRICE_DRIFT_PERCENT must be 0 (disabled) or a positive number');
+    }
+
+    if (!PRICE_DRIFT_ACTIONS.includes(priceDrift.action)) {
+      throw new Error(
+        `Invalid price drift action "${priceDrift.action}". ` +
+        `Must be one of: ${PRICE_DRIFT_ACTIONS.join(', ')}`
+      );
+    }
+
+    for (const orderType of [config.copyTrading.buyOrderType, config.copyTrading.sellOrderType]) {
+      if (!ORDER_TYPES.includes(orderType)) {
+        throw new Error(`Invalid order type "${orderType}". Must be one of: ${ORDER_TYPES.join(', ')}`);
+      }
+    }
+
+    if (config.copyTrading.gtdExpiration <= 0) {
+      throw new Error('GTD expiration must be greater than 0 seconds');
+    }
+
+    if (config.copyTrading.orderPollInterval < 500) {
+      throw new Error('Order poll interval must be at least 500ms');
+    }
+
+    if (config.copyTrading.orderTimeout < config.copyTrading.orderPollInterval) {
+      throw new Error('Order timeout must be greater than or equal to the order poll interval');
+    }
+
+    if (!STARTUP_POLICIES.includes(config.copyTrading.startupPolicy)) {
+      throw new Error(
+        `Invalid startup policy "${config.copyTrading.startupPolicy}". ` +
+        `Must be one of: ${STARTUP_POLICIES.join(', ')}`
+      );
+    }
+
+    const { signatureType, funderAddress } = config.copyTrading;
+    if (!SIGNATURE_TYPES.includes(signatureType)) {
+      throw new Error(
+        `Invalid signature type "${signatureType}". Must be one of: ${SIGNATURE_TYPES.join(', ')}`
+      );
+    }
+
+    if (signatureType === 'eoa') {
+      if (funderAddress) {
+        throw new Error('FUNDER_ADDRESS is only used with SIGNATURE_TYPE poly-proxy or gnosis-safe');
+      }
+    } else if (!funderAddress) {
+      throw new Error(
+        `FUNDER_ADDRESS is required with SIGNATURE_TYPE ${signatureType}.\n` +
+        'Use the wallet address shown on your Polymarket profile (the one holding your USDC).'
+      );
+    } else if (!isAddress(funderAddress)) {
+      throw new Error(`FUNDER_ADDRESS "${funderAddress}" is not a valid address`);
+    }
   }
 
   if (config.monitoring.pollInterval < 1000) {
     throw new Error('Poll interval must be at least 1000ms (1 second)');
   }
+
+  if (!VALIDATION_MODES.includes(config.api.validation)) {
+    throw new Error(
+      `Invalid API validation mode "${config.api.validation}". Must be one of: ${VALIDATION_MODES.join(', ')}`
+    );
+  }
+
+  const { http } = config;
+  if (isNaN(http.maxRetries) || http.maxRetries < 0) {
+    throw new Error('HTTP_MAX_RETRIES must be 0 or a positive number');
+  }
+  if (isNaN(http.baseDelay) || http.baseDelay < 0 || isNaN(http.maxDelay) || http.maxDelay < http.baseDelay) {
+    throw new Error('HTTP_RETRY_BASE_DELAY must be positive and at most HTTP_RETRY_MAX_DELAY');
+  }
+  for (const [host, limit] of Object.entries(http.rateLimits)) {
+    if (isNaN(limit) || limit < 0) {
+      throw new Error(`Rate limit for the ${host} API must be 0 (unlimited) or a positive number`);
+    }
+  }
+  for (const [endpoint, timeout] of Object.entries(http.timeouts)) {
+    if (isNaN(timeout) || timeout < 1000) {
+      throw new Error(`Timeout for ${endpoint} requests must be at least 1000ms`);
+    }
+  }
+
+  if (config.monitoring.enableWebSocket && !/^wss?:\/\//.test(config.monitoring.webSocketUrl)) {
+    throw new Error('CLOB_WS_URL must start with ws:// or wss://');
+  }
+
+  if (config.monitoring.enableChainListener) {
+    if (!config.chain.rpcUrl) {
+      throw new Error('CHAIN_RPC_URL is required when ENABLE_CHAIN_LISTENER is true');
+    }
+    if (!/^(https?|wss?):\/\//.test(config.chain.rpcUrl)) {
+      throw new Error('CHAIN_RPC_URL must start with http://, https://, ws:// or wss://');
+    }
+  }
+
+  const invalidExchange = config.chain.exchangeAddresses.find(address => !/^0x[0-9a-fA-F]{40}$/.test(address));
+  if (invalidExchange) {
+    throw new Error(`Invalid exchange address in EXCHANGE_ADDRESSES: ${invalidExchange}`);
+  }
 }
 
@@ -6,18 +6,26 @@
 import { AppConfig } from '../config';
 import { MarketApiClient } from '../clients/market-api-client';
 import { PositionTracker } from '../tracking/position-tracker';
+import { RoundRobinScheduler } from '../tracking/poll-scheduler';
 import { StrategyExecutor } from '../execution/strategy-executor';
-import { TradingStatus, CopyTradingStatus } from '../types';
+import { JsonFileStateStore } from '../storage/state-store';
+import { createSizingStrategy } from '../execution/sizing';
+import { createMarketFilters } from '../execution/market-filters';
+import { RemoteSigner } from '../security/signers';
+import { TradingStatus, CopyTradingStatus, Trade, DetectionLatency } from '../types';
+import { JsonRpcProvider, Provider, WebSocketProvider } from 'ethers';
 import { logger } from '../utils/logger';
+import { Decimal } from '../utils/decimal';
 
 /**
  * Application class that manages the bot lifecycle
  */
 export class Application {
-  private monitor?: PositionTracker | StrategyExecutor;
+  private monitor?: PositionTracker[] | StrategyExecutor;
   private client: MarketApiClient;
   private config: AppConfig;
   private shutdownHandlers: Array<() => void> = [];
+  private chainProvider?: Provider; // Shared by the OrderFilled listeners of all targets
 
   constructor(config: AppConfig) {
     this.config = config;
@@ -27,6 +35,8 @@ export class Application {
       dataApiUrl: config.api.dataApiUrl,
       gammaApiUrl: config.api.gammaApiUrl,
       clobApiUrl: config.api.clobApiUrl,
+      http: config.http,
+      validation: config.api.validation,
     });
   }
 
@@ -36,7 +46,7 @@ export class Application {
   async start(): Promise<void> {
     try {
       logger.info('🚀 Starting Polymarket Copy Trading Bot...');
-      logger.info(`📊 Target address: ${this.config.targetAddress}`);
+      logger.info(`📊 Targets: ${this.config.targets.map(t => t.label || t.address).join(', ')}`);
 
       if (this.config.copyTrading.enabled) {
         await this.startCopyTrading();
@@ -59,16 +69,32 @@ export class Application {
     const { copyTrading, monitoring } = this.config;
 
     logger.info(`🔍 Dry run mode: ${copyTrading.dryRun ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`📐 Default sizing strategy: ${this.config.sizing.strategy}`);
     logger.info(`💰 Position size multiplier: ${copyTrading.positionSizeMultiplier}x`);
+    logger.info(`🧾 Order types: ${copyTrading.buyOrderType} buys, ${copyTrading.sellOrderType} sells`);
+    logger.info(`🧭 Startup policy: ${copyTrading.startupPolicy}`);
+    if (this.config.priceDrift.maxAbsolute > 0 || this.config.priceDrift.maxRelative > 0) {
+      const { maxAbsolute, maxRelative, action } = this.config.priceDrift;
+      logger.info(
+        `📏 Price drift guard: ${action} beyond ` +
+        [maxAbsolute > 0 && `$${maxAbsolute}`, maxRelative > 0 && `${maxRelative}%`].filter(Boolean).join(' or ')
+      );
+    }
+    logger.info(`💾 State file: ${this.config.storage.stateFile}`);
 
     const strategyExecutor = new StrategyExecutor(
       this.client,
       {
-        targetAddress: this.config.targetAddress,
+        targetAddress: this.config.targets[0].address,
         pollInterval: monitoring.pollInterval,
         enableWebSocket: monitoring.enableWebSocket,
+        webSocketUrl: monitoring.webSocketUrl,
+        enableTradeFeed: monitoring.enableTradeFeed,
+        chainProvider: this.getChainProvider(),
+        exchangeAddresses: this.getExchangeAddresses(),
+        onTrade: (trade: Trade) => this.handleTargetFill(trade),
         onUpdate: (status: TradingStatus) => {
-          const tracker = strategyExecutor.getPositionTracker();
+          const tracker = strategyExecutor.getPositionTracker(status.user);
           logger.info(tracker.getFormattedStatus(status));
         },
         onError: (error: Error) => {
@@ -78,14 +104,40 @@ export class Application {
       {
         enabled: true,
         privateKey: copyTrading.privateKey,
+        keystore: copyTrading.keystore,
+        signer: copyTrading.remoteSigner ? new RemoteSigner(copyTrading.remoteSigner) : undefined,
+        signatureType: copyTrading.signatureType,
+        funderAddress: copyTrading.funderAddress,
         dryRun: copyTrading.dryRun,
         positionSizeMultiplier: copyTrading.positionSizeMultiplier,
+        sizingStrategy: createSizingStrategy(this.config.sizing),
+        riskLimits: this.config.risk,
+        marketFilters: createMarketFilters(this.config.filters),
+        portfolioValue: this.config.sizing.bankroll,
         maxPositionSize: copyTrading.maxPositionSize,
         maxTradeSize: copyTrading.maxTradeSize,
         minTradeSize: copyTrading.minTradeSize,
         slippageTolerance: copyTrading.slippageTolerance,
+        buyOrderType: copyTrading.buyOrderType,
+        sellOrderType: copyTrading.sellOrderType,
+        gtdExpiration: copyTrading.gtdExpiration,
+        orderTimeout: copyTrading.orderTimeout,
+        orderPollInterval: copyTrading.orderPollInterval,
+        priceDrift: this.config.priceDrift,
         chainId: this.config.chain.chainId,
         clobHost: this.config.chain.clobHost,
+        startupPolicy: copyTrading.startupPolicy,
+        consensus: this.config.consensus,
+        targets: this.config.targets.map(target => ({
+          address: target.address,
+          label: target.label,
+          enabled: target.enabled,
+          weight: target.weight,
+          portfolioValue: target.sizing.bankroll,
+          sizingStrategy: createSizingStrategy(target.sizing),
+          marketFilters: createMarketFilters(target.filters),
+        })),
+        stateStore: new JsonFileStateStore(this.config.storage.stateFile),
         onTradeExecuted: (result) => {
           this.handleTradeExecuted(result);
         },
@@ -110,20 +162,106 @@ export class Application {
     logger.info('📊 Starting Account Monitor (copy trading disabled)...');
     logger.info(`⏱️  Polling interval: ${this.config.monitoring.pollInterval / 1000} seconds`);
 
-    const tracker = new PositionTracker(this.client, {
-      targetAddress: this.config.targetAddress,
-      pollInterval: this.config.monitoring.pollInterval,
-      enableWebSocket: this.config.monitoring.enableWebSocket,
-      onUpdate: (status: TradingStatus) => {
-        logger.info(tracker.getFormattedStatus(status));
-      },
-      onError: (error: Error) => {
-        logger.error('Monitor error', error);
-      },
+    // One scheduler spreads the polls of all targets over the interval
+    const scheduler = new RoundRobinScheduler(this.config.monitoring.pollInterval);
+    const trackers = this.config.targets
+      .filter(target => target.enabled)
+      .map(target => {
+        const tracker: PositionTracker = new PositionTracker(this.client, {
+          targetAddress: target.address,
+          pollInterval: this.config.monitoring.pollInterval,
+          enableWebSocket: this.config.monitoring.enableWebSocket,
+          webSocketUrl: this.config.monitoring.webSocketUrl,
+          enableTradeFeed: this.config.monitoring.enableTradeFeed,
+          chainProvider: this.getChainProvider(),
+          exchangeAddresses: this.getExchangeAddresses(),
+          onTrade: (trade: Trade) => this.handleTargetFill(trade),
+          scheduler,
+          onUpdate: (status: TradingStatus) => {
+            logger.info(tracker.getFormattedStatus(status));
+          },
+          onError: (error: Error) => {
+            logger.error(`Monitor error (${target.label || target.address})`, error);
+          },
+        });
+        return tracker;
+      });
+
+    this.monitor = trackers;
+    for (const tracker of trackers) {
+      await tracker.start();
+    }
+  }
+
+  /**
+   * Provider for the OrderFilled listeners; created on first use when the chain listener is enabled
+   */
+  private getChainProvider(): Provider | undefined {
+    if (!this.config.monitoring.enableChainListener) {
+      return undefined;
+    }
+
+    if (!this.chainProvider) {
+      const { rpcUrl, chainId } = this.config.chain;
+      this.chainProvider = /^wss?:\/\//.test(rpcUrl)
+        ? new WebSocketProvider(rpcUrl, chainId)
+        : new JsonRpcProvider(rpcUrl, chainId);
+      logger.info(`⛓️  Chain listener RPC: ${rpcUrl}`);
+    }
+    return this.chainProvider;
+  }
+
+  private getExchangeAddresses(): string[] | undefined {
+    const addresses = this.config.chain.exchangeAddresses;
+    return addresses.length > 0 ? addresses : undefined;
+  }
+
+  /**
+   * Log a fill from a target's trade feed or the chain
+   */
+  private handleTargetFill(trade: Trade): void {
+    const delay = trade.detectedAt
+      ? new Date(trade.detectedAt).getTime() - new Date(trade.timestamp).getTime()
+      : NaN;
+
+    logger.info(`🧾 Target fill: ${trade.side.toUpperCase()} ${trade.quantity} ${trade.outcome || trade.tokenId} @ $${trade.price}`, {
+      user: trade.user,
+      market: trade.market.question.substring(0, 50),
+      tx: trade.transactionHash,
+      source: trade.source,
+      ...(!isNaN(delay) && { latency: `${(delay / 1000).toFixed(1)}s` }),
     });
+  }
+
+  /**
+   * Log how quickly each source detected fills, across all targets
+   */
+  private logDetectionLatency(trackers: PositionTracker[]): void {
+    const bySource = new Map<string, DetectionLatency>();
+    trackers.flatMap(tracker => tracker.getDetectionLatency()).forEach(entry => {
+      const total = bySource.get(entry.source);
+      if (!total) {
+        bySource.set(entry.source, { ...entry });
+        return;
+      }
+      const fills = total.fills + entry.fills;
+      bySource.set(entry.source, {
+        source: entry.source,
+        fills,
+        averageMs: Math.round((total.averageMs * total.fills + entry.averageMs * entry.fills) / fills),
+        maxMs: Math.max(total.maxMs, entry.maxMs),
+      });
+    });
+
+    if (bySource.size === 0) return;
 
-    this.monitor = tracker;
-    await tracker.start();
+    logger.info('\n⏱️  Fill detection latency:');
+    bySource.forEach(entry => {
+      logger.info(
+        `   ${entry.source}: ${entry.fills} fills, average ${(entry.averageMs / 1000).toFixed(1)}s, ` +
+        `max ${(entry.maxMs / 1000).toFixed(1)}s`
+      );
+    });
   }
 
   /**
@@ -133,6 +271,10 @@ export class Application {
     success: boolean;
     dryRun: boolean;
     orderId?: string;
+    orderType?: string;
+    orderStatus?: string;
+    unfilledReason?: string;
+    contributingWallets?: string[];
     executedQuantity?: string;
     executedPrice?: string;
     position: { market: { question: string } };
@@ -142,6 +284,7 @@ export class Application {
         success: result.success,
         quantity: result.executedQuantity,
         price: result.executedPrice,
+        ...(result.contributingWallets && { consensus: result.contributingWallets.join(', ') }),
         market: result.position.market.question.substring(0, 50) + '...',
         note: 'No order ID - this is a simulation (no real order placed)',
       });
@@ -149,6 +292,10 @@ export class Application {
       logger.info('✅ Trade executed successfully:', {
         success: result.success,
         orderId: result.orderId,
+        type: result.orderType,
+        status: result.orderStatus,
+        ...(result.unfilledReason && { unfilled: result.unfilledReason }),
+        ...(result.contributingWallets && { consensus: result.contributingWallets.join(', ') }),
         quantity: result.executedQuantity,
         price: result.executedPrice,
         market: result.position.market.question.substring(0, 50) + '...',
@@ -160,7 +307,7 @@ export class Application {
    * Setup graceful shutdown handlers
    */
   private setupShutdownHandlers(): void {
-    const shutdown = (signal: string) => {
+    const shutdown = async (signal: string) => {
       logger.info(`\n🛑 Received ${signal}, shutting down gracefully...`);
       
       if (this.monitor instanceof StrategyExecutor) {
@@ -168,39 +315,71 @@ export class Application {
         logger.info('\n📊 Final Statistics:');
         logger.info(`   Total trades executed: ${stats.totalTradesExecuted}`);
         logger.info(`   Total trades failed: ${stats.totalTradesFailed}`);
-        logger.info(`   Total volume: $${stats.totalVolume}`);
+        logger.info(`   Total volume: $${Decimal.parse(stats.totalVolume).toFixed(2)}`);
+        if (stats.byTarget.length > 1) {
+          stats.byTarget.forEach(target => {
+            logger.info(
+              `   ${target.label || target.address}: ${target.totalTradesExecuted} executed, ` +
+              `${target.totalTradesFailed} failed, $${Decimal.parse(target.totalVolume).toFixed(2)} volume`
+            );
+          });
+        }
+      }
+
+      const validator = this.client.getValidator();
+      if (validator.getFallbackCount() > 0) {
+        logger.warn(`⚠️  Lenient API validation fell back ${validator.getFallbackCount()} times:`, validator.getFallbacks());
+      }
+
+      if (Array.isArray(this.monitor)) {
+        this.logDetectionLatency(this.monitor);
+      } else if (this.monitor) {
+        this.logDetectionLatency(this.monitor.getPositionTrackers());
       }
 
-      this.stop();
+      await this.stop();
       process.exit(0);
     };
 
-    process.on('SIGINT', () => shutdown('SIGINT'));
-    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+    // Operator reset of the risk circuit breaker: kill -USR2 <pid>
+    process.on('SIGUSR2', () => {
+      if (this.monitor instanceof StrategyExecutor) {
+        logger.info('Received SIGUSR2, resetting circuit breaker');
+        this.monitor.getRiskManager().resetCircuitBreaker();
+      }
+    });
 
     // Handle uncaught errors
     process.on('uncaughtException', (error: Error) => {
       logger.error('Uncaught exception', error);
-      this.stop();
-      process.exit(1);
+      void this.stop().finally(() => process.exit(1));
     });
 
     process.on('unhandledRejection', (reason: unknown) => {
       logger.error('Unhandled rejection', reason);
-      this.stop();
-      process.exit(1);
+      void this.stop().finally(() => process.exit(1));
     });
   }
 
   /**
-   * Stop the application
+   * Stop the application, cancelling open copy orders before it returns
    */
-  stop(): void {
+  async stop(): Promise<void> {
     logger.info('Stopping application...');
     
-    if (this.monitor) {
-      this.monitor.stop();
+    if (Array.isArray(this.monitor)) {
+      this.monitor.forEach(tracker => tracker.stop());
+    } else if (this.monitor) {
+      try {
+        await this.monitor.stop();
+      } catch (error) {
+        logger.error('Error stopping copy trading', error);
+      }
     }
+    this.chainProvider?.destroy();
 
     // Execute all shutdown handlers
     this.shutdownHandlers.forEach(handler => {
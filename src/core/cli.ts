@@ -7,17 +7,36 @@ import { loadConfig, validateConfig } from '../config';
 import { Application } from './application';
 import { ConfigurationError } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { initializeAesCipher } from '../utils/aes_cipher';
+import { redact } from '../utils/redact';
+import { assertNoSecretAccess } from '../security/secret-guard';
+import { getAllowedHosts, installNetworkGuard } from '../security/network-guard';
+import { runKeystoreCommand } from './keystore-command';
 
 /**
  * Main application entry point
+ * @param args - Command line arguments; `keystore <create|import>` manages the encrypted key instead of starting the bot
  */
-export async function main(): Promise<void> {
+export async function main(args: string[] = process.argv.slice(2)): Promise<void> {
   try {
+    // Nothing may be reached until the configuration names the hosts the bot needs
+    installNetworkGuard([]);
+
+    if (args[0] === 'keystore') {
+      await runKeystoreCommand(args.slice(1));
+      return;
+    }
+
     // Load and validate configuration
     const config = loadConfig();
     validateConfig(config);
-    initializeAesCipher();
+
+    // Key material is only read by the config loader; anything else reading it is a compromise
+    assertNoSecretAccess();
+
+    // From here on only the configured Polymarket APIs (and chain RPC) may be reached
+    const allowedHosts = getAllowedHosts(config);
+    installNetworkGuard(allowedHosts);
+    logger.info(`🔒 Network allowlist: ${allowedHosts.join(', ')}`);
 
     // Create and start application
     const app = new Application(config);
@@ -28,10 +47,10 @@ export async function main(): Promise<void> {
   } catch (error) {
     if (error instanceof ConfigurationError) {
       logger.error('Configuration error', error);
-      console.error(`\n❌ ${error.message}\n`);
+      console.error(`\n❌ ${redact(error.message)}\n`);
     } else if (error instanceof Error) {
       logger.error('Application error', error);
-      console.error(`\n❌ ${error.message}\n`);
+      console.error(`\n❌ ${redact(error.message)}\n`);
     } else {
       logger.error('Unknown error', error);
       console.error('\n❌ An unknown error occurred\n');
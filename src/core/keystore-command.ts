@@ -0,0 +1,99 @@
+/**
+ * Keystore Command
+ * `keystore create` generates a new wallet and `keystore import` converts an existing hex key,
+ * both into an encrypted ethers JSON keystore
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Wallet } from 'ethers';
+import { loadKeystoreSettings } from '../config';
+import { KeystorePasswordSource } from '../types';
+import { encryptKeystore, readKeystorePassword } from '../security/keystore';
+import { askSecret, isInteractive } from '../utils/prompt';
+
+const USAGE =
+  'Usage: npm run keystore -- <create|import> [--out <file>]\n' +
+  '  create   Generate a new wallet and save it encrypted\n' +
+  '  import   Encrypt an existing hex private key (PRIVATE_KEY, or asked for)\n' +
+  '  --out    Keystore file to write (default: KEYSTORE_FILE or ./keys/keystore.json)';
+
+/**
+ * Minimum password length for a new keystore
+ */
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Run a keystore subcommand
+ */
+export async function runKeystoreCommand(args: string[]): Promise<void> {
+  const [command, ...options] = args;
+  if (command !== 'create' && command !== 'import') {
+    throw new Error(USAGE);
+  }
+
+  const settings = loadKeystoreSettings();
+  const outIndex = options.indexOf('--out');
+  const file = outIndex >= 0 && options[outIndex + 1] ? options[outIndex + 1] : settings.file;
+
+  if (fs.existsSync(file)) {
+    throw new Error(`${file} already exists; choose another file with --out`);
+  }
+
+  const privateKey = command === 'create' ? Wallet.createRandom().privateKey : await readHexKey();
+  const password = await readNewPassword(settings.password);
+
+  console.log('🔐 Encrypting key (this takes a few seconds)...');
+  const json = await encryptKeystore(privateKey, password);
+
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, json, { mode: 0o600 });
+
+  const address = new Wallet(privateKey).address;
+  console.log(`✅ Keystore for ${address} written to ${file}`);
+  console.log('   Next steps:');
+  console.log(`   - Set KEYSTORE_FILE=${file} in your .env`);
+  if (command === 'import') {
+    console.log('   - Remove PRIVATE_KEY from your .env and shell history');
+  } else {
+    console.log(`   - Fund ${address} with USDC on Polygon`);
+  }
+  console.log('   - Keep a backup of the keystore and its password; neither can be recovered');
+}
+
+/**
+ * The hex key to import: PRIVATE_KEY from the environment, or asked for without echo
+ */
+async function readHexKey(): Promise<string> {
+  let key = process.env.PRIVATE_KEY;
+  if (!key) {
+    if (!isInteractive()) {
+      throw new Error('Set PRIVATE_KEY or run in a terminal to enter the key to import');
+    }
+    key = (await askSecret('Private key (hex): ')).trim();
+  }
+
+  try {
+    return new Wallet(key.startsWith('0x') ? key : `0x${key}`).privateKey;
+  } catch {
+    throw new Error('Invalid private key: expected 64 hexadecimal characters (with or without "0x")');
+  }
+}
+
+/**
+ * Password for a new keystore; asked twice when prompting
+ */
+async function readNewPassword(source: KeystorePasswordSource): Promise<string> {
+  const password = await readKeystorePassword(source, 'New keystore password: ');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Keystore password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  if (source.type === 'prompt') {
+    const repeated = await readKeystorePassword(source, 'Repeat password: ');
+    if (repeated !== password) {
+      throw new Error('Passwords do not match');
+    }
+  }
+  return password;
+}
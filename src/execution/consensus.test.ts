@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConsensusTracker } from './consensus';
+import { DecimalString, Position } from '../types';
+
+const TARGETS = [
+  { address: '0xAAA', weight: 2 },
+  { address: '0xBBB', weight: 1 },
+  { address: '0xCCC', weight: 1 },
+];
+
+function position(quantity: DecimalString, price: DecimalString): Position {
+  return {
+    id: 'token-1',
+    market: { id: 'market-1', question: 'Will it rain?', slug: 'will-it-rain' },
+    outcome: 'Yes',
+    quantity,
+    price,
+    value: '0',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+}
+
+test('signals once enough targets open the token, weight-averaging quantity and price', () => {
+  const tracker = new ConsensusTracker({ minWallets: 2, window: 60000 }, TARGETS);
+
+  assert.equal(tracker.vote('0xaaa', position('0.1', '0.4'), 1000), undefined);
+  assert.equal(tracker.getVoteCount('token-1'), 1);
+
+  const signal = tracker.vote('0xBBB', position('0.4', '0.7'), 2000);
+  assert.ok(signal);
+  assert.equal(signal.position.quantity, '0.2'); // (2 * 0.1 + 0.4) / 3
+  assert.equal(signal.position.price, '0.5'); // (2 * 0.4 + 0.7) / 3
+  assert.equal(signal.weight, 3);
+  assert.equal(signal.totalWeight, 4);
+  assert.equal(signal.scale, 0.75);
+  assert.equal(tracker.getVoteCount('token-1'), 0); // Later votes start a new round
+});
+
+test('ignores unknown wallets, expired votes and withdrawn votes', () => {
+  const tracker = new ConsensusTracker({ minWallets: 2, window: 1000 }, TARGETS);
+
+  assert.equal(tracker.vote('0xDDD', position('1', '0.5'), 0), undefined);
+  assert.equal(tracker.getVoteCount('token-1'), 0);
+
+  tracker.vote('0xAAA', position('1', '0.5'), 0);
+  assert.equal(tracker.vote('0xBBB', position('1', '0.5'), 5000), undefined); // First vote expired
+
+  tracker.withdraw('0xbbb', 'token-1');
+  assert.equal(tracker.vote('0xCCC', position('1', '0.5'), 5500), undefined);
+  assert.equal(tracker.getVoteCount('token-1'), 1);
+});
+
+test('exit shares follow the weight of the contributors still holding', () => {
+  const tracker = new ConsensusTracker({ minWallets: 2, window: 60000 }, TARGETS);
+  tracker.recordEntry('token-1', ['0xAAA', '0xBBB']);
+
+  // 0xBBB halves its position: half of its 1/3 weight share
+  assert.equal(tracker.exitShare('0xBBB', 'token-1', '0.5').toString(), '0.166666666666666667');
+  // 0xAAA closes: its full 2/3 share, after which it stops counting
+  assert.equal(tracker.exitShare('0xAAA', 'token-1', 1).toString(), '0.666666666666666667');
+  assert.deepEqual(tracker.getHoldings(), [{ tokenId: 'token-1', wallets: ['0xbbb'] }]);
+  // The last contributor closing sells everything that is left
+  assert.equal(tracker.exitShare('0xBBB', 'token-1', 1).toString(), '1');
+  assert.deepEqual(tracker.getHoldings(), []);
+  assert.ok(tracker.exitShare('0xCCC', 'token-1', 1).isZero());
+});
@@ -0,0 +1,178 @@
+import { ConsensusConfig, ConsensusHolding, ConsensusSignal, ConsensusVote, Position } from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+/**
+ * Consensus Tracker
+ * Collects the outcome tokens opened by each target and emits a signal once N of the M
+ * enabled targets opened the same token within the time window. Also remembers which
+ * targets contributed to each consensus position so exits can follow them.
+ */
+export class ConsensusTracker {
+  private config: ConsensusConfig;
+  private weights: Map<string, number>; // Enabled targets (lower-cased address) and their vote weights
+  private votes: Map<string, Map<string, ConsensusVote>> = new Map(); // tokenId -> address -> vote
+  private holdings: Map<string, Set<string>> = new Map(); // tokenId -> contributors still holding it
+
+  constructor(config: ConsensusConfig, targets: Array<{ address: string; weight?: number }>) {
+    this.config = config;
+    this.weights = new Map(targets.map(t => [t.address.toLowerCase(), t.weight ?? 1]));
+  }
+
+  /**
+   * Record a target opening an outcome token.
+   * Returns a signal when enough targets have opened it within the window.
+   */
+  vote(address: string, position: Position, now: number = Date.now()): ConsensusSignal | undefined {
+    const key = address.toLowerCase();
+    const weight = this.weights.get(key);
+    if (weight === undefined) {
+      return undefined;
+    }
+
+    this.prune(now);
+
+    const votes = this.votes.get(position.id) ?? new Map<string, ConsensusVote>();
+    votes.set(key, { address, weight, position, observedAt: now });
+    this.votes.set(position.id, votes);
+
+    if (votes.size < this.config.minWallets) {
+      return undefined;
+    }
+
+    // Consensus reached; later votes for this token start a new round
+    this.votes.delete(position.id);
+    return this.buildSignal(position.id, Array.from(votes.values()));
+  }
+
+  /**
+   * Drop a target's pending vote (e.g. it closed the token before consensus was reached)
+   */
+  withdraw(address: string, tokenId: string): void {
+    const votes = this.votes.get(tokenId);
+    if (!votes) return;
+
+    votes.delete(address.toLowerCase());
+    if (votes.size === 0) {
+      this.votes.delete(tokenId);
+    }
+  }
+
+  /**
+   * Number of targets currently voting for a token
+   */
+  getVoteCount(tokenId: string): number {
+    return this.votes.get(tokenId)?.size ?? 0;
+  }
+
+  /**
+   * Remember the contributors of a consensus position we bought
+   */
+  recordEntry(tokenId: string, wallets: string[]): void {
+    const contributors = this.holdings.get(tokenId) ?? new Set<string>();
+    wallets.forEach(wallet => contributors.add(wallet.toLowerCase()));
+    this.holdings.set(tokenId, contributors);
+  }
+
+  /**
+   * Share of our consensus holding to sell when a contributor reduces its position.
+   * The contributor's weight share of the remaining contributors is scaled by how much of
+   * its position it sold; a contributor that closes stops counting for later exits.
+   * @param fraction - Share of its position the contributor sold (1 = closed)
+   */
+  exitShare(address: string, tokenId: string, fraction: DecimalLike): Decimal {
+    const key = address.toLowerCase();
+    const contributors = this.holdings.get(tokenId);
+    if (!contributors || !contributors.has(key)) {
+      return Decimal.ZERO;
+    }
+
+    const sold = Decimal.min(fraction, Decimal.ONE);
+    const remainingWeight = Decimal.sum(Array.from(contributors).map(wallet => this.getWeight(wallet)));
+    const share = remainingWeight.isPositive()
+      ? Decimal.from(this.getWeight(key)).div(remainingWeight).times(sold)
+      : Decimal.ONE;
+
+    if (sold.eq(Decimal.ONE)) {
+      contributors.delete(key);
+      if (contributors.size === 0) {
+        this.holdings.delete(tokenId);
+        return Decimal.ONE;
+      }
+    }
+
+    return share;
+  }
+
+  /**
+   * Forget a consensus position (e.g. after it was sold completely)
+   */
+  clearHolding(tokenId: string): void {
+    this.holdings.delete(tokenId);
+  }
+
+  /**
+   * Get the contributors of the consensus positions we hold
+   */
+  getHoldings(): ConsensusHolding[] {
+    return Array.from(this.holdings.entries()).map(([tokenId, wallets]) => ({
+      tokenId,
+      wallets: Array.from(wallets),
+    }));
+  }
+
+  /**
+   * Restore contributors of consensus positions from saved state
+   */
+  restoreHoldings(holdings: ConsensusHolding[]): void {
+    this.holdings = new Map(holdings.map(h => [h.tokenId, new Set(h.wallets.map(w => w.toLowerCase()))]));
+  }
+
+  /**
+   * Combine the agreeing votes into one synthetic position.
+   * Quantity and entry price are weight-averaged; the scale is the agreeing share of the total weight.
+   */
+  private buildSignal(tokenId: string, votes: ConsensusVote[]): ConsensusSignal {
+    const weight = votes.reduce((sum, vote) => sum + vote.weight, 0);
+    const totalWeight = Array.from(this.weights.values()).reduce((sum, w) => sum + w, 0);
+    const weighted = (field: 'quantity' | 'price'): Decimal =>
+      Decimal.sum(votes.map(vote => Decimal.parse(vote.position[field]).times(vote.weight))).div(weight);
+
+    // The most recent vote carries the freshest market data
+    const latest = votes.reduce((a, b) => (b.observedAt > a.observedAt ? b : a));
+
+    return {
+      tokenId,
+      position: {
+        ...latest.position,
+        quantity: weighted('quantity').round(6).toString(),
+        price: weighted('price').round(6).toString(),
+      },
+      wallets: votes.map(vote => vote.address),
+      agreeing: votes.length,
+      total: this.weights.size,
+      weight,
+      totalWeight,
+      scale: totalWeight > 0 ? weight / totalWeight : 0,
+    };
+  }
+
+  /**
+   * Drop votes older than the window
+   */
+  private prune(now: number): void {
+    for (const [tokenId, votes] of this.votes) {
+      for (const [address, vote] of votes) {
+        if (now - vote.observedAt > this.config.window) {
+          votes.delete(address);
+        }
+      }
+      if (votes.size === 0) {
+        this.votes.delete(tokenId);
+      }
+    }
+  }
+
+  private getWeight(address: string): number {
+    return this.weights.get(address) ?? 1;
+  }
+}
@@ -0,0 +1,233 @@
+import { FilterResult, MarketFilter, MarketFilterConfig, Position } from '../types';
+
+/**
+ * Lower-case a list for case-insensitive matching
+ */
+function normalizeList(values: string[]): Set<string> {
+  return new Set(values.map(v => v.trim().toLowerCase()).filter(v => v.length > 0));
+}
+
+/**
+ * Skip markets that are closed or no longer trading
+ */
+export class ActiveMarketFilter implements MarketFilter {
+  readonly name = 'active';
+
+  check(position: Position): string | undefined {
+    return position.market.active === false ? 'market is not active' : undefined;
+  }
+}
+
+/**
+ * Require at least one included tag and none of the excluded tags
+ */
+export class TagFilter implements MarketFilter {
+  readonly name = 'tags';
+  private include: Set<string>;
+  private exclude: Set<string>;
+
+  constructor(include: string[], exclude: string[]) {
+    this.include = normalizeList(include);
+    this.exclude = normalizeList(exclude);
+  }
+
+  check(position: Position): string | undefined {
+    const tags = (position.market.tags || []).map(t => t.toLowerCase());
+
+    const excluded = tags.find(t => this.exclude.has(t));
+    if (excluded) {
+      return `tag "${excluded}" is excluded`;
+    }
+
+    if (this.include.size > 0 && !tags.some(t => this.include.has(t))) {
+      return `none of the tags [${tags.join(', ')}] are included`;
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Require a minimum market liquidity and volume
+ */
+export class LiquidityFilter implements MarketFilter {
+  readonly name = 'liquidity';
+
+  constructor(private minLiquidity: number, private minVolume: number) {}
+
+  check(position: Position): string | undefined {
+    const { liquidity, volume } = position.market;
+
+    if (this.minLiquidity > 0 && (liquidity ?? 0) < this.minLiquidity) {
+      return `liquidity $${(liquidity ?? 0).toFixed(0)} below minimum $${this.minLiquidity}`;
+    }
+    if (this.minVolume > 0 && (volume ?? 0) < this.minVolume) {
+      return `volume $${(volume ?? 0).toFixed(0)} below minimum $${this.minVolume}`;
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Skip markets that resolve too soon
+ */
+export class EndDateFilter implements MarketFilter {
+  readonly name = 'end-date';
+
+  constructor(private minHoursToEnd: number) {}
+
+  check(position: Position): string | undefined {
+    if (!position.market.endDate) {
+      return undefined;
+    }
+
+    const endTime = new Date(position.market.endDate).getTime();
+    if (isNaN(endTime)) {
+      return undefined;
+    }
+
+    const hoursToEnd = (endTime - Date.now()) / 3600000;
+    if (hoursToEnd < this.minHoursToEnd) {
+      return `resolves in ${hoursToEnd.toFixed(1)}h, minimum is ${this.minHoursToEnd}h`;
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Skip outcomes priced outside a band (e.g. near-certain outcomes at 0.98)
+ */
+export class PriceBandFilter implements MarketFilter {
+  readonly name = 'price-band';
+
+  constructor(private minPrice: number, private maxPrice: number) {}
+
+  check(position: Position): string | undefined {
+    const price = parseFloat(position.price);
+
+    if (this.minPrice > 0 && price < this.minPrice) {
+      return `price $${price.toFixed(4)} below minimum $${this.minPrice}`;
+    }
+    if (this.maxPrice > 0 && price > this.maxPrice) {
+      return `price $${price.toFixed(4)} above maximum $${this.maxPrice}`;
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Allow and deny lists of market IDs, market slugs and event slugs.
+ * Deny lists always win; when any allow list is set the market must match one of them.
+ */
+export class MarketListFilter implements MarketFilter {
+  readonly name = 'market-list';
+  private allowIds: Set<string>;
+  private allowSlugs: Set<string>;
+  private allowEvents: Set<string>;
+  private denyIds: Set<string>;
+  private denySlugs: Set<string>;
+  private denyEvents: Set<string>;
+
+  constructor(config: Pick<MarketFilterConfig,
+    'allowMarketIds' | 'allowMarketSlugs' | 'allowEventSlugs' |
+    'denyMarketIds' | 'denyMarketSlugs' | 'denyEventSlugs'>) {
+    this.allowIds = normalizeList(config.allowMarketIds);
+    this.allowSlugs = normalizeList(config.allowMarketSlugs);
+    this.allowEvents = normalizeList(config.allowEventSlugs);
+    this.denyIds = normalizeList(config.denyMarketIds);
+    this.denySlugs = normalizeList(config.denyMarketSlugs);
+    this.denyEvents = normalizeList(config.denyEventSlugs);
+  }
+
+  check(position: Position): string | undefined {
+    const id = position.market.id.toLowerCase();
+    const slug = position.market.slug.toLowerCase();
+    const eventSlug = (position.market.eventSlug || '').toLowerCase();
+
+    if (this.denyIds.has(id)) return `market ID ${position.market.id} is denied`;
+    if (slug && this.denySlugs.has(slug)) return `market slug ${position.market.slug} is denied`;
+    if (eventSlug && this.denyEvents.has(eventSlug)) return `event slug ${position.market.eventSlug} is denied`;
+
+    const hasAllowList = this.allowIds.size + this.allowSlugs.size + this.allowEvents.size > 0;
+    if (
+      hasAllowList &&
+      !this.allowIds.has(id) &&
+      !(slug && this.allowSlugs.has(slug)) &&
+      !(eventSlug && this.allowEvents.has(eventSlug))
+    ) {
+      return 'market is not on an allow list';
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Market Filter Chain
+ * Runs filters in order and stops at the first one that rejects the position
+ */
+export class MarketFilterChain {
+  private filters: MarketFilter[];
+
+  constructor(filters: MarketFilter[] = []) {
+    this.filters = filters;
+  }
+
+  evaluate(position: Position): FilterResult {
+    for (const filter of this.filters) {
+      const reason = filter.check(position);
+      if (reason) {
+        return { passed: false, filter: filter.name, reason };
+      }
+    }
+    return { passed: true };
+  }
+
+  /**
+   * Whether any filter needs market metadata (tags, liquidity, volume, status) that positions don't carry
+   */
+  needsMarketData(): boolean {
+    return this.filters.some(f =>
+      f instanceof TagFilter || f instanceof LiquidityFilter || f instanceof ActiveMarketFilter
+    );
+  }
+
+  getFilterNames(): string[] {
+    return this.filters.map(f => f.name);
+  }
+}
+
+/**
+ * Create the filters enabled in config, cheapest first
+ */
+export function createMarketFilters(config: MarketFilterConfig): MarketFilter[] {
+  const filters: MarketFilter[] = [];
+
+  const hasLists = [
+    config.allowMarketIds, config.allowMarketSlugs, config.allowEventSlugs,
+    config.denyMarketIds, config.denyMarketSlugs, config.denyEventSlugs,
+  ].some(list => list.length > 0);
+  if (hasLists) {
+    filters.push(new MarketListFilter(config));
+  }
+  if (config.minPrice > 0 || config.maxPrice > 0) {
+    filters.push(new PriceBandFilter(config.minPrice, config.maxPrice));
+  }
+  if (config.minHoursToEnd > 0) {
+    filters.push(new EndDateFilter(config.minHoursToEnd));
+  }
+  if (config.requireActive) {
+    filters.push(new ActiveMarketFilter());
+  }
+  if (config.includeTags.length > 0 || config.excludeTags.length > 0) {
+    filters.push(new TagFilter(config.includeTags, config.excludeTags));
+  }
+  if (config.minLiquidity > 0 || config.minVolume > 0) {
+    filters.push(new LiquidityFilter(config.minLiquidity, config.minVolume));
+  }
+
+  return filters;
+}
@@ -0,0 +1,250 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClobClient } from '@polymarket/clob-client';
+import { OrderExecutor } from './order-executor';
+import { OrderManager } from './order-manager';
+import { MarketApiClient } from '../clients/market-api-client';
+import { CopyTradingConfig, DecimalString, OrderBook, Position } from '../types';
+import { InsufficientFundsError } from '../utils/errors';
+
+const BOOK: OrderBook = {
+  tokenId: 'token-1',
+  bids: [{ price: '0.48', size: '100' }],
+  asks: [{ price: '0.5', size: '100' }],
+  tickSize: '0.01',
+  minOrderSize: '5',
+  timestamp: '2024-01-01T00:00:00Z',
+};
+
+function position(quantity: DecimalString, price: DecimalString): Position {
+  return {
+    id: 'token-1',
+    market: { id: 'market-1', question: 'Will it rain?', slug: 'will-it-rain' },
+    outcome: 'Yes',
+    quantity,
+    price,
+    value: '0',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+}
+
+/**
+ * Stand-in for the authenticated CLOB client: records posted orders and reports balances in base units
+ */
+class FakeClob {
+  balance = '100000000'; // 100 USDC or shares
+  allowances: Record<string, string> = { exchange: '100000000' }; // Per exchange contract, as newer CLOB versions report
+  posted: Array<{ orderType: string; order: Record<string, unknown> }> = [];
+
+  async getBalanceAllowance() {
+    return { balance: this.balance, allowances: this.allowances };
+  }
+
+  async createAndPostOrder(order: Record<string, unknown>, _options: unknown, orderType: string) {
+    return this.post(order, orderType);
+  }
+
+  async createAndPostMarketOrder(order: Record<string, unknown>, _options: unknown, orderType: string) {
+    return this.post(order, orderType);
+  }
+
+  async createOrder(order: Record<string, unknown>) {
+    return { ...order, signature: '0xsigned' };
+  }
+
+  async postOrder(order: Record<string, unknown>, orderType: string) {
+    return this.post(order, orderType);
+  }
+
+  private post(order: Record<string, unknown>, orderType: string) {
+    this.posted.push({ orderType, order });
+    return { orderID: `order-${this.posted.length}` };
+  }
+}
+
+interface Internals {
+  client: FakeClob;
+  orderManager: OrderManager;
+  apiKeyCreated: boolean;
+  createOrderManager(): OrderManager;
+}
+
+/**
+ * Live order executor trading through a FakeClob against BOOK
+ */
+function createExecutor(t: { after(fn: () => void): void }, config: Partial<CopyTradingConfig> = {}) {
+  const marketClient = { getOrderBook: async () => BOOK };
+  const executor = new OrderExecutor(
+    { enabled: true, privateKey: '0x' + '11'.repeat(32), orderPollInterval: 60000, ...config },
+    marketClient as unknown as MarketApiClient
+  );
+
+  const internals = executor as unknown as Internals;
+  const clob = new FakeClob();
+  internals.client = clob;
+  internals.orderManager = internals.createOrderManager();
+  internals.apiKeyCreated = true;
+  t.after(() => executor.getOrderManager().stop());
+  return { executor, clob };
+}
+
+test('applies no trade or position size limit unless one is configured', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t);
+
+  const result = await executor.executeBuy({ ...position('90', '0.5'), value: '1000000' });
+  assert.equal(result.error, undefined);
+  assert.equal(clob.posted.length, 1);
+});
+
+test('posts buys and sells as GTC orders by default', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t);
+
+  const buy = await executor.executeBuy(position('10', '0.5'));
+  const sell = await executor.executeSell(position('10', '0.48'));
+  assert.equal(buy.orderType, 'GTC');
+  assert.equal(sell.orderType, 'GTC');
+  assert.deepEqual(clob.posted.map(p => p.orderType), ['GTC', 'GTC']);
+  assert.equal(clob.posted[0].order.expiration, undefined);
+});
+
+test('signs FAK orders first and posts them fill-and-kill', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t, { buyOrderType: 'FAK' });
+
+  const result = await executor.executeBuy(position('10', '0.5'));
+  assert.equal(result.orderType, 'FAK');
+  assert.deepEqual(clob.posted, [{
+    orderType: 'FAK',
+    order: { tokenID: 'token-1', price: 0.5, size: 10, side: 'BUY', signature: '0xsigned' },
+  }]);
+});
+
+test('GTD orders expire gtdExpiration seconds past the CLOB\'s one minute threshold', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t, { buyOrderType: 'GTD', gtdExpiration: 120 });
+
+  const before = Math.floor(Date.now() / 1000);
+  await executor.executeBuy(position('10', '0.5'));
+  const after = Math.floor(Date.now() / 1000);
+
+  assert.equal(clob.posted[0].orderType, 'GTD');
+  const expiration = Number(clob.posted[0].order.expiration);
+  assert.ok(expiration >= before + 180 && expiration <= after + 180, `expiration ${expiration}`);
+});
+
+test('market buys are sized in USDC and posted fill-or-kill', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t, { buyOrderType: 'MARKET' });
+
+  await executor.executeBuy(position('10', '0.5'));
+  assert.deepEqual(clob.posted, [{
+    orderType: 'FOK',
+    order: { tokenID: 'token-1', price: 0.5, amount: 5, side: 'BUY' },
+  }]);
+});
+
+test('buys and sells use their own order types', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t, { buyOrderType: 'GTD', sellOrderType: 'FAK' });
+
+  await executor.executeBuy(position('10', '0.5'));
+  await executor.executeSell(position('10', '0.48'));
+  assert.deepEqual(clob.posted.map(p => p.orderType), ['GTD', 'FAK']);
+});
+
+test('skips a buy the USDC balance cannot cover and reports what was missing', async t => {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'error', () => {});
+  const errors: Error[] = [];
+  const { executor, clob } = createExecutor(t, { onTradeError: error => errors.push(error) });
+  clob.balance = '500000'; // $0.50, below the $1 minimum trade
+
+  const result = await executor.executeBuy(position('10', '0.5'));
+  assert.equal(result.success, false);
+  assert.match(result.error ?? '', /Insufficient USDC balance: need \$5\.00, have \$0\.50/);
+  assert.ok(errors[0] instanceof InsufficientFundsError);
+  assert.equal(errors[0].required, '5');
+  assert.equal(errors[0].available, '0.5');
+  assert.deepEqual(clob.posted, []);
+});
+
+test('shrinks a buy to the smallest exchange allowance when that is below the balance', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t);
+  clob.allowances = { exchange: '100000000', negRiskExchange: '3000000' }; // $3 spendable
+
+  const result = await executor.executeBuy(position('10', '0.5'));
+  assert.equal(result.success, true);
+  assert.equal(result.requestedQuantity, '6');
+  assert.equal(clob.posted[0].order.size, 6);
+});
+
+test('refuses to sell when the exchange may not transfer the outcome tokens', async t => {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'error', () => {});
+  const { executor, clob } = createExecutor(t);
+  clob.allowances = { exchange: '0' };
+
+  const result = await executor.executeSell(position('10', '0.48'));
+  assert.equal(result.success, false);
+  assert.match(result.error ?? '', /not approved to transfer outcome tokens/);
+  assert.deepEqual(clob.posted, []);
+});
+
+test('skips a buy whose price drifted past the threshold when the action is skip', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t, { priceDrift: { maxAbsolute: 0.05, maxRelative: 0, action: 'skip' } });
+
+  const result = await executor.executeBuy(position('10', '0.4'));
+  assert.equal(result.success, false);
+  assert.match(result.error ?? '', /Price drifted too far from target entry: best ask \$0\.5000 vs target entry \$0\.4000/);
+  assert.equal(result.priceDrift?.absolute, '0.1');
+  assert.deepEqual(clob.posted, []);
+});
+
+test('rests a GTC limit at the target\'s entry instead of chasing when the action is limit', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, clob } = createExecutor(t, {
+    buyOrderType: 'FAK',
+    priceDrift: { maxAbsolute: 0.05, maxRelative: 0, action: 'limit' },
+  });
+
+  const result = await executor.executeBuy(position('10', '0.4'));
+  assert.equal(result.orderType, 'GTC');
+  assert.equal(clob.posted[0].orderType, 'GTC');
+  assert.equal(clob.posted[0].order.price, 0.4);
+});
+
+test('signs for the funder wallet with the CLOB signature type of its kind', () => {
+  const funderAddress = '0x' + '34'.repeat(20);
+  const expected = { 'poly-proxy': 1, 'gnosis-safe': 2 } as const;
+
+  for (const [signatureType, clobType] of Object.entries(expected)) {
+    const executor = new OrderExecutor(
+      { enabled: true, privateKey: '0x' + '11'.repeat(32), signatureType: signatureType as keyof typeof expected, funderAddress },
+      {} as MarketApiClient
+    );
+    const { orderBuilder } = (executor as unknown as { client: ClobClient }).client;
+    assert.equal(orderBuilder.signatureType, clobType);
+    assert.equal(orderBuilder.funderAddress, funderAddress);
+    assert.equal(executor.getFunderAddress(), funderAddress);
+  }
+});
+
+test('an EOA wallet holds its own funds', () => {
+  const executor = new OrderExecutor({ enabled: true, privateKey: '0x' + '11'.repeat(32) }, {} as MarketApiClient);
+  const { orderBuilder } = (executor as unknown as { client: ClobClient }).client;
+  assert.equal(orderBuilder.signatureType, 0);
+  assert.equal(orderBuilder.funderAddress, undefined);
+  assert.equal(executor.getFunderAddress(), executor.getWalletAddress());
+  assert.notEqual(executor.getFunderAddress(), '');
+});
+
+test('refuses a proxy or Safe wallet without a funder address', () => {
+  assert.throws(
+    () => new OrderExecutor({ enabled: true, privateKey: '0x' + '11'.repeat(32), signatureType: 'gnosis-safe' }, {} as MarketApiClient),
+    /A funder address is required for gnosis-safe wallets/
+  );
+});
@@ -1,40 +1,76 @@
-import { ClobClient, Side, OrderType } from '@polymarket/clob-client';
-import { Wallet } from 'ethers';
-import { Position, CopyTradingConfig, TradeExecutionResult } from '../types';
+import { ClobClient, Side, OrderType, AssetType, ApiKeyCreds } from '@polymarket/clob-client';
+import {
+  Position,
+  CopyTradingConfig,
+  TradeExecutionResult,
+  CopyOrderType,
+  OrderStatus,
+  BalanceStatus,
+  OrderBook,
+  OrderFill,
+  Signer,
+  TrackedOrder,
+  WalletSignatureType,
+} from '../types';
+import { MarketApiClient } from '../clients/market-api-client';
+import { TradeExecutionError, InsufficientFundsError } from '../utils/errors';
+import { Decimal, DecimalLike } from '../utils/decimal';
+import { registerSecret } from '../utils/redact';
+import { LocalSigner, KeystoreSigner } from '../security/signers';
+import { getSizeIncrement, planFill, roundSize, FillPlan } from './slippage';
+import { OrderManager } from './order-manager';
+import { measurePriceDrift, roundDownToTick, describePriceDrift } from './price-drift';
 
 /**
- * Signer adapter to bridge ethers v6 Wallet with ClobClient's expected interface
- * ClobClient expects _signTypedData method which ethers v6 doesn't provide directly
+ * Copy trading options that only the strategy layer uses
  */
-class SignerAdapter {
-  private wallet: Wallet;
+type StrategyOnlyOptions =
+  | 'startupPolicy'
+  | 'confirmExistingPositions'
+  | 'stateStore'
+  | 'sizingStrategy'
+  | 'portfolioValue'
+  | 'riskLimits'
+  | 'marketFilters'
+  | 'targets'
+  | 'consensus';
+
+type ExecutorConfig = Required<Omit<CopyTradingConfig, StrategyOnlyOptions | 'keystore' | 'signer'>>;
 
-  constructor(wallet: Wallet) {
-    this.wallet = wallet;
-  }
+/**
+ * ClobClient's numeric signature types (SignatureType in @polymarket/order-utils)
+ */
+const CLOB_SIGNATURE_TYPES: Record<WalletSignatureType, number> = {
+  eoa: 0,
+  'poly-proxy': 1,
+  'gnosis-safe': 2,
+};
 
-  get address(): string {
-    return this.wallet.address;
-  }
+/**
+ * USDC and outcome token balances are reported in 6-decimal base units
+ */
+const TOKEN_DECIMALS = 6;
 
-  // ClobClient expects _signTypedData method
-  async _signTypedData(
-    domain: any,
-    types: Record<string, any[]>,
-    value: Record<string, any>
-  ): Promise<string> {
-    // Use ethers v6's signTypedData method
-    return await this.wallet.signTypedData(domain, types, value);
-  }
+/**
+ * Whether a USD value is over a size limit; Infinity means no limit
+ */
+function exceedsLimit(value: Decimal, limit: number): boolean {
+  return Number.isFinite(limit) && value.gt(limit);
+}
 
-  // Proxy other methods that might be needed
-  async signMessage(message: string | Uint8Array): Promise<string> {
-    return await this.wallet.signMessage(message);
-  }
+/**
+ * Signer type ClobClient is declared with: an ethers v5 Wallet or JsonRpcSigner
+ */
+type ClobSigner = NonNullable<ConstructorParameters<typeof ClobClient>[2]>;
 
-  async getAddress(): Promise<string> {
-    return this.wallet.address;
-  }
+/**
+ * Hand our signer to ClobClient. The client and its order builder only call getAddress and
+ * _signTypedData, which are checked against the v5 declarations here; the rest of the v5
+ * signer surface is never used.
+ */
+function toClobSigner(signer: Signer): ClobSigner {
+  const used: Pick<ClobSigner, 'getAddress' | '_signTypedData'> = signer;
+  return used as ClobSigner;
 }
 
 /**
@@ -43,14 +79,21 @@ class SignerAdapter {
  */
 export class OrderExecutor {
   private client: ClobClient;
-  private config: Required<CopyTradingConfig>;
+  private config: ExecutorConfig;
   private apiKeyCreated: boolean = false;
+  private apiCreds?: ApiKeyCreds;
   private walletAddress?: string;
+  private marketClient: MarketApiClient;
+  private orderManager: OrderManager;
+  private signer: Signer;
+  private pendingOrders: Map<string, TradeExecutionResult> = new Map(); // Posted orders not yet settled
 
-  constructor(config: CopyTradingConfig) {
+  constructor(config: CopyTradingConfig, marketClient?: MarketApiClient) {
     this.config = {
       enabled: config.enabled,
-      privateKey: config.privateKey,
+      privateKey: config.privateKey ?? '',
+      signatureType: config.signatureType ?? 'eoa',
+      funderAddress: config.funderAddress ?? '',
       dryRun: config.dryRun ?? false,
       positionSizeMultiplier: config.positionSizeMultiplier ?? 1.0,
       maxPositionSize: config.maxPositionSize ?? Infinity,
@@ -59,19 +102,40 @@ export class OrderExecutor {
       minTradeSize: config.minTradeSize ?? 1.0,
       chainId: config.chainId ?? 137, // Polygon mainnet
       clobHost: config.clobHost ?? 'https://clob.polymarket.com',
+      buyOrderType: config.buyOrderType ?? 'GTC',
+      sellOrderType: config.sellOrderType ?? 'GTC',
+      gtdExpiration: config.gtdExpiration ?? 300,
+      orderTimeout: config.orderTimeout ?? 60000,
+      orderPollInterval: config.orderPollInterval ?? 2000,
+      priceDrift: config.priceDrift ?? { maxAbsolute: 0, maxRelative: 0, action: 'skip' },
       onTradeExecuted: config.onTradeExecuted ?? (() => {}),
       onTradeError: config.onTradeError ?? (() => {}),
+      onOrderFill: config.onOrderFill ?? (() => {}),
+      onOrderSettled: config.onOrderSettled ?? (() => {}),
     };
 
-    // Create wallet from private key
-    const wallet = new Wallet(this.config.privateKey);
-    this.walletAddress = wallet.address;
+    if (config.signer) {
+      this.signer = config.signer;
+    } else if (config.keystore) {
+      // Decrypted on initialize; until then only the address stored in the keystore is known
+      this.signer = new KeystoreSigner(config.keystore);
+    } else if (this.config.privateKey) {
+      const signer = new LocalSigner(this.config.privateKey);
+      this.walletAddress = signer.address;
+      this.signer = signer;
+    } else {
+      throw new Error('A signer, keystore or private key is required for trade execution');
+    }
+
+    if (this.config.signatureType !== 'eoa' && !this.config.funderAddress) {
+      throw new Error(`A funder address is required for ${this.config.signatureType} wallets`);
+    }
 
-    // Create signer adapter to bridge ethers v6 with ClobClient's expected interface
-    const signerAdapter = new SignerAdapter(wallet);
+    this.client = this.createClient();
+    this.orderManager = this.createOrderManager();
 
-    // Initialize CLOB client with the adapter
-    this.client = new ClobClient(this.config.clobHost, this.config.chainId, signerAdapter as any);
+    // Used for order book lookups
+    this.marketClient = marketClient ?? new MarketApiClient({ clobApiUrl: this.config.clobHost });
   }
 
   /**
@@ -85,9 +149,33 @@ export class OrderExecutor {
 
     try {
       console.log('🔑 Initializing trade executor...');
-      await this.client.createOrDeriveApiKey();
+      await this.signer.unlock?.();
+      await this.loadWalletAddress();
+
+      const creds = await this.client.createOrDeriveApiKey();
+      [creds.key, creds.secret, creds.passphrase].forEach(registerSecret);
+      this.apiCreds = creds;
+
+      // Authenticated endpoints (orders, balances) need the API credentials on the client
+      this.client = this.createClient(creds);
+      this.orderManager = this.createOrderManager();
       this.apiKeyCreated = true;
       console.log(`✅ Trade executor initialized for wallet: ${this.walletAddress}`);
+      if (this.config.funderAddress) {
+        console.log(`💼 Trading from ${this.config.signatureType} wallet: ${this.config.funderAddress}`);
+      }
+
+      const collateral = await this.getCollateralStatus();
+      console.log(
+        `💵 USDC balance: $${Decimal.from(collateral.balance).toFixed(2)}, ` +
+        `exchange allowance: $${Decimal.from(collateral.allowance).toFixed(2)}`
+      );
+      if (!Decimal.from(collateral.balance).isPositive()) {
+        console.warn('⚠️  Wallet has no USDC; buys will be skipped until it is funded');
+      }
+      if (!Decimal.from(collateral.allowance).isPositive()) {
+        console.warn('⚠️  Exchange has no USDC allowance; approve USDC for the exchange before buying');
+      }
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
       console.error('❌ Failed to initialize trade executor:', message);
@@ -96,20 +184,66 @@ export class OrderExecutor {
   }
 
   /**
-   * Get wallet address
+   * CLOB client signing with our signer for the funder wallet, authenticated once credentials exist
+   */
+  private createClient(creds?: ApiKeyCreds): ClobClient {
+    return new ClobClient(
+      this.config.clobHost,
+      this.config.chainId,
+      toClobSigner(this.signer),
+      creds,
+      CLOB_SIGNATURE_TYPES[this.config.signatureType],
+      this.config.funderAddress || undefined
+    );
+  }
+
+  /**
+   * Order manager reporting fills and settlements of our posted orders
+   */
+  private createOrderManager(): OrderManager {
+    return new OrderManager(this.client, {
+      timeout: this.config.orderTimeout,
+      pollInterval: this.config.orderPollInterval,
+      onFill: (order, fill) => this.handleOrderFill(order, fill),
+      onSettled: order => this.handleOrderSettled(order),
+    });
+  }
+
+  /**
+   * Ask the signer for the wallet address, e.g. a remote signer's account
+   */
+  async loadWalletAddress(): Promise<string> {
+    if (!this.walletAddress) {
+      this.walletAddress = await this.signer.getAddress();
+    }
+    return this.walletAddress;
+  }
+
+  /**
+   * Get wallet address (empty until known; see loadWalletAddress)
    */
   getWalletAddress(): string {
     return this.walletAddress || '';
   }
 
+  /**
+   * Get the address holding the funds and positions: the proxy or Safe wallet, else the signer's own
+   */
+  getFunderAddress(): string {
+    return this.config.funderAddress || this.getWalletAddress();
+  }
+
   /**
    * Execute a buy order to copy a position
+   * @param shares - Shares to buy, chosen by the sizing strategy; defaults to the target quantity times the multiplier
+   * @param contributingWallets - Targets behind a consensus signal, recorded on the result
    */
-  async executeBuy(position: Position): Promise<TradeExecutionResult> {
+  async executeBuy(position: Position, shares?: DecimalLike, contributingWallets?: string[]): Promise<TradeExecutionResult> {
     const result: TradeExecutionResult = {
       success: false,
       position,
       dryRun: this.config.dryRun,
+      contributingWallets,
     };
 
     try {
@@ -120,20 +254,22 @@ export class OrderExecutor {
       }
 
       // Calculate trade size
-      const baseQuantity = parseFloat(position.quantity);
-      const tradeQuantity = baseQuantity * this.config.positionSizeMultiplier;
-      const tradePrice = parseFloat(position.price);
-      const tradeValue = tradeQuantity * tradePrice;
+      const baseQuantity = Decimal.parse(position.quantity);
+      const tradeQuantity = shares !== undefined
+        ? Decimal.from(shares)
+        : baseQuantity.times(this.config.positionSizeMultiplier);
+      const tradePrice = Decimal.parse(position.price);
+      const tradeValue = tradeQuantity.times(tradePrice);
 
       // Validate trade size
-      if (tradeValue < this.config.minTradeSize) {
+      if (tradeValue.lt(this.config.minTradeSize)) {
         const errorMsg = `Trade size $${tradeValue.toFixed(2)} is below minimum $${this.config.minTradeSize}`;
         result.error = errorMsg;
         this.config.onTradeError(new Error(errorMsg), position);
         return result;
       }
 
-      if (tradeValue > this.config.maxTradeSize) {
+      if (exceedsLimit(tradeValue, this.config.maxTradeSize)) {
         const errorMsg = `Trade size $${tradeValue.toFixed(2)} exceeds maximum $${this.config.maxTradeSize}`;
         result.error = errorMsg;
         this.config.onTradeError(new Error(errorMsg), position);
@@ -141,25 +277,67 @@ export class OrderExecutor {
       }
 
       // Check if position size exceeds maximum
-      const positionValue = parseFloat(position.value || '0') * this.config.positionSizeMultiplier;
-      if (positionValue > this.config.maxPositionSize) {
+      // Our position scales with the target's by the same ratio as this trade
+      const sizeRatio = baseQuantity.isPositive()
+        ? tradeQuantity.div(baseQuantity)
+        : Decimal.from(this.config.positionSizeMultiplier);
+      const positionValue = Decimal.parse(position.value).times(sizeRatio);
+      if (exceedsLimit(positionValue, this.config.maxPositionSize)) {
         const errorMsg = `Position size $${positionValue.toFixed(2)} exceeds maximum $${this.config.maxPositionSize}`;
         result.error = errorMsg;
         this.config.onTradeError(new Error(errorMsg), position);
         return result;
       }
 
+      // Don't chase a market that has moved away from the target's entry price
+      const book = await this.marketClient.getOrderBook(tokenId);
+      const drift = measurePriceDrift(book, tradePrice, this.config.priceDrift);
+      result.priceDrift = drift ?? undefined;
+
+      let fill: FillPlan;
+      let orderType = this.config.buyOrderType;
+      if (drift?.exceeded) {
+        if (this.config.priceDrift.action === 'skip') {
+          const errorMsg = `Price drifted too far from target entry: ${describePriceDrift(drift)}`;
+          console.log(`🚫 ${errorMsg}`);
+          result.error = errorMsg;
+          this.config.onTradeError(new Error(errorMsg), position);
+          return result;
+        }
+
+        fill = this.planRestingLimit(position, book, tradeQuantity, tradePrice);
+        orderType = this.config.buyOrderType === 'GTD' ? 'GTD' : 'GTC';
+        console.log(
+          `📌 Price drifted (${describePriceDrift(drift)}); ` +
+          `resting ${orderType} limit at $${fill.limitPrice.toFixed(4)} instead of chasing`
+        );
+      } else {
+        // Price the order against the live book within the slippage tolerance
+        fill = this.planOrder(position, 'buy', book, tradeQuantity, tradePrice);
+      }
+
+      this.checkMinOrderSize(position, book, fill);
+      const fillValue = fill.size.times(fill.averagePrice);
+      if (fill.shrunk && fillValue.lt(this.config.minTradeSize)) {
+        throw new TradeExecutionError(
+          `Only $${fillValue.toFixed(2)} fillable within ${this.config.slippageTolerance}% slippage, ` +
+          `below minimum $${this.config.minTradeSize}`,
+          tokenId
+        );
+      }
+
       if (this.config.dryRun) {
         console.log(`🔍 [DRY RUN] Would execute BUY order:`);
         console.log(`   Token ID: ${tokenId}`);
-        console.log(`   Quantity: ${tradeQuantity.toFixed(4)} shares`);
-        console.log(`   Price: $${tradePrice.toFixed(4)}`);
-        console.log(`   Value: $${tradeValue.toFixed(2)}`);
+        console.log(`   Quantity: ${fill.size.toFixed(4)} shares`);
+        console.log(`   Limit price: $${fill.limitPrice.toFixed(4)} (avg fill $${fill.averagePrice.toFixed(4)})`);
+        console.log(`   Value: $${fillValue.toFixed(2)}`);
         console.log(`   Market: ${position.market.question}`);
         
         result.success = true;
-        result.executedQuantity = tradeQuantity.toFixed(4);
-        result.executedPrice = tradePrice.toFixed(4);
+        result.orderType = orderType;
+        result.executedQuantity = fill.size.toString();
+        result.executedPrice = fill.averagePrice.toString();
         this.config.onTradeExecuted(result);
         return result;
       }
@@ -169,24 +347,15 @@ export class OrderExecutor {
         await this.initialize();
       }
 
-      // Execute buy order
-      console.log(`🟢 Executing BUY order: ${tradeQuantity.toFixed(4)} shares @ $${tradePrice.toFixed(4)}`);
-      const orderResponse = await this.client.createAndPostOrder({
-        tokenID: tokenId,
-        price: tradePrice,
-        size: tradeQuantity,
-        side: Side.BUY,
-        orderType: OrderType.GTC, // Good-til-cancelled
-      } as any);
-
-      result.success = true;
-      result.orderId = orderResponse.orderID;
-      result.executedQuantity = tradeQuantity.toFixed(4);
-      result.executedPrice = tradePrice.toFixed(4);
-      
-      console.log(`✅ BUY order executed successfully! Order ID: ${orderResponse.orderID}`);
-      this.config.onTradeExecuted(result);
-      
+      // Skip or shrink the buy to what the wallet can pay for
+      fill = await this.fitToCollateral(position, book, fill);
+      this.checkMinOrderSize(position, book, fill);
+
+      // Post the buy order; its fills are reported as the order manager sees them
+      console.log(`🟢 Executing BUY order: ${fill.size.toFixed(4)} shares @ $${fill.limitPrice.toFixed(4)}`);
+      await this.postOrder(position, 'buy', fill, result, orderType);
+
+      console.log(`📨 BUY ${result.orderType} order posted (Order ID: ${result.orderId})`);
       return result;
     } catch (error: unknown) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -199,9 +368,10 @@ export class OrderExecutor {
   }
 
   /**
-   * Execute a sell order to close a position
+   * Execute a sell order to close or reduce a position
+   * @param shares - Shares to sell, sized from our own holdings; defaults to the target quantity times the multiplier
    */
-  async executeSell(position: Position): Promise<TradeExecutionResult> {
+  async executeSell(position: Position, shares?: DecimalLike): Promise<TradeExecutionResult> {
     const result: TradeExecutionResult = {
       success: false,
       position,
@@ -216,20 +386,27 @@ export class OrderExecutor {
       }
 
       // Calculate trade size
-      const baseQuantity = parseFloat(position.quantity);
-      const tradeQuantity = baseQuantity * this.config.positionSizeMultiplier;
-      const tradePrice = parseFloat(position.price);
+      const tradeQuantity = shares !== undefined
+        ? Decimal.from(shares)
+        : Decimal.parse(position.quantity).times(this.config.positionSizeMultiplier);
+      const tradePrice = Decimal.parse(position.price);
+
+      // Price the order against the live book within the slippage tolerance
+      const book = await this.marketClient.getOrderBook(tokenId);
+      let fill = this.planOrder(position, 'sell', book, tradeQuantity, tradePrice);
+      this.checkMinOrderSize(position, book, fill);
 
       if (this.config.dryRun) {
         console.log(`🔍 [DRY RUN] Would execute SELL order:`);
         console.log(`   Token ID: ${tokenId}`);
-        console.log(`   Quantity: ${tradeQuantity.toFixed(4)} shares`);
-        console.log(`   Price: $${tradePrice.toFixed(4)}`);
+        console.log(`   Quantity: ${fill.size.toFixed(4)} shares`);
+        console.log(`   Limit price: $${fill.limitPrice.toFixed(4)} (avg fill $${fill.averagePrice.toFixed(4)})`);
         console.log(`   Market: ${position.market.question}`);
         
         result.success = true;
-        result.executedQuantity = tradeQuantity.toFixed(4);
-        result.executedPrice = tradePrice.toFixed(4);
+        result.orderType = this.config.sellOrderType;
+        result.executedQuantity = fill.size.toString();
+        result.executedPrice = fill.averagePrice.toString();
         this.config.onTradeExecuted(result);
         return result;
       }
@@ -239,24 +416,14 @@ export class OrderExecutor {
         await this.initialize();
       }
 
-      // Execute sell order
-      console.log(`🔴 Executing SELL order: ${tradeQuantity.toFixed(4)} shares @ $${tradePrice.toFixed(4)}`);
-      const orderResponse = await this.client.createAndPostOrder({
-        tokenID: tokenId,
-        price: tradePrice,
-        size: tradeQuantity,
-        side: Side.SELL,
-        orderType: OrderType.GTC as any,
-      } as any);
-
-      result.success = true;
-      result.orderId = orderResponse.orderID;
-      result.executedQuantity = tradeQuantity.toFixed(4);
-      result.executedPrice = tradePrice.toFixed(4);
-      
-      console.log(`✅ SELL order executed successfully! Order ID: ${orderResponse.orderID}`);
-      this.config.onTradeExecuted(result);
-      
+      fill = await this.fitToTokenBalance(position, book, fill);
+      this.checkMinOrderSize(position, book, fill);
+
+      // Post the sell order; its fills are reported as the order manager sees them
+      console.log(`🔴 Executing SELL order: ${fill.size.toFixed(4)} shares @ $${fill.limitPrice.toFixed(4)}`);
+      await this.postOrder(position, 'sell', fill, result);
+
+      console.log(`📨 SELL ${result.orderType} order posted (Order ID: ${result.orderId})`);
       return result;
     } catch (error: unknown) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -268,6 +435,356 @@ export class OrderExecutor {
     }
   }
 
+  /**
+   * Post an order of the configured type for the side and hand it to the order manager.
+   * Returns once the CLOB accepts the order; fills arrive through onOrderFill and the final
+   * state through onOrderSettled. Throws when the order is rejected.
+   */
+  private async postOrder(
+    position: Position,
+    side: 'buy' | 'sell',
+    fill: FillPlan,
+    result: TradeExecutionResult,
+    orderType: CopyOrderType = side === 'buy' ? this.config.buyOrderType : this.config.sellOrderType
+  ): Promise<void> {
+    result.orderType = orderType;
+    result.requestedQuantity = fill.size.toString();
+
+    const orderResponse = await this.submitOrder(position.id, side, fill, orderType);
+
+    if (!orderResponse?.orderID) {
+      result.unfilledReason = orderResponse?.errorMsg || 'no order ID returned';
+      throw new TradeExecutionError(`${orderType} order rejected: ${result.unfilledReason}`, position.id);
+    }
+
+    const order = this.orderManager.track(orderResponse.orderID, position.id, side, fill.size, fill.limitPrice);
+    result.orderId = order.orderId;
+    result.orderStatus = order.status;
+    result.executedQuantity = order.filledSize;
+    result.executedPrice = order.averagePrice;
+    result.unfilledReason = orderResponse.errorMsg || undefined;
+    result.success = true;
+    this.pendingOrders.set(order.orderId, result);
+  }
+
+  /**
+   * Record new fills of a posted order on its result
+   */
+  private handleOrderFill(order: TrackedOrder, fill: OrderFill): void {
+    const result = this.pendingOrders.get(order.orderId);
+    if (!result) return;
+
+    result.orderStatus = order.status;
+    result.executedQuantity = order.filledSize;
+    result.executedPrice = order.averagePrice;
+    console.log(`💰 ${order.side.toUpperCase()} order ${order.orderId} filled ${fill.size} shares @ $${Decimal.parse(fill.price).toFixed(4)}`);
+    this.config.onOrderFill({ ...result }, fill);
+  }
+
+  /**
+   * Report the final state of a posted order: executed when anything filled, an error otherwise
+   */
+  private handleOrderSettled(order: TrackedOrder): void {
+    const result = this.pendingOrders.get(order.orderId);
+    if (!result) return;
+    this.pendingOrders.delete(order.orderId);
+
+    const orderType = result.orderType ?? this.config.buyOrderType;
+    const filled = Decimal.parse(order.filledSize);
+    result.orderStatus = order.status;
+    result.executedQuantity = filled.toString();
+    result.executedPrice = order.averagePrice;
+    if (order.status !== 'filled') {
+      result.unfilledReason = this.describeUnfilled(orderType, order.status, result.unfilledReason);
+    }
+
+    const side = order.side.toUpperCase();
+    if (filled.isPositive()) {
+      console.log(`✅ ${side} order ${order.status}: ${result.executedQuantity} shares @ $${result.executedPrice} (Order ID: ${order.orderId})`);
+      this.config.onTradeExecuted({ ...result });
+    } else {
+      const error = new TradeExecutionError(
+        `${orderType} order ${order.orderId} ${order.status} without any fill: ${result.unfilledReason}`,
+        order.tokenId
+      );
+      console.error(`❌ ${side} order not filled: ${error.message}`);
+      result.success = false;
+      result.error = error.message;
+      this.config.onTradeError(error, result.position);
+    }
+    this.config.onOrderSettled({ ...result });
+  }
+
+  /**
+   * Sign and post an order of the given type.
+   * Limit types are sized in shares at the band limit; MARKET buys are sized in USDC, rounded down to the cent.
+   * Prices are book levels (or rounded to the tick) and sizes are on the size increment, so the
+   * numbers handed to the client carry no more precision than the CLOB accepts.
+   */
+  private async submitOrder(
+    tokenId: string,
+    side: 'buy' | 'sell',
+    fill: FillPlan,
+    orderType: CopyOrderType
+  ): Promise<any> {
+    const clobSide = side === 'buy' ? Side.BUY : Side.SELL;
+    const price = fill.limitPrice.toNumber();
+    const size = fill.size.toNumber();
+
+    switch (orderType) {
+      case 'MARKET':
+        return this.client.createAndPostMarketOrder({
+          tokenID: tokenId,
+          price, // Worst acceptable price
+          amount: side === 'buy' ? fill.size.times(fill.averagePrice).round(2, 'down').toNumber() : size,
+          side: clobSide,
+        }, undefined, OrderType.FOK);
+
+      case 'FOK':
+      case 'FAK': {
+        const order = await this.client.createOrder({
+          tokenID: tokenId,
+          price,
+          size,
+          side: clobSide,
+        });
+        return this.client.postOrder(order, orderType === 'FOK' ? OrderType.FOK : OrderType.FAK);
+      }
+
+      case 'GTD':
+        return this.client.createAndPostOrder({
+          tokenID: tokenId,
+          price,
+          size,
+          side: clobSide,
+          // The CLOB enforces a one minute security threshold on GTD expirations
+          expiration: Math.floor(Date.now() / 1000) + 60 + this.config.gtdExpiration,
+        }, undefined, OrderType.GTD);
+
+      case 'GTC':
+      default:
+        return this.client.createAndPostOrder({
+          tokenID: tokenId,
+          price,
+          size,
+          side: clobSide,
+        }, undefined, OrderType.GTC);
+    }
+  }
+
+  /**
+   * Explain why an order did not (fully) fill
+   */
+  private describeUnfilled(orderType: CopyOrderType, status: OrderStatus, errorMsg?: string): string {
+    if (errorMsg) {
+      return errorMsg;
+    }
+
+    switch (status) {
+      case 'expired':
+        return orderType === 'GTD'
+          ? `not filled before ${this.config.gtdExpiration}s GTD expiration or ${this.config.orderTimeout / 1000}s timeout`
+          : `not filled within ${this.config.orderTimeout / 1000}s timeout`;
+      case 'cancelled':
+        return orderType === 'FOK' || orderType === 'MARKET'
+          ? 'killed: not enough liquidity to fill completely'
+          : orderType === 'FAK'
+            ? 'remainder killed after taking available liquidity'
+            : 'cancelled before filling';
+      default:
+        return `order ${status}`;
+    }
+  }
+
+  /**
+   * Get the wallet's USDC balance and the exchange's USDC allowance
+   */
+  async getCollateralStatus(): Promise<BalanceStatus> {
+    const response = await this.client.getBalanceAllowance({ asset_type: AssetType.COLLATERAL });
+    return this.parseBalanceStatus(response);
+  }
+
+  /**
+   * Get the wallet's balance of an outcome token and the exchange's approval to transfer it
+   */
+  async getTokenStatus(tokenId: string): Promise<BalanceStatus> {
+    const response = await this.client.getBalanceAllowance({
+      asset_type: AssetType.CONDITIONAL,
+      token_id: tokenId,
+    });
+    return this.parseBalanceStatus(response);
+  }
+
+  /**
+   * Convert a balance-allowance response from base units.
+   * Newer CLOB versions report one allowance per exchange contract; the smallest one is used.
+   */
+  private parseBalanceStatus(response: any): BalanceStatus {
+    const toUnits = (value: unknown): Decimal =>
+      Decimal.parse(String(value ?? '0')).div(10 ** TOKEN_DECIMALS);
+
+    let allowance = Decimal.ZERO;
+    if (response?.allowance !== undefined) {
+      allowance = toUnits(response.allowance);
+    } else if (response?.allowances && typeof response.allowances === 'object') {
+      const values = Object.values(response.allowances).map(toUnits);
+      allowance = values.length > 0 ? values.reduce((min, value) => Decimal.min(min, value)) : Decimal.ZERO;
+    }
+
+    return { balance: toUnits(response?.balance).toString(), allowance: allowance.toString() };
+  }
+
+  /**
+   * Shrink a buy to the USDC the wallet holds and the exchange may spend.
+   * Throws InsufficientFundsError when what is affordable is below the minimum trade size.
+   */
+  private async fitToCollateral(position: Position, book: OrderBook, fill: FillPlan): Promise<FillPlan> {
+    const { balance, allowance } = await this.getCollateralStatus();
+    const available = Decimal.min(balance, allowance);
+    const cost = fill.size.times(fill.limitPrice);
+
+    if (cost.lte(available)) {
+      return fill;
+    }
+
+    const limitedBy = Decimal.from(balance).lte(allowance) ? 'USDC balance' : 'USDC allowance';
+    if (available.lt(this.config.minTradeSize)) {
+      throw new InsufficientFundsError(
+        `Insufficient ${limitedBy}: need $${cost.toFixed(2)}, have $${available.toFixed(2)}`,
+        position.id,
+        cost.toString(),
+        available.toString()
+      );
+    }
+
+    const size = roundSize(available.div(fill.limitPrice), getSizeIncrement(book));
+    console.log(`⚠️  Buy shrunk from ${fill.size.toFixed(4)} to ${size.toFixed(4)} shares by ${limitedBy} ($${available.toFixed(2)})`);
+    return { ...fill, size, shrunk: true };
+  }
+
+  /**
+   * Make sure the exchange is approved to transfer the shares and never sell more than the wallet holds
+   */
+  private async fitToTokenBalance(position: Position, book: OrderBook, fill: FillPlan): Promise<FillPlan> {
+    const { balance, allowance } = await this.getTokenStatus(position.id);
+
+    if (!Decimal.from(allowance).isPositive()) {
+      throw new InsufficientFundsError(
+        'Exchange is not approved to transfer outcome tokens; approve the conditional token contract first',
+        position.id,
+        fill.size.toString(),
+        allowance
+      );
+    }
+
+    // Dust below the size increment can't be sold
+    const held = roundSize(balance, getSizeIncrement(book));
+    if (!held.isPositive()) {
+      throw new InsufficientFundsError(
+        `No outcome token balance to sell (need ${fill.size.toFixed(4)} shares)`,
+        position.id,
+        fill.size.toString(),
+        balance
+      );
+    }
+
+    if (held.lt(fill.size)) {
+      console.log(`⚠️  Sell shrunk from ${fill.size.toFixed(4)} to ${held.toFixed(4)} shares held by the wallet`);
+      return { ...fill, size: held, shrunk: true };
+    }
+
+    return fill;
+  }
+
+  /**
+   * Get the CLOB API credentials (set once initialized in live mode)
+   */
+  getApiCredentials(): ApiKeyCreds | undefined {
+    return this.apiCreds;
+  }
+
+  /**
+   * Get the order manager tracking posted orders
+   */
+  getOrderManager(): OrderManager {
+    return this.orderManager;
+  }
+
+  /**
+   * Walk the live order book for the intended size and keep the order inside the slippage band.
+   * Orders that cannot fully fill inside the band are shrunk to the fillable size.
+   */
+  private planOrder(
+    position: Position,
+    side: 'buy' | 'sell',
+    book: OrderBook,
+    quantity: Decimal,
+    referencePrice: Decimal
+  ): FillPlan {
+    if (!roundSize(quantity, getSizeIncrement(book)).isPositive()) {
+      throw new TradeExecutionError(`Order of ${quantity.toFixed(4)} shares is below the size increment`, position.id);
+    }
+
+    const fill = planFill(book, side, quantity, referencePrice, this.config.slippageTolerance);
+
+    if (!fill) {
+      const bookSide = side === 'buy' ? 'asks' : 'bids';
+      throw new TradeExecutionError(
+        `No ${bookSide} within ${this.config.slippageTolerance}% of $${referencePrice.toFixed(4)}`,
+        position.id
+      );
+    }
+
+    if (fill.shrunk) {
+      console.log(
+        `⚠️  Order shrunk from ${fill.requestedSize.toFixed(4)} to ${fill.size.toFixed(4)} shares ` +
+        `to stay within ${this.config.slippageTolerance}% slippage (band $${fill.bandPrice.toFixed(4)})`
+      );
+    }
+
+    return fill;
+  }
+
+  /**
+   * Reject an order smaller than the market's minimum order size; the CLOB would refuse it
+   */
+  private checkMinOrderSize(position: Position, book: OrderBook, fill: FillPlan): void {
+    if (fill.size.lt(book.minOrderSize)) {
+      throw new TradeExecutionError(
+        `Order of ${fill.size.toFixed(4)} shares is below the market's minimum order size of ${book.minOrderSize}`,
+        position.id
+      );
+    }
+  }
+
+  /**
+   * Plan a buy that rests on the book at the target's entry price (rounded down to the tick size)
+   * until it fills or the order timeout cancels it
+   */
+  private planRestingLimit(position: Position, book: OrderBook, quantity: Decimal, entryPrice: Decimal): FillPlan {
+    const limitPrice = roundDownToTick(entryPrice, book.tickSize);
+    const size = roundSize(quantity, getSizeIncrement(book));
+    if (!limitPrice.isPositive()) {
+      throw new TradeExecutionError(
+        `Target entry $${entryPrice.toFixed(4)} is below the tick size ${book.tickSize}`,
+        position.id
+      );
+    }
+
+    if (!size.isPositive()) {
+      throw new TradeExecutionError(`Order of ${quantity.toFixed(4)} shares is below the size increment`, position.id);
+    }
+
+    return {
+      requestedSize: size,
+      size,
+      averagePrice: limitPrice,
+      limitPrice,
+      bandPrice: limitPrice,
+      shrunk: false,
+    };
+  }
+
   /**
    * Check if executor is in dry run mode
    */
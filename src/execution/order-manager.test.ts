@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClobClient } from '@polymarket/clob-client';
+import { OrderManager } from './order-manager';
+import { OrderFill, TrackedOrder } from '../types';
+
+/**
+ * Stand-in for the parts of ClobClient the order manager uses
+ */
+class FakeClob {
+  sizeMatched = '0';
+  status = 'LIVE';
+  cancelResponse: unknown = { canceled: ['order-1'] };
+  cancelled: string[] = [];
+
+  async getOrder(orderId: string) {
+    return {
+      id: orderId,
+      status: this.status,
+      original_size: '10',
+      size_matched: this.sizeMatched,
+      price: '0.5',
+      associate_trades: [],
+    };
+  }
+
+  async getTrades() {
+    return [];
+  }
+
+  async cancelOrder({ orderID }: { orderID: string }) {
+    this.cancelled.push(orderID);
+    if (!(this.cancelResponse as { error?: unknown }).error) {
+      this.status = 'CANCELED';
+    }
+    return this.cancelResponse;
+  }
+}
+
+function createManager(clob: FakeClob, timeout = 1000) {
+  const fills: OrderFill[] = [];
+  const settled: TrackedOrder[] = [];
+  const manager = new OrderManager(clob as unknown as ClobClient, {
+    timeout,
+    pollInterval: 5,
+    onFill: (_order, fill) => fills.push(fill),
+    onSettled: order => settled.push(order),
+  });
+  return { manager, fills, settled };
+}
+
+function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() > deadline) return reject(new Error('timed out'));
+      setTimeout(check, 2);
+    };
+    check();
+  });
+}
+
+test('track returns at once and fills are reported from the polling loop', async () => {
+  const clob = new FakeClob();
+  const { manager, fills, settled } = createManager(clob);
+
+  const order = manager.track('order-1', 'token-1', 'buy', '10', '0.5');
+  assert.equal(order.status, 'open');
+
+  clob.sizeMatched = '4';
+  await until(() => fills.length === 1);
+  assert.deepEqual(fills[0], { orderId: 'order-1', size: '4', price: '0.5' });
+  assert.equal(manager.getOrder('order-1')?.status, 'partially_filled');
+
+  clob.sizeMatched = '10';
+  clob.status = 'MATCHED';
+  await until(() => settled.length === 1);
+  assert.equal(fills[1].size, '6');
+  assert.equal(settled[0].status, 'filled');
+  assert.deepEqual(manager.getOpenOrders(), []);
+  manager.stop();
+});
+
+test('orders unfilled past the timeout are cancelled and settled as expired', async () => {
+  const clob = new FakeClob();
+  const { manager, settled } = createManager(clob, 20);
+
+  manager.track('order-1', 'token-1', 'sell', '10', '0.5');
+  await until(() => settled.length === 1);
+  assert.deepEqual(clob.cancelled, ['order-1']);
+  assert.equal(settled[0].status, 'expired');
+  manager.stop();
+});
+
+test('a cancel the CLOB rejects is retried instead of settling the order as expired', async () => {
+  const clob = new FakeClob();
+  clob.cancelResponse = { error: 'Internal Server Error', status: 500 };
+  const { manager, settled } = createManager(clob, 10);
+
+  manager.track('order-1', 'token-1', 'buy', '10', '0.5');
+  await until(() => clob.cancelled.length >= 2);
+  assert.equal(settled.length, 0);
+  assert.equal(manager.getOrder('order-1')?.status, 'open');
+
+  clob.cancelResponse = { canceled: ['order-1'] };
+  await until(() => settled.length === 1);
+  assert.equal(settled[0].status, 'expired');
+  manager.stop();
+});
+
+test('notify checks an order before the next poll', async () => {
+  const clob = new FakeClob();
+  const settled: TrackedOrder[] = [];
+  const manager = new OrderManager(clob as unknown as ClobClient, {
+    timeout: 60000,
+    pollInterval: 60000,
+    onSettled: order => settled.push(order),
+  });
+
+  manager.track('order-1', 'token-1', 'buy', '10', '0.5');
+  clob.sizeMatched = '10';
+  manager.notify('order-1');
+  await until(() => settled.length === 1);
+  assert.equal(settled[0].status, 'filled');
+  manager.stop();
+});
+
+test('cancelOpenOrders cancels and settles every open order, keeping fills that landed first', async t => {
+  t.mock.method(console, 'log', () => {});
+  const clob = new FakeClob();
+  const { manager, fills, settled } = createManager(clob, 60000);
+
+  manager.track('order-1', 'token-1', 'buy', '10', '0.5');
+  clob.sizeMatched = '3';
+  assert.deepEqual(await manager.cancelOpenOrders(), []);
+
+  assert.deepEqual(clob.cancelled, ['order-1']);
+  assert.deepEqual(fills, [{ orderId: 'order-1', size: '3', price: '0.5' }]);
+  assert.equal(settled[0].status, 'expired');
+  assert.equal(settled[0].filledSize, '3');
+  manager.stop();
+});
+
+test('cancelOpenOrders returns the orders the CLOB would not cancel', async t => {
+  t.mock.method(console, 'warn', () => {});
+  const clob = new FakeClob();
+  clob.cancelResponse = { error: 'Internal Server Error', status: 500 };
+  const { manager, settled } = createManager(clob, 60000);
+
+  manager.track('order-1', 'token-1', 'buy', '10', '0.5');
+  const stillOpen = await manager.cancelOpenOrders();
+  assert.deepEqual(stillOpen.map(order => order.orderId), ['order-1']);
+  assert.equal(settled.length, 0);
+  manager.stop();
+});
@@ -0,0 +1,333 @@
+import { ClobClient, OpenOrder } from '@polymarket/clob-client';
+import { OrderFill, OrderStatus, TrackedOrder } from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+/**
+ * Options for the order manager
+ */
+export interface OrderManagerOptions {
+  timeout: number; // Cancel orders still unfilled after this many ms
+  pollInterval: number; // Interval in ms between status checks
+  onFill?: (order: TrackedOrder, fill: OrderFill) => void; // Shares filled since the previous check
+  onSettled?: (order: TrackedOrder) => void; // Order filled, cancelled or expired; called once per order
+}
+
+/**
+ * Order Manager
+ * Tracks posted orders through open, partially filled, filled, cancelled and expired.
+ * Its own polling loop checks open orders for fills and cancels those that stay unfilled
+ * past the timeout, so posting an order never waits for it to fill.
+ */
+export class OrderManager {
+  private client: ClobClient;
+  private options: OrderManagerOptions;
+  private orders: Map<string, TrackedOrder> = new Map();
+  private deadlines: Map<string, number> = new Map(); // Orders not yet settled, with their timeout
+  private checks: Map<string, Promise<void>> = new Map(); // Status checks in flight
+  private timer?: NodeJS.Timeout;
+
+  constructor(client: ClobClient, options: OrderManagerOptions) {
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * Start tracking a newly posted order; it is checked from the next poll on
+   */
+  track(orderId: string, tokenId: string, side: 'buy' | 'sell', size: DecimalLike, price: DecimalLike): TrackedOrder {
+    const now = new Date().toISOString();
+    const order: TrackedOrder = {
+      orderId,
+      tokenId,
+      side,
+      status: 'open',
+      requestedSize: Decimal.from(size).toString(),
+      filledSize: '0',
+      averagePrice: Decimal.from(price).toString(),
+      limitPrice: Decimal.from(price).toString(),
+      postedAt: now,
+      updatedAt: now,
+    };
+
+    this.orders.set(orderId, order);
+    this.deadlines.set(orderId, Date.now() + this.options.timeout);
+    this.schedulePoll();
+    return { ...order };
+  }
+
+  /**
+   * Check an order now instead of at the next poll (e.g. on a user channel event for it)
+   */
+  notify(orderId: string): void {
+    if (this.deadlines.has(orderId)) {
+      void this.check(orderId);
+    }
+  }
+
+  /**
+   * Fetch the latest order state from the CLOB, reporting new fills
+   */
+  async refresh(orderId: string): Promise<TrackedOrder> {
+    const order = this.getTracked(orderId);
+
+    try {
+      const remote = await this.client.getOrder(orderId);
+      if (remote) {
+        await this.applyRemote(order, remote);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Failed to fetch status of order ${orderId}: ${message}`);
+    }
+
+    return { ...order };
+  }
+
+  /**
+   * Get a tracked order
+   */
+  getOrder(orderId: string): TrackedOrder | undefined {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : undefined;
+  }
+
+  /**
+   * Get all orders that are not yet filled, cancelled or expired
+   */
+  getOpenOrders(): TrackedOrder[] {
+    return Array.from(this.orders.values())
+      .filter(order => !this.isFinal(order.status))
+      .map(order => ({ ...order }));
+  }
+
+  /**
+   * Cancel every open order (e.g. on shutdown), reporting fills that landed before the cancel.
+   * Returns the orders that could not be cancelled and stay open on the CLOB.
+   */
+  async cancelOpenOrders(): Promise<TrackedOrder[]> {
+    for (const order of this.getOpenOrders()) {
+      await this.checks.get(order.orderId);
+      if (this.deadlines.has(order.orderId) && await this.expire(order.orderId, 'on shutdown')) {
+        this.settle(order.orderId);
+      }
+    }
+    return this.getOpenOrders();
+  }
+
+  /**
+   * Stop polling; orders still open are no longer checked
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Poll again after the interval while any order is unsettled
+   */
+  private schedulePoll(): void {
+    if (this.timer || this.deadlines.size === 0) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      void this.poll();
+    }, this.options.pollInterval);
+  }
+
+  /**
+   * Check every unsettled order, then schedule the next poll
+   */
+  private async poll(): Promise<void> {
+    try {
+      for (const orderId of Array.from(this.deadlines.keys())) {
+        await this.check(orderId);
+      }
+    } finally {
+      this.timer = undefined;
+      this.schedulePoll();
+    }
+  }
+
+  /**
+   * Refresh an order and settle it once final, cancelling it past its timeout.
+   * Concurrent checks of the same order share one request.
+   */
+  private check(orderId: string): Promise<void> {
+    const inFlight = this.checks.get(orderId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const check = (async () => {
+      const order = await this.refresh(orderId);
+      if (this.isFinal(order.status)) {
+        this.settle(orderId);
+      } else if (Date.now() >= (this.deadlines.get(orderId) ?? 0) && await this.expire(orderId, `after ${this.options.timeout / 1000}s`)) {
+        this.settle(orderId);
+      }
+    })().catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Failed to check order ${orderId}: ${message}`);
+    }).finally(() => {
+      this.checks.delete(orderId);
+    });
+
+    this.checks.set(orderId, check);
+    return check;
+  }
+
+  /**
+   * Stop checking an order and report its final state
+   */
+  private settle(orderId: string): void {
+    if (!this.deadlines.delete(orderId)) {
+      return;
+    }
+    this.options.onSettled?.({ ...this.getTracked(orderId) });
+  }
+
+  /**
+   * Cancel an order that stayed open past the timeout or is still open on shutdown.
+   * Returns whether the order is final; a failed cancel is retried on the next poll.
+   */
+  private async expire(orderId: string, reason: string): Promise<boolean> {
+    const order = this.getTracked(orderId);
+
+    const failure = await this.cancel(orderId);
+    if (!failure) {
+      console.log(`⏱️  Cancelled order ${orderId} ${reason} (filled ${order.filledSize}/${order.requestedSize})`);
+    }
+
+    // A fill may have landed between the last poll and the cancel
+    const latest = await this.refresh(orderId);
+    if (latest.status === 'filled') {
+      return true;
+    }
+
+    if (failure) {
+      if (latest.status === 'cancelled') {
+        return true; // Cancelled or killed by the CLOB already
+      }
+      console.warn(`⚠️  Failed to cancel order ${orderId}, retrying on the next check: ${failure}`);
+      return false;
+    }
+
+    order.status = 'expired';
+    order.updatedAt = new Date().toISOString();
+    return true;
+  }
+
+  /**
+   * Ask the CLOB to cancel an order. The client resolves HTTP failures as { error }
+   * instead of throwing, and lists orders it could not cancel in not_canceled.
+   * Returns why the cancel failed, or undefined when it succeeded.
+   */
+  private async cancel(orderId: string): Promise<string | undefined> {
+    try {
+      const response = await this.client.cancelOrder({ orderID: orderId });
+      if (response?.error) {
+        return typeof response.error === 'string' ? response.error : JSON.stringify(response.error);
+      }
+      const notCanceled = response?.not_canceled?.[orderId];
+      if (notCanceled) {
+        return String(notCanceled);
+      }
+      return undefined;
+    } catch (error: unknown) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Update a tracked order from the CLOB's view of it
+   */
+  private async applyRemote(order: TrackedOrder, remote: OpenOrder): Promise<void> {
+    const requested = Decimal.parse(remote.original_size || order.requestedSize);
+    const matched = Decimal.parse(remote.size_matched);
+
+    if (matched.gt(order.filledSize)) {
+      const previousSize = Decimal.parse(order.filledSize);
+      const previousCost = previousSize.times(Decimal.parse(order.averagePrice));
+      const averagePrice = await this.getAverageFillPrice(remote);
+      const size = matched.minus(previousSize);
+
+      order.filledSize = matched.toString();
+      order.averagePrice = averagePrice.toString();
+      this.options.onFill?.({ ...order }, {
+        orderId: order.orderId,
+        size: size.toString(),
+        price: matched.times(averagePrice).minus(previousCost).div(size).toString(),
+      });
+    }
+
+    const remoteStatus = (remote.status || '').toUpperCase();
+    let status: OrderStatus;
+    if (matched.gte(requested)) {
+      status = 'filled';
+    } else if (
+      remoteStatus === 'CANCELED' ||
+      remoteStatus === 'CANCELLED' ||
+      remoteStatus === 'UNMATCHED' ||
+      remoteStatus === 'MATCHED' // Killed remainder of a FAK order
+    ) {
+      status = 'cancelled';
+    } else {
+      status = matched.isPositive() ? 'partially_filled' : 'open';
+    }
+
+    // Keep the expired state set by the timeout
+    if (order.status !== 'expired' || status === 'filled') {
+      order.status = status;
+    }
+    order.updatedAt = new Date().toISOString();
+  }
+
+  /**
+   * Average price of the order's fills from its trades, falling back to the limit price
+   */
+  private async getAverageFillPrice(remote: OpenOrder): Promise<Decimal> {
+    const limitPrice = Decimal.parse(remote.price);
+    const tradeIds = remote.associate_trades || [];
+    if (tradeIds.length === 0) {
+      return limitPrice;
+    }
+
+    try {
+      let size = Decimal.ZERO;
+      let cost = Decimal.ZERO;
+
+      for (const tradeId of tradeIds) {
+        const trades = await this.client.getTrades({ id: tradeId }, true);
+        for (const trade of trades) {
+          if (trade.taker_order_id === remote.id) {
+            size = size.plus(trade.size);
+            cost = cost.plus(Decimal.from(trade.size).times(trade.price));
+            continue;
+          }
+          for (const maker of trade.maker_orders || []) {
+            if (maker.order_id === remote.id) {
+              size = size.plus(maker.matched_amount);
+              cost = cost.plus(Decimal.from(maker.matched_amount).times(maker.price));
+            }
+          }
+        }
+      }
+
+      return size.isPositive() ? cost.div(size) : limitPrice;
+    } catch (error) {
+      return limitPrice;
+    }
+  }
+
+  private getTracked(orderId: string): TrackedOrder {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} is not tracked`);
+    }
+    return order;
+  }
+
+  private isFinal(status: OrderStatus): boolean {
+    return status === 'filled' || status === 'cancelled' || status === 'expired';
+  }
+}
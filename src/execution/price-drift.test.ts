@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describePriceDrift, measurePriceDrift, roundDownToTick } from './price-drift';
+import { DecimalString, OrderBook, PriceDriftConfig } from '../types';
+
+function book(asks: DecimalString[], tickSize: DecimalString = '0.01'): OrderBook {
+  return {
+    tokenId: 'token-1',
+    bids: [],
+    asks: asks.map(price => ({ price, size: '100' })),
+    tickSize,
+    minOrderSize: '5',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+}
+
+const ABSOLUTE: PriceDriftConfig = { maxAbsolute: 0.05, maxRelative: 0, action: 'skip' };
+const RELATIVE: PriceDriftConfig = { maxAbsolute: 0, maxRelative: 10, action: 'skip' };
+
+test('measures the best ask against the entry price exactly', () => {
+  const drift = measurePriceDrift(book(['0.3', '0.6']), '0.2', ABSOLUTE); // 0.3 - 0.2 is 0.09999999999999998 in floats
+  assert.deepEqual(drift, { entryPrice: '0.2', marketPrice: '0.3', absolute: '0.1', relative: '50', exceeded: true });
+});
+
+test('rejects a drift past the absolute threshold but not one at it', () => {
+  assert.equal(measurePriceDrift(book(['0.56']), '0.5', ABSOLUTE)?.exceeded, true);
+  assert.equal(measurePriceDrift(book(['0.55']), '0.5', ABSOLUTE)?.exceeded, false);
+});
+
+test('rejects a drift past the relative threshold', () => {
+  assert.equal(measurePriceDrift(book(['0.23']), '0.2', RELATIVE)?.exceeded, true); // +15%
+  assert.equal(measurePriceDrift(book(['0.21']), '0.2', RELATIVE)?.exceeded, false); // +5%
+});
+
+test('never rejects a price that moved in our favour or with both thresholds disabled', () => {
+  assert.equal(measurePriceDrift(book(['0.3']), '0.5', ABSOLUTE)?.exceeded, false);
+  assert.equal(measurePriceDrift(book(['0.9']), '0.5', { maxAbsolute: 0, maxRelative: 0, action: 'skip' })?.exceeded, false);
+});
+
+test('measures nothing without asks or a positive entry price', () => {
+  assert.equal(measurePriceDrift(book([]), '0.5', ABSOLUTE), null);
+  assert.equal(measurePriceDrift(book(['0.5']), '0', ABSOLUTE), null);
+});
+
+test('rounds a resting limit down to the tick size', () => {
+  assert.equal(roundDownToTick('0.537', '0.01').toString(), '0.53');
+  assert.equal(roundDownToTick('0.5379', '0.001').toString(), '0.537');
+  assert.equal(roundDownToTick('0.537', '0').toString(), '0.53'); // Unknown tick size
+});
+
+test('describes a drift with signs', () => {
+  const drift = measurePriceDrift(book(['0.45']), '0.5', ABSOLUTE);
+  assert.ok(drift);
+  assert.equal(describePriceDrift(drift), 'best ask $0.4500 vs target entry $0.5000 ($-0.0500, -10.00%)');
+});
@@ -0,0 +1,58 @@
+import { OrderBook, PriceDrift, PriceDriftConfig } from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+/**
+ * Tick size assumed when the book doesn't report one
+ */
+const DEFAULT_TICK_SIZE = Decimal.from('0.01');
+
+/**
+ * Measure how far the best ask has moved above the target's entry price for a buy.
+ * Returns null when the book has no asks.
+ */
+export function measurePriceDrift(
+  book: OrderBook,
+  entryPrice: DecimalLike,
+  config: PriceDriftConfig
+): PriceDrift | null {
+  const entry = Decimal.from(entryPrice);
+  if (book.asks.length === 0 || !entry.isPositive()) {
+    return null;
+  }
+
+  const marketPrice = Decimal.parse(book.asks[0].price);
+  const absolute = marketPrice.minus(entry);
+  const relative = absolute.div(entry).times(100);
+  const exceeded =
+    (config.maxAbsolute > 0 && absolute.gt(config.maxAbsolute)) ||
+    (config.maxRelative > 0 && relative.gt(config.maxRelative));
+
+  return {
+    entryPrice: entry.toString(),
+    marketPrice: marketPrice.toString(),
+    absolute: absolute.toString(),
+    relative: relative.toString(),
+    exceeded,
+  };
+}
+
+/**
+ * Round a buy price down to the book's tick size
+ */
+export function roundDownToTick(price: DecimalLike, tickSize: string): Decimal {
+  const tick = Decimal.parse(tickSize);
+  return Decimal.from(price).roundTo(tick.isPositive() ? tick : DEFAULT_TICK_SIZE, 'down');
+}
+
+/**
+ * Describe a drift for logs and error messages
+ */
+export function describePriceDrift(drift: PriceDrift): string {
+  const absolute = Decimal.parse(drift.absolute);
+  const relative = Decimal.parse(drift.relative);
+  return (
+    `best ask $${Decimal.parse(drift.marketPrice).toFixed(4)} vs target entry $${Decimal.parse(drift.entryPrice).toFixed(4)} ` +
+    `(${absolute.isNegative() ? '' : '+'}$${absolute.toFixed(4)}, ` +
+    `${relative.isNegative() ? '' : '+'}${relative.toFixed(2)}%)`
+  );
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FixedUsdSizing,
+  KellySizing,
+  MultiplierSizing,
+  PortfolioPercentSizing,
+  ProportionalSizing,
+  createSizingStrategy,
+} from './sizing';
+import { DecimalString, Position, SizingInput } from '../types';
+import { Decimal } from '../utils/decimal';
+
+function input(quantity: DecimalString, price: DecimalString, portfolioValue = '1000', targetPortfolioValue = '0'): SizingInput {
+  const position: Position = {
+    id: 'token-1',
+    market: { id: 'market-1', question: 'Will it rain?', slug: 'will-it-rain' },
+    outcome: 'Yes',
+    quantity,
+    price,
+    value: '0',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+  return {
+    position,
+    price: Decimal.from(price),
+    portfolioValue: Decimal.from(portfolioValue),
+    targetPortfolioValue: Decimal.from(targetPortfolioValue),
+  };
+}
+
+test('multiplier scales the target quantity exactly', () => {
+  assert.equal(new MultiplierSizing(0.1).size(input('30', '0.5')).quantity.toString(), '3');
+});
+
+test('fixed-usd buys the amount at the price, and nothing at a zero price', () => {
+  assert.equal(new FixedUsdSizing(10).size(input('1', '0.25')).quantity.toString(), '40');
+  assert.ok(new FixedUsdSizing(10).size(input('1', '0')).quantity.isZero());
+});
+
+test('portfolio-percent sizes from our portfolio value', () => {
+  const decision = new PortfolioPercentSizing(2).size(input('1', '0.5', '1000'));
+  assert.equal(decision.quantity.toString(), '40'); // $20 at 0.5
+  assert.equal(decision.inputs.usd, '20');
+});
+
+test('proportional applies the trade\'s share of the target portfolio to ours', () => {
+  // Target puts $50 of its $500 into the trade: 10% of our $1000 is $100 at 0.5
+  const decision = new ProportionalSizing().size(input('100', '0.5', '1000', '500'));
+  assert.equal(decision.quantity.toString(), '200');
+  assert.ok(new ProportionalSizing().size(input('100', '0.5', '1000', '0')).quantity.isZero());
+});
+
+test('kelly bets a capped fraction of full Kelly', () => {
+  // p = 0.5, q = 0.6: full Kelly 0.2, quarter Kelly 0.05, within the 0.1 cap: $50 at 0.5
+  assert.equal(new KellySizing(0.1, 0.25, 0.1).size(input('1', '0.5')).quantity.toString(), '100');
+  // Same bet capped at 2% of the portfolio: $20 at 0.5
+  assert.equal(new KellySizing(0.1, 0.25, 0.02).size(input('1', '0.5')).quantity.toString(), '40');
+  assert.ok(new KellySizing(0.1, 0.25, 0.1).size(input('1', '1')).quantity.isZero());
+});
+
+test('portfolio-based strategies size to zero without a portfolio value', () => {
+  assert.ok(new PortfolioPercentSizing(2).size(input('1', '0.5', '0')).quantity.isZero());
+  assert.ok(new KellySizing(0.1, 0.25, 0.1).size(input('1', '0.5', '0')).quantity.isZero());
+});
+
+test('creates the configured strategy', () => {
+  const config = {
+    strategy: 'kelly' as const,
+    multiplier: 1,
+    fixedUsd: 10,
+    portfolioPercent: 1,
+    bankroll: 1000,
+    kellyEdge: 0.05,
+    kellyFraction: 0.25,
+    kellyCap: 0.05,
+  };
+  assert.equal(createSizingStrategy(config).name, 'kelly');
+  assert.equal(createSizingStrategy({ ...config, strategy: 'fixed-usd' }).name, 'fixed-usd');
+});
@@ -0,0 +1,144 @@
+import { SizingConfig, SizingDecision, SizingInput, SizingStrategy, SizingStrategyName } from '../types';
+import { Decimal } from '../utils/decimal';
+
+/**
+ * Strategies that size from our portfolio value; without one they size every buy to zero
+ */
+export const PORTFOLIO_SIZING_STRATEGIES: readonly SizingStrategyName[] = ['portfolio-percent', 'proportional', 'kelly'];
+
+/**
+ * Round a value for logging
+ */
+function round(value: Decimal, decimals = 4): string {
+  return value.round(decimals).toString();
+}
+
+/**
+ * Shares a USD amount buys at a price; none at a zero price
+ */
+function sharesFor(usd: Decimal, price: Decimal): Decimal {
+  return price.isPositive() ? usd.div(price) : Decimal.ZERO;
+}
+
+/**
+ * Target quantity times a flat multiplier
+ */
+export class MultiplierSizing implements SizingStrategy {
+  readonly name = 'multiplier' as const;
+
+  constructor(private multiplier: number) {}
+
+  size({ position }: SizingInput): SizingDecision {
+    const targetQuantity = Decimal.parse(position.quantity);
+    return {
+      quantity: targetQuantity.times(this.multiplier),
+      inputs: { targetQuantity: targetQuantity.toString(), multiplier: this.multiplier },
+    };
+  }
+}
+
+/**
+ * A fixed USD amount per trade
+ */
+export class FixedUsdSizing implements SizingStrategy {
+  readonly name = 'fixed-usd' as const;
+
+  constructor(private usd: number) {}
+
+  size({ price }: SizingInput): SizingDecision {
+    return {
+      quantity: sharesFor(Decimal.from(this.usd), price),
+      inputs: { usd: this.usd, price: round(price) },
+    };
+  }
+}
+
+/**
+ * A percentage of our portfolio value per trade
+ */
+export class PortfolioPercentSizing implements SizingStrategy {
+  readonly name = 'portfolio-percent' as const;
+
+  constructor(private percent: number) {}
+
+  size({ price, portfolioValue }: SizingInput): SizingDecision {
+    const usd = portfolioValue.times(this.percent).div(100);
+    return {
+      quantity: sharesFor(usd, price),
+      inputs: { portfolioValue: round(portfolioValue, 2), percent: this.percent, usd: round(usd, 2), price: round(price) },
+    };
+  }
+}
+
+/**
+ * The trade's share of the target's total value, applied to our portfolio value
+ */
+export class ProportionalSizing implements SizingStrategy {
+  readonly name = 'proportional' as const;
+
+  size({ position, price, targetPortfolioValue, portfolioValue }: SizingInput): SizingDecision {
+    const targetTradeValue = Decimal.parse(position.quantity).times(price);
+    const share = targetPortfolioValue.isPositive() ? targetTradeValue.div(targetPortfolioValue) : Decimal.ZERO;
+    const usd = portfolioValue.times(share);
+    return {
+      quantity: sharesFor(usd, price),
+      inputs: {
+        targetTradeValue: round(targetTradeValue, 2),
+        targetPortfolioValue: round(targetPortfolioValue, 2),
+        share: round(share, 6),
+        portfolioValue: round(portfolioValue, 2),
+        usd: round(usd, 2),
+      },
+    };
+  }
+}
+
+/**
+ * Fractional Kelly for a binary outcome priced at p with an assumed win probability of p + edge,
+ * capped at a maximum fraction of the portfolio
+ */
+export class KellySizing implements SizingStrategy {
+  readonly name = 'kelly' as const;
+
+  constructor(private edge: number, private fraction: number, private cap: number) {}
+
+  size({ price, portfolioValue }: SizingInput): SizingDecision {
+    const probability = Decimal.min(price.plus(this.edge), Decimal.ONE);
+    // Full Kelly for a contract paying 1 at cost p: f* = (q - p) / (1 - p)
+    const fullKelly = price.lt(Decimal.ONE)
+      ? Decimal.max(probability.minus(price).div(Decimal.ONE.minus(price)), Decimal.ZERO)
+      : Decimal.ZERO;
+    const betFraction = Decimal.min(fullKelly.times(this.fraction), this.cap);
+    const usd = portfolioValue.times(betFraction);
+    return {
+      quantity: sharesFor(usd, price),
+      inputs: {
+        price: round(price),
+        edge: this.edge,
+        fullKelly: round(fullKelly),
+        betFraction: round(betFraction),
+        portfolioValue: round(portfolioValue, 2),
+        usd: round(usd, 2),
+      },
+    };
+  }
+}
+
+/**
+ * Create the sizing strategy selected in config
+ */
+export function createSizingStrategy(config: SizingConfig): SizingStrategy {
+  switch (config.strategy) {
+    case 'fixed-usd':
+      return new FixedUsdSizing(config.fixedUsd);
+    case 'portfolio-percent':
+      return new PortfolioPercentSizing(config.portfolioPercent);
+    case 'proportional':
+      return new ProportionalSizing();
+    case 'kelly':
+      return new KellySizing(config.kellyEdge, config.kellyFraction, config.kellyCap);
+    case 'multiplier':
+    default:
+      return new MultiplierSizing(config.multiplier);
+  }
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSizeIncrement, planFill, roundSize } from './slippage';
+import { DecimalString, OrderBook } from '../types';
+
+function book(asks: Array<[DecimalString, DecimalString]>, tickSize: DecimalString = '0.01'): OrderBook {
+  return {
+    tokenId: 'token-1',
+    bids: [],
+    asks: asks.map(([price, size]) => ({ price, size })),
+    tickSize,
+    minOrderSize: '5',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+}
+
+test('takes the size increment from the client rounding config of the tick size', () => {
+  assert.equal(getSizeIncrement({ tickSize: '0.001' }).toString(), '0.01');
+  assert.equal(getSizeIncrement({ tickSize: '0.010' }).toString(), '0.01');
+  assert.equal(getSizeIncrement({ tickSize: '0.5' }).toString(), '0.01'); // Unknown tick size
+  assert.equal(roundSize('1.239', '0.01').toString(), '1.23');
+});
+
+test('walks levels inside the slippage band at their volume-weighted price', () => {
+  const fill = planFill(book([['0.50', '10'], ['0.51', '10'], ['0.60', '100']]), 'buy', '15', '0.5', 2);
+  assert.ok(fill);
+  assert.equal(fill.size.toString(), '15');
+  assert.equal(fill.limitPrice.toString(), '0.51');
+  assert.equal(fill.averagePrice.toString(), '0.503333333333333333');
+  assert.equal(fill.shrunk, false);
+});
+
+test('shrinks to what the band holds and returns null when nothing fits', () => {
+  const fill = planFill(book([['0.50', '4.567'], ['0.60', '100']]), 'buy', '10', '0.5', 2);
+  assert.ok(fill);
+  assert.equal(fill.size.toString(), '4.56');
+  assert.equal(fill.shrunk, true);
+
+  assert.equal(planFill(book([['0.60', '100']]), 'buy', '10', '0.5', 2), null);
+});
@@ -0,0 +1,100 @@
+import { TickSize } from '@polymarket/clob-client';
+import { OrderBook } from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+/**
+ * Decimals the CLOB client rounds order sizes to, by market tick size.
+ * Mirrors the client's rounding config, which it does not export from its public API.
+ */
+const SIZE_DECIMALS: Record<TickSize, number> = {
+  '0.1': 2,
+  '0.01': 2,
+  '0.001': 2,
+  '0.0001': 2,
+};
+
+/**
+ * Size decimals used when the market's tick size is not one the client knows
+ */
+const DEFAULT_SIZE_DECIMALS = 2;
+
+/**
+ * Result of walking the order book for an intended order
+ */
+export interface FillPlan {
+  requestedSize: Decimal;
+  size: Decimal; // Shares fillable inside the allowed price band, a multiple of the size increment
+  averagePrice: Decimal; // Volume-weighted fill price for size
+  limitPrice: Decimal; // Worst price consumed, never outside the band
+  bandPrice: Decimal; // Highest acceptable buy price / lowest acceptable sell price
+  shrunk: boolean; // True when size < requestedSize
+}
+
+/**
+ * Smallest step of an order size in a market. The client rounds sizes to the decimals its
+ * rounding config gives the market's tick size, so sizes are kept on that step.
+ */
+export function getSizeIncrement(book: Pick<OrderBook, 'tickSize'>): Decimal {
+  const tickSize = Decimal.parse(book.tickSize).toString();
+  const decimals = SIZE_DECIMALS[tickSize as TickSize] ?? DEFAULT_SIZE_DECIMALS;
+  return Decimal.ONE.div(10n ** BigInt(decimals));
+}
+
+/**
+ * Round an order size down to a market's size increment
+ */
+export function roundSize(size: DecimalLike, increment: DecimalLike): Decimal {
+  return Decimal.from(size).roundTo(increment, 'down');
+}
+
+/**
+ * Walk the order book for an order of the given size and compute the volume-weighted
+ * fill price, consuming only levels within slippageTolerance (%) of the reference price.
+ * The size is rounded down to the size increment. Returns null when nothing of at least
+ * one increment is available inside the band.
+ */
+export function planFill(
+  book: OrderBook,
+  side: 'buy' | 'sell',
+  size: DecimalLike,
+  referencePrice: DecimalLike,
+  slippageTolerance: number
+): FillPlan | null {
+  const increment = getSizeIncrement(book);
+  const requestedSize = roundSize(size, increment);
+  const tolerance = Decimal.from(slippageTolerance).div(100);
+  const bandPrice = Decimal.from(referencePrice).times(side === 'buy' ? Decimal.ONE.plus(tolerance) : Decimal.ONE.minus(tolerance));
+  const levels = side === 'buy' ? book.asks : book.bids;
+
+  let filled = Decimal.ZERO;
+  let cost = Decimal.ZERO;
+  let limitPrice = Decimal.ZERO;
+
+  for (const level of levels) {
+    const price = Decimal.from(level.price);
+    const withinBand = side === 'buy' ? price.lte(bandPrice) : price.gte(bandPrice);
+    if (!withinBand || filled.gte(requestedSize)) break;
+
+    const take = Decimal.min(level.size, requestedSize.minus(filled));
+    filled = filled.plus(take);
+    cost = cost.plus(take.times(price));
+    limitPrice = price;
+  }
+
+  // A level with an odd size can leave the fill off the increment; drop the excess from the worst level
+  const fillable = roundSize(filled, increment);
+  cost = cost.minus(filled.minus(fillable).times(limitPrice));
+
+  if (!fillable.isPositive()) {
+    return null;
+  }
+
+  return {
+    requestedSize,
+    size: fillable,
+    averagePrice: cost.div(fillable),
+    limitPrice,
+    bandPrice,
+    shrunk: fillable.lt(requestedSize),
+  };
+}
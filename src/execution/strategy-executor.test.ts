@@ -0,0 +1,225 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClobClient } from '@polymarket/clob-client';
+import { StrategyExecutor } from './strategy-executor';
+import { OrderManager } from './order-manager';
+import { MultiplierSizing, PortfolioPercentSizing } from './sizing';
+import { MarketApiClient } from '../clients/market-api-client';
+import { HoldingsLedger } from '../tracking/holdings-ledger';
+import { BalanceStatus, CopyTradingConfig, DecimalString, Position, TradeExecutionResult, TradingStatus } from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+const TARGET = '0x' + '12'.repeat(20);
+
+function position(id: string, quantity: DecimalString, price: DecimalString, marketId = `market-${id}`): Position {
+  return {
+    id,
+    market: { id: marketId, question: `Market ${id}`, slug: `market-${id}` },
+    outcome: 'Yes',
+    quantity,
+    price,
+    value: '0',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+}
+
+function status(positions: Position[]): TradingStatus {
+  return {
+    user: TARGET,
+    totalPositions: positions.length,
+    totalValue: '0',
+    recentTrades: [],
+    openPositions: positions,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stand-in for the CLOB behind the order manager: orders rest unfilled until cancelled
+ */
+class FakeClob {
+  cancelled: string[] = [];
+
+  async getOrder(orderId: string) {
+    const cancelled = this.cancelled.includes(orderId);
+    return { id: orderId, status: cancelled ? 'CANCELED' : 'LIVE', size_matched: '0', associate_trades: [] };
+  }
+
+  async getTrades() {
+    return [];
+  }
+
+  async cancelOrder({ orderID }: { orderID: string }) {
+    this.cancelled.push(orderID);
+    return { canceled: [orderID] };
+  }
+}
+
+/**
+ * Order executor stand-in that posts every buy as a resting order tracked by a real order manager
+ */
+class FakeOrderExecutor {
+  clob = new FakeClob();
+  orderManager = new OrderManager(this.clob as unknown as ClobClient, { timeout: 60000, pollInterval: 60000 });
+  buys: Array<{ tokenId: string; shares: string }> = [];
+  usdcBalance: DecimalString = '0';
+
+  async executeBuy(position: Position, shares: DecimalLike): Promise<TradeExecutionResult> {
+    const orderId = `order-${this.buys.length + 1}`;
+    this.buys.push({ tokenId: position.id, shares: Decimal.from(shares).toString() });
+    this.orderManager.track(orderId, position.id, 'buy', shares, position.price);
+    return { success: true, position, orderId, orderType: 'GTC', orderStatus: 'open', dryRun: false };
+  }
+
+  async getCollateralStatus(): Promise<BalanceStatus> {
+    return { balance: this.usdcBalance, allowance: this.usdcBalance };
+  }
+
+  getOrderManager(): OrderManager {
+    return this.orderManager;
+  }
+}
+
+interface Internals {
+  orderExecutor: FakeOrderExecutor;
+  targets: Array<{ ledger: HoldingsLedger }>;
+  handleStatusUpdate(target: unknown, status: TradingStatus): Promise<void>;
+}
+
+/**
+ * Copy trading executor for one target, trading through a FakeOrderExecutor
+ */
+function createExecutor(config: Partial<CopyTradingConfig> = {}) {
+  const executor = new StrategyExecutor({} as unknown as MarketApiClient, { targetAddress: TARGET }, {
+    enabled: true,
+    privateKey: '0x' + '11'.repeat(32),
+    sizingStrategy: new MultiplierSizing(1),
+    ...config,
+  });
+  const internals = executor as unknown as Internals;
+  internals.orderExecutor = new FakeOrderExecutor();
+
+  const update = (positions: Position[]) => internals.handleStatusUpdate(internals.targets[0], status(positions));
+  return { executor, orderExecutor: internals.orderExecutor, ledger: internals.targets[0].ledger, update };
+}
+
+test('stop cancels copy orders still resting on the CLOB', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, orderExecutor, update } = createExecutor();
+
+  await update([]);
+  await update([position('token-1', '10', '0.5')]);
+  assert.equal(orderExecutor.orderManager.getOpenOrders().length, 1);
+
+  await executor.stop();
+  assert.deepEqual(orderExecutor.clob.cancelled, ['order-1']);
+  assert.deepEqual(orderExecutor.orderManager.getOpenOrders(), []);
+});
+
+test('unfilled buy orders count towards the risk limits of the next buy', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, orderExecutor, update } = createExecutor({
+    riskLimits: { maxTotalExposure: 8, maxMarketExposure: 6, maxOpenPositions: 2 },
+  });
+
+  await update([]);
+  // $5 resting in market-1, then $5 more in the same market: $1 of market room left at 0.5
+  await update([position('token-1', '10', '0.5', 'market-1')]);
+  await update([position('token-1', '10', '0.5', 'market-1'), position('token-2', '10', '0.5', 'market-1')]);
+  assert.deepEqual(orderExecutor.buys, [
+    { tokenId: 'token-1', shares: '10' },
+    { tokenId: 'token-2', shares: '2' },
+  ]);
+
+  // $6 resting across two positions: a third position is over the open position limit
+  await update([
+    position('token-1', '10', '0.5', 'market-1'),
+    position('token-2', '10', '0.5', 'market-1'),
+    position('token-3', '1', '0.5', 'market-3'),
+  ]);
+  assert.equal(orderExecutor.buys.length, 2);
+  await executor.stop();
+});
+
+test('portfolio sizing uses the live USDC balance plus held positions at market prices', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, orderExecutor, ledger, update } = createExecutor({ sizingStrategy: new PortfolioPercentSizing(10) });
+  orderExecutor.usdcBalance = '80';
+  ledger.recordBuy('token-0', '20', '0.5');
+
+  // 20 shares bought at 0.5 now mark at 1: $80 + $20 = $100, and 10% of it buys 20 shares at 0.5
+  await update([position('token-0', '50', '1')]);
+  await update([position('token-0', '50', '1'), position('token-1', '10', '0.5')]);
+  assert.deepEqual(orderExecutor.buys, [{ tokenId: 'token-1', shares: '20' }]);
+  await executor.stop();
+});
+
+test('the configured portfolio value caps the live value', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, orderExecutor, update } = createExecutor({
+    sizingStrategy: new PortfolioPercentSizing(10),
+    portfolioValue: 50,
+  });
+  orderExecutor.usdcBalance = '100';
+
+  await update([]);
+  await update([position('token-1', '10', '0.5')]);
+  assert.deepEqual(orderExecutor.buys, [{ tokenId: 'token-1', shares: '10' }]);
+  await executor.stop();
+});
+
+test('ignore-existing copies only positions opened after the first update', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, orderExecutor, update } = createExecutor({ startupPolicy: 'ignore-existing' });
+
+  await update([position('token-1', '10', '0.5')]);
+  assert.deepEqual(orderExecutor.buys, []);
+
+  await update([position('token-1', '10', '0.5'), position('token-2', '4', '0.5')]);
+  assert.deepEqual(orderExecutor.buys, [{ tokenId: 'token-2', shares: '4' }]);
+  await executor.stop();
+});
+
+test('mirror-existing buys every position the target holds at startup', async t => {
+  t.mock.method(console, 'log', () => {});
+  const { executor, orderExecutor, update } = createExecutor({ startupPolicy: 'mirror-existing' });
+
+  await update([position('token-1', '10', '0.5'), position('token-2', '4', '0.5')]);
+  assert.deepEqual(orderExecutor.buys, [
+    { tokenId: 'token-1', shares: '10' },
+    { tokenId: 'token-2', shares: '4' },
+  ]);
+  await executor.stop();
+});
+
+test('ask mirrors the existing positions only when the operator confirms', async t => {
+  t.mock.method(console, 'log', () => {});
+  const existing = [position('token-1', '10', '0.5')];
+
+  for (const answer of [true, false]) {
+    const asked: Position[][] = [];
+    const { executor, orderExecutor, update } = createExecutor({
+      startupPolicy: 'ask',
+      confirmExistingPositions: async positions => {
+        asked.push(positions);
+        return answer;
+      },
+    });
+
+    await update(existing);
+    assert.deepEqual(asked, [existing]);
+    assert.equal(orderExecutor.buys.length, answer ? 1 : 0);
+    await executor.stop();
+  }
+});
+
+test('ask ignores the existing positions when there is no terminal to confirm on', async t => {
+  t.mock.method(console, 'log', () => {});
+  const warn = t.mock.method(console, 'warn', () => {});
+  const { executor, orderExecutor, update } = createExecutor({ startupPolicy: 'ask' });
+
+  await update([position('token-1', '10', '0.5')]);
+  assert.deepEqual(orderExecutor.buys, []);
+  assert.match(String(warn.mock.calls[0]?.arguments[0]), /No terminal available/);
+  await executor.stop();
+});
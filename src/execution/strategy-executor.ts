@@ -1,20 +1,124 @@
 import { PositionTracker } from '../tracking/position-tracker';
+import { RoundRobinScheduler } from '../tracking/poll-scheduler';
 import { MarketApiClient } from '../clients/market-api-client';
 import { OrderExecutor } from './order-executor';
-import { Position, TradingStatus, MonitorOptions, CopyTradingConfig, CopyTradingStatus } from '../types';
+import { diffPositions } from '../tracking/position-diff';
+import { HoldingsLedger } from '../tracking/holdings-ledger';
+import { MultiplierSizing, PORTFOLIO_SIZING_STRATEGIES } from './sizing';
+import { RiskManager } from '../risk/risk-manager';
+import { MarketFilterChain } from './market-filters';
+import { ConsensusTracker } from './consensus';
+import { Decimal } from '../utils/decimal';
+import { ClobEvent, ClobWebSocket } from '../clients/clob-websocket';
+import { STATE_SCHEMA_VERSION } from '../storage/state-store';
+import { confirm, isInteractive } from '../utils/prompt';
+import {
+  Position,
+  TradingStatus,
+  MonitorOptions,
+  CopyTradingConfig,
+  CopyTradingStatus,
+  PositionChangeEvent,
+  PositionChangeType,
+  Trade,
+  TradeExecutionResult,
+  OrderFill,
+  StartupPolicy,
+  StateStore,
+  PersistedState,
+  ReconciliationReport,
+  SizingStrategy,
+  FilterResult,
+  TargetConfig,
+  TargetSnapshot,
+  TradeCounters,
+  PollScheduler,
+  ConsensusSignal,
+  TargetTradingStats,
+  DecimalString,
+  HoldingEntry,
+} from '../types';
+
+const CHANGE_ICONS: Record<PositionChangeType, string> = {
+  opened: '🆕',
+  increased: '📈',
+  decreased: '📉',
+  closed: '❌',
+  flipped: '🔄',
+};
+
+/**
+ * Address under which consensus positions are saved and reported
+ */
+const CONSENSUS_SOURCE = 'consensus';
+
+/**
+ * What our copies are attributed to: a single target, or the consensus of several targets
+ */
+interface CopySource {
+  address: string;
+  label: string;
+  ledger: HoldingsLedger; // Shares we hold from these copies, from our own fills
+  sizingStrategy: SizingStrategy;
+  bankroll: Decimal; // Cap on the portfolio value its buys are sized from; the portfolio value itself in dry runs
+  filterChain: MarketFilterChain;
+  portfolioValue: Decimal; // Target's total position value from the latest update
+  stats: TradeCounters;
+}
+
+/**
+ * Runtime state of one copied wallet
+ */
+interface CopyTarget extends CopySource {
+  enabled: boolean;
+  weight: number; // Vote weight in consensus mode
+  tracker: PositionTracker;
+  positions: Map<string, Position>; // Target's positions at the last update
+  baselineTaken: boolean; // Whether the startup snapshot of the target has been handled
+}
+
+/**
+ * A posted copy order whose fills are recorded as they arrive
+ */
+interface PendingCopy {
+  source: CopySource;
+  side: 'buy' | 'sell';
+  position: Position;
+  signal?: ConsensusSignal;
+}
+
+function emptyCounters(): TradeCounters {
+  return { totalTradesExecuted: 0, totalTradesFailed: 0, totalVolume: '0' };
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
 
 /**
  * Strategy Executor
- * Wraps PositionTracker and executes trades to copy the target account's positions
+ * Tracks one or more target accounts and executes trades to copy their positions.
+ * Targets share the order executor, risk manager and state; each keeps its own
+ * snapshot, holdings, sizing, filters and stats.
  */
 export class StrategyExecutor {
-  private positionTracker: PositionTracker;
+  private targets: CopyTarget[];
+  private retiredTargets: TargetSnapshot[] = []; // Saved targets no longer configured; their holdings still count
+  private scheduler: PollScheduler;
   private orderExecutor: OrderExecutor;
   private config: CopyTradingConfig;
-  private stats: CopyTradingStatus;
+  private stats: Omit<CopyTradingStatus, 'byTarget'>;
   private executedPositions: Set<string> = new Set(); // Track positions we've already executed
-  private targetPositions: Map<string, Position> = new Map(); // Track target's current positions
-  private targetAddress: string;
+  private startupPolicy: StartupPolicy;
+  private updateQueue: Promise<void> = Promise.resolve(); // Serializes status updates across targets
+  private stateStore?: StateStore;
+  private client: MarketApiClient;
+  private riskManager: RiskManager;
+  private consensus?: ConsensusTracker; // Set in consensus mode
+  private consensusSource: CopySource;
+  private monitorOptions: MonitorOptions;
+  private userChannel?: ClobWebSocket; // Fill events of our own orders when WebSocket monitoring is enabled
+  private pendingCopies: Map<string, PendingCopy> = new Map(); // Posted orders by ID, until settled
 
   constructor(
     client: MarketApiClient,
@@ -22,10 +126,26 @@ export class StrategyExecutor {
     copyTradingConfig: CopyTradingConfig
   ) {
     this.config = copyTradingConfig;
-    this.targetAddress = monitorOptions.targetAddress;
+    this.client = client;
+    this.monitorOptions = monitorOptions;
+    this.startupPolicy = copyTradingConfig.startupPolicy ?? 'ignore-existing';
+    this.stateStore = copyTradingConfig.stateStore;
+    this.riskManager = new RiskManager(copyTradingConfig.riskLimits);
+    this.scheduler = monitorOptions.scheduler ??
+      new RoundRobinScheduler(monitorOptions.pollInterval ?? 30000);
     
-    // Initialize order executor
-    this.orderExecutor = new OrderExecutor(copyTradingConfig);
+    // Initialize order executor; fills of posted orders are recorded as the order manager reports them
+    this.orderExecutor = new OrderExecutor({
+      ...copyTradingConfig,
+      onOrderFill: (result: TradeExecutionResult, fill: OrderFill) => {
+        copyTradingConfig.onOrderFill?.(result, fill);
+        this.handleOrderFill(result, fill);
+      },
+      onOrderSettled: (result: TradeExecutionResult) => {
+        copyTradingConfig.onOrderSettled?.(result);
+        this.handleOrderSettled(result);
+      },
+    }, client);
     
     // Initialize statistics
     this.stats = {
@@ -36,18 +156,71 @@ export class StrategyExecutor {
       totalVolume: '0',
     };
 
+    const targetConfigs = copyTradingConfig.targets ?? [{ address: monitorOptions.targetAddress }];
+    if (targetConfigs.length === 0) {
+      throw new Error('At least one target is required');
+    }
+    const addresses = targetConfigs.map(t => t.address.toLowerCase());
+    const duplicate = addresses.find((address, i) => addresses.indexOf(address) !== i);
+    if (duplicate) {
+      throw new Error(`Target ${duplicate} is configured more than once`);
+    }
+
+    this.targets = targetConfigs.map(targetConfig => this.createTarget(targetConfig, monitorOptions));
+
+    this.consensusSource = {
+      address: CONSENSUS_SOURCE,
+      label: CONSENSUS_SOURCE,
+      ledger: new HoldingsLedger(),
+      sizingStrategy: copyTradingConfig.sizingStrategy ??
+        new MultiplierSizing(copyTradingConfig.positionSizeMultiplier ?? 1.0),
+      bankroll: Decimal.from(copyTradingConfig.portfolioValue ?? 0),
+      filterChain: new MarketFilterChain(copyTradingConfig.marketFilters),
+      portfolioValue: Decimal.ZERO,
+      stats: emptyCounters(),
+    };
+    if (copyTradingConfig.consensus && copyTradingConfig.consensus.minWallets > 0) {
+      this.consensus = new ConsensusTracker(
+        copyTradingConfig.consensus,
+        this.targets.filter(t => t.enabled).map(t => ({ address: t.address, weight: t.weight }))
+      );
+    }
+
+    const sources: CopySource[] = [...this.targets.filter(t => t.enabled), ...(this.consensus ? [this.consensusSource] : [])];
+    for (const source of sources) {
+      if (this.config.dryRun && PORTFOLIO_SIZING_STRATEGIES.includes(source.sizingStrategy.name) && !source.bankroll.isPositive()) {
+        throw new Error(
+          `${source.label}: the ${source.sizingStrategy.name} sizing strategy needs a portfolio value greater than 0 in dry run mode`
+        );
+      }
+    }
+  }
+
+  /**
+   * Create the runtime state and position tracker of a target
+   */
+  private createTarget(targetConfig: TargetConfig, monitorOptions: MonitorOptions): CopyTarget {
+    const label = targetConfig.label || shortAddress(targetConfig.address);
+
     // Create position tracker with custom update handler
-    this.positionTracker = new PositionTracker(client, {
+    const tracker = new PositionTracker(this.client, {
       ...monitorOptions,
+      targetAddress: targetConfig.address,
+      scheduler: this.scheduler,
       onUpdate: (status: TradingStatus) => {
         // Call original callback if provided
         if (monitorOptions.onUpdate) {
           monitorOptions.onUpdate(status);
         }
         
-        // Execute copy trading logic
+        // Execute copy trading logic, one update at a time across all targets
         if (this.config.enabled) {
-          this.handleStatusUpdate(status);
+          this.updateQueue = this.updateQueue
+            .then(() => this.handleStatusUpdate(target, status))
+            .catch((error: unknown) => {
+              const message = error instanceof Error ? error.message : String(error);
+              console.error(`[${label}] Error handling status update:`, message);
+            });
         }
       },
       onError: (error: Error) => {
@@ -56,9 +229,28 @@ export class StrategyExecutor {
           monitorOptions.onError(error);
         }
         
-        console.error('Copy trading monitor error:', error);
+        console.error(`[${label}] Copy trading monitor error:`, error);
       },
     });
+
+    const target: CopyTarget = {
+      address: targetConfig.address,
+      label,
+      enabled: targetConfig.enabled ?? true,
+      weight: targetConfig.weight ?? 1,
+      tracker,
+      positions: new Map(),
+      baselineTaken: false,
+      ledger: new HoldingsLedger(),
+      sizingStrategy: targetConfig.sizingStrategy ?? this.config.sizingStrategy ??
+        new MultiplierSizing(this.config.positionSizeMultiplier ?? 1.0),
+      bankroll: Decimal.from(targetConfig.portfolioValue ?? this.config.portfolioValue ?? 0),
+      filterChain: new MarketFilterChain(targetConfig.marketFilters ?? this.config.marketFilters),
+      portfolioValue: Decimal.ZERO,
+      stats: emptyCounters(),
+    };
+
+    return target;
   }
 
   /**
@@ -67,19 +259,49 @@ export class StrategyExecutor {
   async start(): Promise<void> {
     if (!this.config.enabled) {
       console.log('⚠️  Copy trading is disabled. Starting monitor only...');
-      await this.positionTracker.start();
+      await this.startTrackers();
       return;
     }
 
     console.log('🚀 Starting copy trading monitor...');
-    console.log(`📊 Target address: ${this.targetAddress}`);
-    console.log(`👛 Trading wallet: ${this.orderExecutor.getWalletAddress()}`);
+    const signerAddress = await this.orderExecutor.loadWalletAddress();
+    const funderAddress = this.orderExecutor.getFunderAddress();
+    console.log(`👛 Trading wallet: ${funderAddress}` + (funderAddress !== signerAddress ? ` (signer ${signerAddress})` : ''));
     
     if (this.config.dryRun) {
       console.log('🔍 DRY RUN MODE: No actual trades will be executed');
     } else {
       console.log('✅ LIVE MODE: Trades will be executed');
     }
+    console.log(`🧭 Startup policy: ${this.startupPolicy}`);
+    console.log(`📊 Targets (${this.targets.length}):`);
+    this.targets.forEach(target => {
+      const filterNames = target.filterChain.getFilterNames();
+      console.log(
+        `   ${target.enabled ? '✅' : '⏸️ '} ${target.label} (${target.address}): ` +
+        `sizing ${target.sizingStrategy.name}, filters ${filterNames.length > 0 ? filterNames.join(', ') : 'none'}` +
+        (this.consensus ? `, weight ${target.weight}` : '')
+      );
+    });
+    if (this.consensus && this.config.consensus) {
+      const enabled = this.targets.filter(t => t.enabled).length;
+      console.log(
+        `🤝 Consensus mode: copying outcomes opened by ${this.config.consensus.minWallets} of ${enabled} targets ` +
+        `within ${this.config.consensus.window / 1000}s`
+      );
+    }
+
+    await this.loadState();
+
+    if (!this.config.dryRun) {
+      try {
+        await this.adoptWalletHoldings();
+        await this.reconcileHoldings();
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  Holdings reconciliation failed: ${message}`);
+      }
+    }
 
     // Initialize trade executor
     try {
@@ -92,130 +314,833 @@ export class StrategyExecutor {
       }
     }
 
+    if (this.monitorOptions.enableWebSocket && !this.config.dryRun) {
+      this.startUserChannel();
+    }
+
     // Start monitoring
-    await this.positionTracker.start();
+    await this.startTrackers();
     console.log('✅ Copy trading monitor started');
   }
 
   /**
-   * Stop monitoring and copy trading
+   * Subscribe to the CLOB user channel so order fills are picked up without waiting for the next status poll
+   */
+  private startUserChannel(): void {
+    const creds = this.orderExecutor.getApiCredentials();
+    if (!creds) {
+      console.warn('⚠️  No CLOB API credentials, order fills are polled');
+      return;
+    }
+
+    this.userChannel = new ClobWebSocket({
+      url: this.monitorOptions.webSocketUrl,
+      channel: 'user',
+      credentials: { apiKey: creds.key, secret: creds.secret, passphrase: creds.passphrase },
+      onEvent: (event: ClobEvent) => this.handleUserEvent(event),
+      onHealthChange: (healthy: boolean) => {
+        if (!healthy && this.userChannel) {
+          console.warn('⚠️  User channel unavailable, polling order status');
+        }
+      },
+    });
+    this.syncUserChannel();
+    this.userChannel.connect();
+  }
+
+  /**
+   * Follow the markets the targets and we hold, so fills of copies in them are streamed
+   */
+  private syncUserChannel(): void {
+    if (!this.userChannel) return;
+
+    const marketIds = new Set<string>();
+    this.targets.forEach(target => target.positions.forEach(p => p.market.id && marketIds.add(p.market.id)));
+    this.getCombinedLedger().getEntries().forEach(entry => entry.marketId && marketIds.add(entry.marketId));
+    this.userChannel.setSubscriptions(Array.from(marketIds));
+  }
+
+  /**
+   * Wake the order manager for orders mentioned in an order or trade event
    */
-  stop(): void {
-    this.positionTracker.stop();
+  private handleUserEvent(event: ClobEvent): void {
+    const orderIds: string[] = [];
+
+    if (event.event_type === 'order') {
+      orderIds.push(event.id);
+    } else if (event.event_type === 'trade') {
+      if (event.taker_order_id) orderIds.push(event.taker_order_id);
+      event.maker_orders.forEach(maker => orderIds.push(maker.order_id));
+    }
+
+    const orderManager = this.orderExecutor.getOrderManager();
+    orderIds.forEach(orderId => orderManager.notify(orderId));
+  }
+
+  /**
+   * Start the trackers of enabled targets; the shared scheduler spreads their polls
+   */
+  private async startTrackers(): Promise<void> {
+    for (const target of this.targets) {
+      if (target.enabled) {
+        await target.tracker.start();
+      } else {
+        console.log(`⏸️  Target ${target.label} is disabled, not tracking it`);
+      }
+    }
+  }
+
+  /**
+   * Stop monitoring and copy trading. Open copy orders are cancelled first: resting orders
+   * would keep filling after exit, outside the ledger and risk limits.
+   */
+  async stop(): Promise<void> {
+    this.targets.forEach(target => target.tracker.stop());
+
+    const orderManager = this.orderExecutor.getOrderManager();
+    orderManager.stop();
+    for (const order of await orderManager.cancelOpenOrders()) {
+      console.warn(`⚠️  Order ${order.orderId} could not be cancelled and stays open on the CLOB`);
+    }
+
+    const userChannel = this.userChannel;
+    this.userChannel = undefined;
+    userChannel?.close();
+    await this.saveState();
     console.log('🛑 Copy trading monitor stopped');
   }
 
   /**
    * Handle status updates and execute copy trades
    */
-  private async handleStatusUpdate(status: TradingStatus): Promise<void> {
-    const currentPositions = new Map<string, Position>();
-    status.openPositions.forEach(pos => {
-      currentPositions.set(pos.id, pos);
+  private async handleStatusUpdate(target: CopyTarget, status: TradingStatus): Promise<void> {
+    target.portfolioValue = Decimal.parse(status.totalValue);
+    this.riskManager.updateMarkPrices(status.openPositions);
+
+    if (!target.baselineTaken) {
+      await this.applyStartupPolicy(target, status);
+      return;
+    }
+
+    const events = diffPositions(Array.from(target.positions.values()), status.openPositions);
+
+    // Update target positions map before trading so overlapping updates diff against the latest snapshot
+    target.positions = new Map(status.openPositions.map(pos => [pos.id, pos]));
+
+    // Subscribe before trading so fills of the copies below are streamed
+    this.syncUserChannel();
+
+    for (const event of events) {
+      await this.handlePositionChange(target, event);
+    }
+    this.reportNettedFills(target, events, status.recentTrades);
+
+    await this.saveState();
+  }
+
+  /**
+   * Handle the positions the target already holds on the first update
+   */
+  private async applyStartupPolicy(target: CopyTarget, status: TradingStatus): Promise<void> {
+    const existing = status.openPositions;
+    target.positions = new Map(existing.map(pos => [pos.id, pos]));
+    target.baselineTaken = true;
+
+    await this.saveState();
+
+    if (existing.length === 0) {
+      console.log(`📸 Baseline snapshot: ${target.label} holds no positions`);
+      return;
+    }
+
+    let mirror = this.startupPolicy === 'mirror-existing';
+    if (this.startupPolicy === 'ask') {
+      console.log(`\n📋 ${target.label} already holds ${existing.length} positions:`);
+      existing.forEach((pos, i) => {
+        console.log(`   ${i + 1}. ${pos.market.question} - ${pos.outcome}: ${pos.quantity} shares @ $${pos.price}`);
+      });
+      mirror = await this.confirmExistingPositions(existing);
+    }
+
+    if (!mirror) {
+      console.log(
+        `📸 Baseline snapshot: ignoring ${existing.length} existing positions of ${target.label}, ` +
+        'copying only later changes'
+      );
+      return;
+    }
+
+    // Size into the current portfolio at current prices; the executor applies the size limits
+    console.log(`🪞 Mirroring ${existing.length} existing positions of ${target.label} at current prices...`);
+    for (const position of existing) {
+      await this.copyOpen(target, this.toTradePosition(position, position.quantity, position.price));
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Restore executed positions, target snapshot and stats from the state store
+   */
+  private async loadState(): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    const state = await this.stateStore.load();
+    if (!state) {
+      console.log('💾 No saved state found, starting fresh');
+      return;
+    }
+
+    this.executedPositions = new Set(state.executedPositions);
+    this.riskManager = new RiskManager(this.config.riskLimits, state.risk);
+    this.stats = {
+      ...state.stats,
+      enabled: this.stats.enabled,
+      dryRun: this.stats.dryRun,
+    };
+
+    const snapshots = [...state.targets];
+    const consensusIndex = snapshots.findIndex(s => s.address === CONSENSUS_SOURCE);
+    if (consensusIndex !== -1) {
+      const snapshot = snapshots.splice(consensusIndex, 1)[0];
+      this.consensusSource.ledger = new HoldingsLedger(snapshot.holdings);
+      this.consensusSource.stats = { ...snapshot.stats };
+    }
+    this.consensus?.restoreHoldings(state.consensus);
+
+    for (const target of this.targets) {
+      const index = snapshots.findIndex(s => s.address.toLowerCase() === target.address.toLowerCase());
+      if (index === -1) continue;
+      this.restoreTarget(target, snapshots.splice(index, 1)[0]);
+    }
+
+    // A snapshot saved before multi-target support belongs to the single target configured then
+    const legacyIndex = snapshots.findIndex(s => s.address === '');
+    if (legacyIndex !== -1 && !this.targets[0].baselineTaken) {
+      this.restoreTarget(this.targets[0], snapshots.splice(legacyIndex, 1)[0]);
+    }
+
+    this.retiredTargets = snapshots;
+    if (this.retiredTargets.length > 0) {
+      console.log(
+        `   Keeping holdings of ${this.retiredTargets.length} target(s) no longer configured: ` +
+        this.retiredTargets.map(s => s.address || '(unknown)').join(', ')
+      );
+    }
+
+    console.log(
+      `💾 Restored state from ${state.updatedAt}: ` +
+      `${this.executedPositions.size} copied positions across ${state.targets.length} target(s)`
+    );
+    if (state.startupPolicy !== this.startupPolicy) {
+      console.log(`   Saved state was created with startup policy: ${state.startupPolicy}`);
+    }
+  }
+
+  /**
+   * Restore a target's snapshot, holdings and stats
+   */
+  private restoreTarget(target: CopyTarget, snapshot: TargetSnapshot): void {
+    target.baselineTaken = snapshot.baselineTaken;
+    target.positions = new Map(snapshot.positions.map(pos => [pos.id, pos]));
+    target.ledger = new HoldingsLedger(snapshot.holdings);
+    target.stats = { ...snapshot.stats };
+  }
+
+  /**
+   * Persist the current state to the state store
+   */
+  private async saveState(): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    try {
+      await this.stateStore.save(this.getState());
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Failed to save state:', message);
+    }
+  }
+
+  /**
+   * Snapshot of the state that survives restarts
+   */
+  private getState(): PersistedState {
+    return {
+      version: STATE_SCHEMA_VERSION,
+      startupPolicy: this.startupPolicy,
+      executedPositions: Array.from(this.executedPositions),
+      targets: [
+        ...this.targets.map(target => ({
+          address: target.address,
+          baselineTaken: target.baselineTaken,
+          positions: Array.from(target.positions.values()),
+          holdings: target.ledger.getEntries(),
+          stats: { ...target.stats },
+        })),
+        ...this.retiredTargets,
+        ...(this.consensusSource.ledger.getEntries().length > 0 || this.consensus
+          ? [{
+              address: CONSENSUS_SOURCE,
+              baselineTaken: true,
+              positions: [],
+              holdings: this.consensusSource.ledger.getEntries(),
+              stats: { ...this.consensusSource.stats },
+            }]
+          : []),
+      ],
+      consensus: this.consensus?.getHoldings() ?? [],
+      risk: this.riskManager.getState(),
+      stats: { ...this.stats },
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Ask whether existing positions should be mirrored
+   */
+  private async confirmExistingPositions(positions: Position[]): Promise<boolean> {
+    if (this.config.confirmExistingPositions) {
+      return this.config.confirmExistingPositions(positions);
+    }
+
+    if (!isInteractive()) {
+      console.warn('⚠️  No terminal available to confirm existing positions, ignoring them');
+      return false;
+    }
+
+    return confirm(`Mirror these ${positions.length} positions now?`);
+  }
+
+  /**
+   * Report fills from the trade feed in tokens whose position did not change between two polls.
+   * These round-trips net out, so there is nothing to copy, but they show the target's activity.
+   */
+  private reportNettedFills(target: CopyTarget, events: PositionChangeEvent[], trades: Trade[]): void {
+    const changed = new Set<string>();
+    events.forEach(event => {
+      changed.add(event.position.id);
+      if (event.previous) changed.add(event.previous.id);
     });
 
-    // Detect new positions (positions in current but not in target)
-    const newPositions: Position[] = [];
-    for (const [id, position] of currentPositions) {
-      if (!this.targetPositions.has(id)) {
-        newPositions.push(position);
+    const byToken = new Map<string, Trade[]>();
+    trades
+      .filter(trade => trade.tokenId && !changed.has(trade.tokenId))
+      .forEach(trade => byToken.set(trade.tokenId!, [...(byToken.get(trade.tokenId!) ?? []), trade]));
+
+    for (const fills of byToken.values()) {
+      const describe = (side: 'buy' | 'sell'): string => {
+        const sideFills = fills.filter(fill => fill.side === side);
+        const shares = Decimal.sum(sideFills.map(fill => Decimal.parse(fill.quantity)));
+        const cost = Decimal.sum(sideFills.map(fill => Decimal.parse(fill.quantity).times(Decimal.parse(fill.price))));
+        return `${side === 'buy' ? 'bought' : 'sold'} ${shares.toFixed(2)} @ $${shares.isPositive() ? cost.div(shares).toFixed(4) : '0'}`;
+      };
+
+      console.log(
+        `🔁 [${target.label}] Round-trip between polls on ${fills[0].outcome || fills[0].tokenId} ` +
+        `(${fills[0].market.question.substring(0, 50)}): ${describe('buy')}, ${describe('sell')}; position unchanged, nothing to copy`
+      );
+    }
+  }
+
+  /**
+   * Copy a single position change proportionally
+   */
+  private async handlePositionChange(target: CopyTarget, event: PositionChangeEvent): Promise<void> {
+    const { position, previous } = event;
+
+    console.log(`\n${CHANGE_ICONS[event.type]} [${target.label}] Position ${event.type}: ${position.market.question}`);
+    console.log(`   Outcome: ${position.outcome}`);
+    console.log(`   Delta: ${event.delta} shares @ $${event.price}`);
+
+    switch (event.type) {
+      case 'opened':
+        await this.copyOpen(target, this.toTradePosition(position, event.delta, event.price));
+        break;
+
+      case 'increased':
+        if (this.consensus) {
+          console.log('   Consensus mode: adds to existing positions are not copied');
+          break;
+        }
+        await this.copyBuy(target, this.toTradePosition(position, event.delta, event.price));
+        break;
+
+      case 'decreased': {
+        // Reduce our holding by the same fraction the target reduced theirs
+        const previousQty = Decimal.parse(previous?.quantity);
+        const fraction = previousQty.isPositive() ? Decimal.parse(event.delta).div(previousQty) : Decimal.ZERO;
+        if (previous && target.ledger.getQuantity(position.id).isPositive()) {
+          await this.copySell(target, this.toTradePosition(position, event.delta, event.price), fraction, false);
+        }
+        await this.exitConsensus(target, this.toTradePosition(position, event.delta, event.price), fraction);
+        break;
       }
+
+      case 'closed':
+        if (target.ledger.getQuantity(position.id).isPositive()) {
+          await this.copySell(target, this.toTradePosition(position, event.delta, event.price), Decimal.ONE, true);
+        }
+        await this.exitConsensus(target, this.toTradePosition(position, event.delta, event.price), Decimal.ONE);
+        break;
+
+      case 'flipped':
+        if (previous && target.ledger.getQuantity(previous.id).isPositive()) {
+          console.log(`   Exiting previous outcome: ${previous.outcome}`);
+          await this.copySell(target, previous, Decimal.ONE, true);
+        }
+        if (previous) {
+          await this.exitConsensus(target, previous, Decimal.ONE);
+        }
+        await this.copyOpen(target, this.toTradePosition(position, event.delta, event.price));
+        break;
+    }
+  }
+
+  /**
+   * Copy a newly opened position, or count it as a vote in consensus mode
+   */
+  private async copyOpen(target: CopyTarget, position: Position): Promise<void> {
+    if (!this.consensus) {
+      await this.copyBuy(target, position);
+      return;
     }
 
-    // Detect closed positions (positions in target but not in current)
-    const closedPositions: Position[] = [];
-    for (const [id, position] of this.targetPositions) {
-      if (!currentPositions.has(id)) {
-        closedPositions.push(position);
+    const signal = this.consensus.vote(target.address, position);
+    if (!signal) {
+      const votes = this.consensus.getVoteCount(position.id);
+      console.log(`   🗳️  Consensus vote ${votes}/${this.config.consensus?.minWallets}: waiting for more targets`);
+      return;
+    }
+
+    console.log(
+      `   🤝 Consensus reached: ${signal.agreeing}/${signal.total} targets ` +
+      `(weight ${signal.weight}/${signal.totalWeight}) opened ${position.outcome}: ` +
+      this.targets.filter(t => signal.wallets.includes(t.address)).map(t => t.label).join(', ')
+    );
+    await this.copyBuy(this.consensusSource, signal.position, signal);
+  }
+
+  /**
+   * Follow a consensus contributor out of a position we bought on its agreement
+   * @param fraction - Share of its position the target sold (1 = closed)
+   */
+  private async exitConsensus(target: CopyTarget, position: Position, fraction: Decimal): Promise<void> {
+    if (!this.consensus) {
+      return;
+    }
+
+    if (fraction.gte(Decimal.ONE)) {
+      this.consensus.withdraw(target.address, position.id);
+    }
+
+    if (!this.consensusSource.ledger.getQuantity(position.id).isPositive()) {
+      return;
+    }
+
+    const share = this.consensus.exitShare(target.address, position.id, fraction);
+    if (share.isPositive()) {
+      console.log(`   🤝 Contributor ${target.label} exited; selling ${share.times(100).toFixed(1)}% of the consensus position`);
+      await this.copySell(this.consensusSource, position, share, share.gte(Decimal.ONE));
+    }
+  }
+
+  /**
+   * Build the position passed to the order executor for a delta.
+   * Value is kept at the full position so maxPositionSize still applies to the whole position.
+   */
+  private toTradePosition(position: Position, quantity: DecimalString, price: DecimalString): Position {
+    return { ...position, quantity, price };
+  }
+
+  /**
+   * Execute a copy buy sized by the sizing strategy and record the result.
+   * Consensus buys are scaled by the agreeing share of the targets' total weight.
+   */
+  private async copyBuy(target: CopySource, position: Position, signal?: ConsensusSignal): Promise<void> {
+    try {
+      const filterResult = await this.applyFilters(target.filterChain, position);
+      if (!filterResult.passed) {
+        console.log(`   🚫 Skipped by ${filterResult.filter} filter: ${filterResult.reason}`);
+        return;
+      }
+
+      const price = Decimal.parse(position.price);
+      const decision = target.sizingStrategy.size({
+        position,
+        price,
+        targetPortfolioValue: target.portfolioValue,
+        portfolioValue: PORTFOLIO_SIZING_STRATEGIES.includes(target.sizingStrategy.name)
+          ? await this.getPortfolioValue(target)
+          : target.bankroll,
+      });
+      const inputs = Object.entries(decision.inputs).map(([key, value]) => `${key}=${value}`).join(', ');
+      console.log(`   📐 Size (${target.sizingStrategy.name}): ${decision.quantity.toFixed(4)} shares [${inputs}]`);
+
+      let quantity = decision.quantity;
+      if (signal) {
+        quantity = quantity.times(signal.scale);
+        console.log(`   🤝 Scaled by consensus weight ${(signal.scale * 100).toFixed(1)}%: ${quantity.toFixed(4)} shares`);
+      }
+
+      if (!quantity.isPositive()) {
+        console.log('   Skipping: sizing strategy returned zero shares');
+        return;
+      }
+
+      const risk = this.riskManager.checkBuy(position, quantity, price, this.getCombinedLedger().getEntries(), this.getPendingBuys());
+      if (!risk.allowed) {
+        console.log(`   🛡️  Skipping buy: ${risk.reason}`);
+        await this.saveState();
+        return;
       }
+      if (risk.reason) {
+        console.log(`   🛡️  Buy ${risk.reason}`);
+      }
+
+      const result = await this.orderExecutor.executeBuy(position, risk.quantity, signal?.wallets);
+
+      if (result.success) {
+        await this.recordExecution({ source: target, side: 'buy', position, signal }, result);
+      } else {
+        this.recordFailure(target);
+        console.error(`Failed to execute buy order: ${result.error}`);
+      }
+    } catch (error: unknown) {
+      this.recordFailure(target);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error executing buy order:`, message);
+    }
+  }
+
+  /**
+   * Our portfolio value for sizing: the wallet's USDC plus our holdings at their mark prices,
+   * capped by the source's bankroll when one is set. Dry runs have no wallet and use the bankroll.
+   */
+  private async getPortfolioValue(source: CopySource): Promise<Decimal> {
+    if (this.config.dryRun) {
+      return source.bankroll;
     }
 
-    // Execute buy orders for new positions
-    for (const position of newPositions) {
-      // Skip if we already executed this position
-      if (this.executedPositions.has(position.id)) {
-        continue;
+    const { balance } = await this.orderExecutor.getCollateralStatus();
+    const value = Decimal.from(balance).plus(this.riskManager.getMarketValue(this.getCombinedLedger().getEntries()));
+    return source.bankroll.isPositive() ? Decimal.min(value, source.bankroll) : value;
+  }
+
+  /**
+   * Execute a copy sell sized from the holdings ledger and record the result
+   * @param fraction - Share of our holding to sell (1 sells everything)
+   */
+  private async copySell(
+    target: CopySource,
+    position: Position,
+    fraction: Decimal,
+    closesPosition: boolean
+  ): Promise<void> {
+    try {
+      const held = await this.getSellableQuantity(target, position.id);
+      const shares = closesPosition ? held : held.times(Decimal.min(fraction, Decimal.ONE));
+
+      if (!shares.isPositive()) {
+        console.log(`   Nothing to sell: no shares of ${position.id} held`);
+        return;
       }
 
-      try {
-        console.log(`\n🆕 New position detected: ${position.market.question}`);
-        console.log(`   Outcome: ${position.outcome}`);
-        console.log(`   Quantity: ${position.quantity} shares @ $${position.price}`);
-        
-        const result = await this.orderExecutor.executeBuy(position);
-        
-        if (result.success) {
-          this.executedPositions.add(position.id);
-          this.stats.totalTradesExecuted++;
-          const tradeValue = parseFloat(result.executedQuantity || '0') * parseFloat(result.executedPrice || '0');
-          this.stats.totalVolume = (parseFloat(this.stats.totalVolume) + tradeValue).toFixed(2);
-          this.stats.lastTradeTime = new Date().toISOString();
-        } else {
-          this.stats.totalTradesFailed++;
-          console.error(`Failed to execute buy order: ${result.error}`);
-        }
-      } catch (error: unknown) {
-        this.stats.totalTradesFailed++;
-        const message = error instanceof Error ? error.message : String(error);
-        console.error(`Error executing buy order:`, message);
+      const result = await this.orderExecutor.executeSell(position, shares);
+
+      if (result.success) {
+        await this.recordExecution({ source: target, side: 'sell', position }, result);
+      } else {
+        this.recordFailure(target);
+        console.error(`Failed to execute sell order: ${result.error}`);
       }
+    } catch (error: unknown) {
+      this.recordFailure(target);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error executing sell order:`, message);
+    }
+  }
+
+  /**
+   * Record an accepted copy order. Dry runs are recorded at once; a posted order is recorded
+   * fill by fill from the order manager, so waiting for it never holds up other updates.
+   */
+  private async recordExecution(copy: PendingCopy, result: TradeExecutionResult): Promise<void> {
+    if (result.orderId) {
+      this.pendingCopies.set(result.orderId, copy);
+      return;
+    }
+
+    this.recordFill(copy, result.executedQuantity || '0', result.executedPrice || '0');
+    this.recordTrade(copy.source, result);
+    await this.saveState();
+  }
+
+  /**
+   * Record new fills of a posted copy order
+   */
+  private handleOrderFill(result: TradeExecutionResult, fill: OrderFill): void {
+    const copy = result.orderId ? this.pendingCopies.get(result.orderId) : undefined;
+    if (!copy) return;
+
+    this.recordFill(copy, fill.size, fill.price);
+    void this.saveState();
+  }
+
+  /**
+   * Count a posted copy order once it is final: a trade when anything filled, a failure otherwise
+   */
+  private handleOrderSettled(result: TradeExecutionResult): void {
+    const copy = result.orderId ? this.pendingCopies.get(result.orderId) : undefined;
+    if (!copy || !result.orderId) return;
+    this.pendingCopies.delete(result.orderId);
+
+    if (result.success) {
+      this.recordTrade(copy.source, result);
+    } else {
+      this.recordFailure(copy.source);
     }
+    void this.saveState();
+  }
+
+  /**
+   * Apply filled shares of a copy to the holdings ledger, risk state and executed positions
+   */
+  private recordFill(copy: PendingCopy, quantity: DecimalString, price: DecimalString): void {
+    const { source, position } = copy;
 
-    // Execute sell orders for closed positions
-    for (const position of closedPositions) {
-      // Only sell if we previously bought this position
-      if (!this.executedPositions.has(position.id)) {
-        continue;
+    if (copy.side === 'buy') {
+      this.executedPositions.add(position.id);
+      if (copy.signal) {
+        this.consensus?.recordEntry(position.id, copy.signal.wallets);
       }
+      source.ledger.recordBuy(position.id, quantity, price, position.market);
+      return;
+    }
 
-      try {
-        console.log(`\n❌ Position closed: ${position.market.question}`);
-        console.log(`   Outcome: ${position.outcome}`);
-        console.log(`   Quantity: ${position.quantity} shares @ $${position.price}`);
-        
-        const result = await this.orderExecutor.executeSell(position);
-        
-        if (result.success) {
-          // Remove from executed positions (position is closed)
-          this.executedPositions.delete(position.id);
-          this.stats.totalTradesExecuted++;
-          const tradeValue = parseFloat(result.executedQuantity || '0') * parseFloat(result.executedPrice || '0');
-          this.stats.totalVolume = (parseFloat(this.stats.totalVolume) + tradeValue).toFixed(2);
-          this.stats.lastTradeTime = new Date().toISOString();
-        } else {
-          this.stats.totalTradesFailed++;
-          console.error(`Failed to execute sell order: ${result.error}`);
-        }
-      } catch (error: unknown) {
-        this.stats.totalTradesFailed++;
-        const message = error instanceof Error ? error.message : String(error);
-        console.error(`Error executing sell order:`, message);
+    const realizedPnl = source.ledger.recordSell(position.id, quantity, price);
+    const combined = this.getCombinedLedger();
+    this.riskManager.recordRealizedPnl(realizedPnl, combined.getEntries());
+    if (combined.getQuantity(position.id).isZero()) {
+      // Remove from executed positions (no target's copy holds it any more)
+      this.executedPositions.delete(position.id);
+    }
+    if (source === this.consensusSource && source.ledger.getQuantity(position.id).isZero()) {
+      this.consensus?.clearHolding(position.id);
+    }
+  }
+
+  /**
+   * Run the market filter chain, loading market metadata first when a filter needs it
+   */
+  private async applyFilters(filterChain: MarketFilterChain, position: Position): Promise<FilterResult> {
+    if (!filterChain.needsMarketData() || !position.market.id) {
+      return filterChain.evaluate(position);
+    }
+
+    try {
+      const market = await this.client.getMarketByConditionId(position.market.id);
+      return filterChain.evaluate({
+        ...position,
+        market: {
+          ...position.market,
+          tags: market.tags && market.tags.length > 0 ? market.tags : position.market.tags,
+          liquidity: market.liquidity ?? position.market.liquidity,
+          volume: market.volume ?? position.market.volume,
+          active: market.active ?? position.market.active,
+          endDate: position.market.endDate || market.endDate,
+          eventSlug: position.market.eventSlug || market.eventSlug,
+        },
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { passed: false, filter: 'market-data', reason: `could not load market data: ${message}` };
+    }
+  }
+
+  /**
+   * Shares of a token we can sell for a target: its ledger quantity, capped by the wallet balance in live mode
+   */
+  private async getSellableQuantity(target: CopySource, tokenId: string): Promise<Decimal> {
+    const ledgerQty = target.ledger.getQuantity(tokenId);
+    if (this.config.dryRun) {
+      return ledgerQty;
+    }
+
+    try {
+      const report = await this.reconcileHoldings([tokenId]);
+      const drift = report.drifts.find(d => d.tokenId === tokenId);
+      return drift ? Decimal.min(ledgerQty, drift.walletQuantity) : ledgerQty;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Could not verify wallet holdings, selling from ledger: ${message}`);
+      return ledgerQty;
+    }
+  }
+
+  /**
+   * Compare the holdings ledger against the follower wallet's positions from the API
+   * and log any drift. Only the given token IDs are checked when provided.
+   */
+  async reconcileHoldings(tokenIds?: string[]): Promise<ReconciliationReport> {
+    const wallet = this.orderExecutor.getFunderAddress();
+    const walletPositions = await this.client.getUserPositions(wallet);
+    const report = this.getCombinedLedger().reconcile(wallet, walletPositions.positions, tokenIds);
+
+    if (!report.inSync) {
+      console.warn(`⚠️  Holdings drift detected for ${report.drifts.length} token(s):`);
+      report.drifts.forEach(d => {
+        console.warn(`   ${d.tokenId}: ledger ${d.ledgerQuantity}, wallet ${d.walletQuantity} (drift ${d.drift})`);
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Seed ledger entries for copied positions that predate the ledger from the wallet's balances
+   */
+  private async adoptWalletHoldings(): Promise<void> {
+    const combined = this.getCombinedLedger();
+    const missing = Array.from(this.executedPositions).filter(id => combined.getQuantity(id).isZero());
+    if (missing.length === 0) {
+      return;
+    }
+
+    const wallet = this.orderExecutor.getFunderAddress();
+    const walletPositions = await this.client.getUserPositions(wallet);
+    for (const position of walletPositions.positions) {
+      if (missing.includes(position.id)) {
+        // Attribute the shares to the target holding the token, or the first target
+        const target = this.targets.find(t => t.positions.has(position.id)) ?? this.targets[0];
+        target.ledger.setQuantity(position.id, position.quantity, position.price);
+        console.log(`   Adopted ${position.quantity} shares of ${position.id} from wallet for ${target.label}`);
       }
     }
+    await this.saveState();
+  }
+
+  /**
+   * Update overall and per-target statistics after a successful trade
+   */
+  private recordTrade(target: CopySource, result: TradeExecutionResult): void {
+    const tradeValue = Decimal.parse(result.executedQuantity).times(Decimal.parse(result.executedPrice));
+    const now = new Date().toISOString();
+
+    for (const stats of [this.stats, target.stats]) {
+      stats.totalTradesExecuted++;
+      // Kept exact; rounded only for display
+      stats.totalVolume = Decimal.parse(stats.totalVolume).plus(tradeValue).toString();
+      stats.lastTradeTime = now;
+    }
+  }
+
+  /**
+   * Count a failed trade overall and for the target
+   */
+  private recordFailure(target: CopySource): void {
+    this.stats.totalTradesFailed++;
+    target.stats.totalTradesFailed++;
+  }
+
+  /**
+   * Unfilled remainder of our open buy orders at their limit price, as holdings for the risk checks.
+   * Filled shares are already in the ledger.
+   */
+  private getPendingBuys(): HoldingEntry[] {
+    return this.orderExecutor.getOrderManager().getOpenOrders()
+      .filter(order => order.side === 'buy')
+      .map(order => {
+        const remaining = Decimal.parse(order.requestedSize).minus(Decimal.parse(order.filledSize));
+        const market = this.pendingCopies.get(order.orderId)?.position.market;
+        return {
+          tokenId: order.tokenId,
+          marketId: market?.id,
+          eventSlug: market?.eventSlug,
+          quantity: remaining.toString(),
+          costBasis: remaining.times(Decimal.parse(order.limitPrice)).toString(),
+          lastUpdated: order.updatedAt,
+        };
+      })
+      .filter(entry => Decimal.parse(entry.quantity).isPositive());
+  }
 
-    // Update target positions map
-    this.targetPositions = currentPositions;
+  /**
+   * Our holdings across all targets, including targets no longer configured
+   */
+  private getCombinedLedger(): HoldingsLedger {
+    return HoldingsLedger.combine([
+      ...this.targets.map(target => target.ledger),
+      this.consensusSource.ledger,
+      ...this.retiredTargets.map(snapshot => new HoldingsLedger(snapshot.holdings)),
+    ]);
+  }
+
+  /**
+   * Get the startup policy in use
+   */
+  getStartupPolicy(): StartupPolicy {
+    return this.startupPolicy;
   }
 
   /**
-   * Get copy trading statistics
+   * Get copy trading statistics, overall and per target
    */
   getStats(): CopyTradingStatus {
-    return { ...this.stats };
+    const byTarget: TargetTradingStats[] = this.targets.map(target => ({
+      address: target.address,
+      label: target.label,
+      enabled: target.enabled,
+      ...target.stats,
+    }));
+    if (this.consensus) {
+      byTarget.push({ address: CONSENSUS_SOURCE, label: CONSENSUS_SOURCE, enabled: true, ...this.consensusSource.stats });
+    }
+
+    return { ...this.stats, byTarget };
   }
 
   /**
    * Check if monitor is running
    */
   isRunning(): boolean {
-    return this.positionTracker.isRunning();
+    return this.targets.some(target => target.tracker.isRunning());
   }
 
   /**
-   * Get account monitor instance
+   * Get a copy of our combined holdings across all targets
    */
-  getPositionTracker(): PositionTracker {
-    return this.positionTracker;
+  getHoldingsLedger(): HoldingsLedger {
+    return this.getCombinedLedger();
+  }
+
+  /**
+   * Get the risk manager
+   */
+  getRiskManager(): RiskManager {
+    return this.riskManager;
+  }
+
+  /**
+   * Get the account monitors of all targets
+   */
+  getPositionTrackers(): PositionTracker[] {
+    return this.targets.map(target => target.tracker);
+  }
+
+  /**
+   * Get the account monitor of a target (default: the first target)
+   */
+  getPositionTracker(address?: string): PositionTracker {
+    const target = address
+      ? this.targets.find(t => t.address.toLowerCase() === address.toLowerCase())
+      : this.targets[0];
+    if (!target) {
+      throw new Error(`Target ${address} is not tracked`);
+    }
+    return target.tracker;
   }
 
   /**
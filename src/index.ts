@@ -6,9 +6,46 @@
 // Export public API
 export { PositionTracker } from './tracking/position-tracker';
 export { MarketApiClient } from './clients/market-api-client';
+export { ClobWebSocket } from './clients/clob-websocket';
+export { HttpClient, TokenBucket, DEFAULT_HTTP_CONFIG } from './clients/http-client';
+export { SchemaValidator } from './clients/schemas';
 export { OrderExecutor } from './execution/order-executor';
 export { StrategyExecutor } from './execution/strategy-executor';
+export { OrderManager } from './execution/order-manager';
+export {
+  createSizingStrategy,
+  MultiplierSizing,
+  FixedUsdSizing,
+  PortfolioPercentSizing,
+  ProportionalSizing,
+  KellySizing,
+} from './execution/sizing';
 export { Application } from './core/application';
+export { diffPositions } from './tracking/position-diff';
+export { HoldingsLedger } from './tracking/holdings-ledger';
+export { RiskManager } from './risk/risk-manager';
+export { RoundRobinScheduler } from './tracking/poll-scheduler';
+export { TradeFeed } from './tracking/trade-feed';
+export { OrderFilledListener, decodeOrderFilled } from './tracking/order-filled-listener';
+export { ConsensusTracker } from './execution/consensus';
+export { measurePriceDrift } from './execution/price-drift';
+export { Decimal } from './utils/decimal';
+export { installNetworkGuard, getAllowedHosts } from './security/network-guard';
+export { installSecretFileGuard, assertNoSecretAccess } from './security/secret-guard';
+export { installOutputRedaction } from './security/output-redaction';
+export { decryptKeystore, encryptKeystore, getKeystoreAddress } from './security/keystore';
+export { LocalSigner, KeystoreSigner, RemoteSigner } from './security/signers';
+export {
+  MarketFilterChain,
+  createMarketFilters,
+  ActiveMarketFilter,
+  TagFilter,
+  LiquidityFilter,
+  EndDateFilter,
+  PriceBandFilter,
+  MarketListFilter,
+} from './execution/market-filters';
+export { JsonFileStateStore, MemoryStateStore, STATE_SCHEMA_VERSION } from './storage/state-store';
 
 // Backward compatibility exports (old names)
 export { PositionTracker as AccountMonitor } from './tracking/position-tracker';
@@ -18,4 +55,5 @@ export { StrategyExecutor as CopyTradingMonitor } from './execution/strategy-exe
 export * from './types';
 export * from './config';
 export * from './utils/logger';
+export { redact, registerSecret, REDACTED } from './utils/redact';
 export * from './utils/errors';
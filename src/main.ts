@@ -3,12 +3,15 @@
  * This file is executed when running the bot directly
  */
 
-import 'dotenv/config';
+// Must come first: guards key material before any other module loads (the config loader reads .env)
+import './security/register';
+import { format } from 'util';
 import { main } from './core/cli';
+import { redact } from './utils/redact';
 
 main().catch((error: unknown) => {
   // eslint-disable-next-line no-console
-  console.error('❌ Fatal error:', error);
+  console.error(redact(format('❌ Fatal error:', error)));
   process.exit(1);
 });
 
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RiskManager } from './risk-manager';
+import { DecimalString, HoldingEntry, Position } from '../types';
+
+function position(id: string, price: DecimalString, marketId = 'market-1', eventSlug = 'event-1'): Position {
+  return {
+    id,
+    market: { id: marketId, question: 'Will it rain?', slug: 'will-it-rain', eventSlug },
+    outcome: 'Yes',
+    quantity: '10',
+    price,
+    value: '0',
+    timestamp: '2024-01-01T00:00:00Z',
+  };
+}
+
+function holding(tokenId: string, quantity: DecimalString, costBasis: DecimalString, marketId = 'market-1', eventSlug = 'event-1'): HoldingEntry {
+  return { tokenId, marketId, eventSlug, quantity, costBasis, lastUpdated: '2024-01-01T00:00:00Z' };
+}
+
+test('allows a buy inside every limit unchanged', () => {
+  const risk = new RiskManager({ maxTotalExposure: 100, maxMarketExposure: 50 });
+  const result = risk.checkBuy(position('a', '0.5'), '20', '0.5', []);
+  assert.deepEqual(result, { allowed: true, quantity: '20' });
+});
+
+test('reduces a buy to the tightest remaining cap', () => {
+  const risk = new RiskManager({ maxTotalExposure: 100, maxMarketExposure: 30, maxEventExposure: 40 });
+  const result = risk.checkBuy(position('a', '0.5'), '100', '0.5', [holding('b', '40', '20')]);
+  assert.equal(result.allowed, true);
+  assert.equal(result.quantity, '20'); // $10 of market room at 0.5
+  assert.match(result.reason ?? '', /market exposure/);
+});
+
+test('rejects a new position past the open position limit but allows adding to a held one', () => {
+  const risk = new RiskManager({ maxOpenPositions: 1 });
+  const holdings = [holding('a', '10', '5')];
+  assert.equal(risk.checkBuy(position('b', '0.5'), '10', '0.5', holdings).allowed, false);
+  assert.equal(risk.checkBuy(position('a', '0.5'), '10', '0.5', holdings).allowed, true);
+});
+
+test('trips the circuit breaker at the total exposure limit until reset', () => {
+  const risk = new RiskManager({ maxTotalExposure: 10 });
+  const holdings = [holding('a', '20', '10')];
+  assert.equal(risk.checkBuy(position('b', '0.5'), '1', '0.5', holdings).allowed, false);
+  assert.equal(risk.isCircuitBreakerTripped(), true);
+
+  const blocked = risk.checkBuy(position('b', '0.5'), '1', '0.5', []);
+  assert.match(blocked.reason ?? '', /circuit breaker tripped/);
+
+  risk.resetCircuitBreaker();
+  assert.equal(risk.checkBuy(position('b', '0.5'), '1', '0.5', []).allowed, true);
+});
+
+test('sums realized PnL exactly and trips at the daily loss limit', () => {
+  const risk = new RiskManager({ dailyLossLimit: 0.3 });
+  risk.recordRealizedPnl('-0.1', []);
+  risk.recordRealizedPnl('-0.1', []);
+  assert.equal(risk.getState().realizedPnl, '-0.2');
+  assert.equal(risk.isCircuitBreakerTripped(), false);
+
+  risk.recordRealizedPnl('-0.1', []);
+  assert.equal(risk.getState().realizedPnl, '-0.3');
+  assert.equal(risk.isCircuitBreakerTripped(), true);
+});
+
+test('counts unrealized losses at the mark price towards the daily loss', () => {
+  const risk = new RiskManager({ dailyLossLimit: 5 });
+  const holdings = [holding('a', '20', '10')];
+  assert.equal(risk.checkBuy(position('b', '0.5'), '1', '0.5', holdings).allowed, true); // Day starts here
+
+  risk.updateMarkPrices([position('a', '0.2')]);
+  assert.equal(risk.getDailyPnl(holdings).toString(), '-6');
+  assert.equal(risk.checkBuy(position('b', '0.5'), '1', '0.5', holdings).allowed, false);
+});
+
+test('takes the day\'s unrealized PnL baseline from holdings already under water at startup', () => {
+  const risk = new RiskManager({ dailyLossLimit: 5 });
+  const holdings = [holding('a', '20', '10')];
+  risk.updateMarkPrices([position('a', '0.2')]);
+
+  // $6 down before the bot started is not a loss of this trading day
+  assert.equal(risk.checkBuy(position('b', '0.5'), '1', '0.5', holdings).allowed, true);
+  assert.equal(risk.getState().unrealizedAtDayStart, '-6');
+  assert.equal(risk.getDailyPnl(holdings).toString(), '0');
+
+  risk.updateMarkPrices([position('a', '0.1')]);
+  assert.equal(risk.getDailyPnl(holdings).toString(), '-2');
+});
+
+test('starts a new trading day with the breaker reset and PnL cleared', () => {
+  const risk = new RiskManager({ dailyLossLimit: 1 }, {
+    tradingDay: '2000-01-01',
+    realizedPnl: '-5',
+    unrealizedAtDayStart: '0',
+    circuitBreaker: { tripped: true, reason: 'daily loss', trippedAt: '2000-01-01T12:00:00Z' },
+  });
+
+  assert.equal(risk.checkBuy(position('a', '0.5'), '1', '0.5', []).allowed, true);
+  assert.equal(risk.getState().realizedPnl, '0');
+  assert.notEqual(risk.getState().tradingDay, '2000-01-01');
+});
+
+test('counts pending buy orders towards exposure and open positions but not PnL', () => {
+  const risk = new RiskManager({ maxMarketExposure: 10, maxOpenPositions: 2, dailyLossLimit: 1 });
+  const pending = [holding('b', '16', '8')];
+
+  const result = risk.checkBuy(position('a', '0.5'), '10', '0.5', [], pending);
+  assert.equal(result.quantity, '4'); // $2 of market room left at 0.5
+  assert.equal(risk.checkBuy(position('c', '0.5'), '1', '0.5', [holding('a', '1', '0.5')], pending).allowed, false);
+  assert.equal(risk.getDailyPnl([]).toString(), '0');
+});
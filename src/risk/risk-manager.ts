@@ -0,0 +1,233 @@
+import {
+  HoldingEntry,
+  Position,
+  RiskCheckResult,
+  RiskLimits,
+  RiskState,
+} from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+/**
+ * Current UTC trading day (YYYY-MM-DD)
+ */
+function currentTradingDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Risk Manager
+ * Sits between StrategyExecutor and OrderExecutor and enforces portfolio-level limits on buys.
+ * Per-market, per-event and open-position caps reduce or reject a single buy; breaching the
+ * total exposure or daily loss limit trips a circuit breaker that pauses all new buys until
+ * an operator resets it or the next trading day starts. Sells are always allowed.
+ */
+export class RiskManager {
+  private limits: RiskLimits;
+  private state: RiskState;
+  private markPrices: Map<string, Decimal> = new Map();
+
+  constructor(limits: Partial<RiskLimits> = {}, state?: RiskState) {
+    this.limits = {
+      maxTotalExposure: limits.maxTotalExposure ?? 0,
+      maxMarketExposure: limits.maxMarketExposure ?? 0,
+      maxEventExposure: limits.maxEventExposure ?? 0,
+      maxOpenPositions: limits.maxOpenPositions ?? 0,
+      dailyLossLimit: limits.dailyLossLimit ?? 0,
+    };
+    this.state = state ?? {
+      tradingDay: currentTradingDay(),
+      realizedPnl: '0',
+      circuitBreaker: { tripped: false },
+    };
+  }
+
+  /**
+   * Update mark prices used for unrealized PnL (e.g. from the target's latest positions)
+   */
+  updateMarkPrices(positions: Position[]): void {
+    positions.forEach(position => {
+      const price = Decimal.parse(position.price);
+      if (price.isPositive()) {
+        this.markPrices.set(position.id, price);
+      }
+    });
+  }
+
+  /**
+   * Check a buy against all limits.
+   * Returns the shares allowed, reduced to the tightest remaining cap.
+   * @param pending - Posted buys not yet filled; they count towards exposure and open positions but not PnL
+   */
+  checkBuy(
+    position: Position,
+    quantity: DecimalLike,
+    price: DecimalLike,
+    holdings: HoldingEntry[],
+    pending: HoldingEntry[] = []
+  ): RiskCheckResult {
+    this.rollTradingDay(holdings);
+
+    if (this.state.circuitBreaker.tripped) {
+      return { allowed: false, quantity: '0', reason: `circuit breaker tripped: ${this.state.circuitBreaker.reason}` };
+    }
+
+    const dailyLoss = this.getDailyPnl(holdings).negate();
+    if (this.limits.dailyLossLimit > 0 && dailyLoss.gte(this.limits.dailyLossLimit)) {
+      const reason = `daily loss $${dailyLoss.toFixed(2)} reached limit $${this.limits.dailyLossLimit}`;
+      this.trip(reason);
+      return { allowed: false, quantity: '0', reason };
+    }
+
+    const exposure = [...holdings, ...pending];
+    const openTokens = new Set(exposure.map(h => h.tokenId));
+    if (!openTokens.has(position.id) && this.limits.maxOpenPositions > 0 && openTokens.size >= this.limits.maxOpenPositions) {
+      return {
+        allowed: false,
+        quantity: '0',
+        reason: `max open positions reached (${openTokens.size}/${this.limits.maxOpenPositions})`,
+      };
+    }
+
+    const totalExposure = this.sumCost(exposure);
+    if (this.limits.maxTotalExposure > 0 && totalExposure.gte(this.limits.maxTotalExposure)) {
+      const reason = `total exposure $${totalExposure.toFixed(2)} reached limit $${this.limits.maxTotalExposure}`;
+      this.trip(reason);
+      return { allowed: false, quantity: '0', reason };
+    }
+
+    // Remaining USD room under each cap
+    const caps: Array<{ name: string; room: Decimal }> = [];
+    if (this.limits.maxTotalExposure > 0) {
+      caps.push({ name: 'total exposure', room: Decimal.from(this.limits.maxTotalExposure).minus(totalExposure) });
+    }
+    if (this.limits.maxMarketExposure > 0 && position.market.id) {
+      const marketExposure = this.sumCost(exposure.filter(h => h.marketId === position.market.id));
+      caps.push({ name: 'market exposure', room: Decimal.from(this.limits.maxMarketExposure).minus(marketExposure) });
+    }
+    if (this.limits.maxEventExposure > 0 && position.market.eventSlug) {
+      const eventExposure = this.sumCost(exposure.filter(h => h.eventSlug === position.market.eventSlug));
+      caps.push({ name: 'event exposure', room: Decimal.from(this.limits.maxEventExposure).minus(eventExposure) });
+    }
+
+    const shares = Decimal.from(quantity);
+    const cost = shares.times(price);
+    const tightest = caps.reduce<{ name: string; room: Decimal } | undefined>(
+      (min, cap) => (!min || cap.room.lt(min.room) ? cap : min),
+      undefined
+    );
+
+    if (!tightest || cost.lte(tightest.room)) {
+      return { allowed: true, quantity: shares.toString() };
+    }
+
+    if (!tightest.room.isPositive() || !Decimal.from(price).isPositive()) {
+      return { allowed: false, quantity: '0', reason: `${tightest.name} limit reached` };
+    }
+
+    return {
+      allowed: true,
+      quantity: tightest.room.div(price).toString(),
+      reason: `reduced to $${tightest.room.toFixed(2)} by ${tightest.name} limit`,
+    };
+  }
+
+  /**
+   * Record realized PnL from a sell
+   */
+  recordRealizedPnl(pnl: DecimalLike, holdings: HoldingEntry[]): void {
+    this.rollTradingDay(holdings);
+    this.state.realizedPnl = Decimal.parse(this.state.realizedPnl).plus(pnl).toString();
+
+    const dailyLoss = this.getDailyPnl(holdings).negate();
+    if (this.limits.dailyLossLimit > 0 && dailyLoss.gte(this.limits.dailyLossLimit)) {
+      this.trip(`daily loss $${dailyLoss.toFixed(2)} reached limit $${this.limits.dailyLossLimit}`);
+    }
+  }
+
+  /**
+   * Realized plus change in unrealized PnL since the start of the trading day
+   */
+  getDailyPnl(holdings: HoldingEntry[]): Decimal {
+    const unrealized = this.getUnrealizedPnl(holdings);
+    const unrealizedAtDayStart = this.state.unrealizedAtDayStart === undefined
+      ? unrealized
+      : Decimal.parse(this.state.unrealizedAtDayStart);
+    return Decimal.parse(this.state.realizedPnl).plus(unrealized).minus(unrealizedAtDayStart);
+  }
+
+  /**
+   * Value of holdings at their mark prices; holdings without a mark count at cost
+   */
+  getMarketValue(holdings: HoldingEntry[]): Decimal {
+    return Decimal.sum(holdings.map(h => {
+      const mark = this.markPrices.get(h.tokenId);
+      return mark === undefined ? Decimal.parse(h.costBasis) : Decimal.parse(h.quantity).times(mark);
+    }));
+  }
+
+  /**
+   * Reset the circuit breaker (operator action)
+   */
+  resetCircuitBreaker(): void {
+    if (this.state.circuitBreaker.tripped) {
+      console.log(`🟢 Circuit breaker reset (was: ${this.state.circuitBreaker.reason})`);
+    }
+    this.state.circuitBreaker = { tripped: false };
+  }
+
+  /**
+   * Check whether new buys are paused
+   */
+  isCircuitBreakerTripped(): boolean {
+    return this.state.circuitBreaker.tripped;
+  }
+
+  /**
+   * Get a copy of the persisted risk state
+   */
+  getState(): RiskState {
+    return { ...this.state, circuitBreaker: { ...this.state.circuitBreaker } };
+  }
+
+  /**
+   * Start a new trading day when the UTC date changes; this also resets the circuit breaker.
+   * The day's unrealized PnL baseline is taken from the holdings at the first check of the day,
+   * including the first check after a fresh start or a state migration.
+   */
+  private rollTradingDay(holdings: HoldingEntry[]): void {
+    const today = currentTradingDay();
+    if (this.state.tradingDay !== today) {
+      if (this.state.circuitBreaker.tripped) {
+        console.log(`🟢 New trading day ${today}: circuit breaker reset`);
+      }
+      this.state = {
+        tradingDay: today,
+        realizedPnl: '0',
+        circuitBreaker: { tripped: false },
+      };
+    }
+
+    if (this.state.unrealizedAtDayStart === undefined) {
+      this.state.unrealizedAtDayStart = this.getUnrealizedPnl(holdings).toString();
+    }
+  }
+
+  private trip(reason: string): void {
+    if (this.state.circuitBreaker.tripped) return;
+
+    this.state.circuitBreaker = { tripped: true, reason, trippedAt: new Date().toISOString() };
+    console.warn(`🛑 Circuit breaker tripped: ${reason}. New buys paused; sells still allowed.`);
+  }
+
+  private getUnrealizedPnl(holdings: HoldingEntry[]): Decimal {
+    return holdings.reduce((sum, h) => {
+      const mark = this.markPrices.get(h.tokenId);
+      if (mark === undefined) return sum;
+      return sum.plus(Decimal.parse(h.quantity).times(mark)).minus(Decimal.parse(h.costBasis));
+    }, Decimal.ZERO);
+  }
+
+  private sumCost(holdings: HoldingEntry[]): Decimal {
+    return Decimal.sum(holdings.map(h => Decimal.parse(h.costBasis)));
+  }
+}
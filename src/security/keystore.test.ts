@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Wallet } from 'ethers';
+import { decryptKeystore, encryptKeystore, getKeystoreAddress } from './keystore';
+import { KeystoreConfig } from '../types';
+
+const ACCOUNT = new Wallet('0x' + '11'.repeat(32));
+const PASSWORD = 'correct horse battery staple';
+
+// Encrypting runs scrypt, so every test shares one keystore
+const keystore = encryptKeystore(ACCOUNT.privateKey, PASSWORD);
+
+/**
+ * Keystore config whose password is read from an environment variable set to `password`
+ */
+async function config(password: string): Promise<KeystoreConfig> {
+  process.env.TEST_KEYSTORE_PASSWORD = password;
+  return {
+    file: 'wallet.json',
+    json: await keystore,
+    password: { type: 'env', variable: 'TEST_KEYSTORE_PASSWORD' },
+  };
+}
+
+test('decrypts what it encrypted back into the same wallet', async () => {
+  const wallet = await decryptKeystore(await config(PASSWORD));
+  assert.equal(wallet.address, ACCOUNT.address);
+  assert.equal(wallet.privateKey, ACCOUNT.privateKey);
+  assert.equal(process.env.TEST_KEYSTORE_PASSWORD, undefined); // Removed once read
+});
+
+test('names the keystore when the password is wrong', async () => {
+  await assert.rejects(
+    decryptKeystore(await config('wrong password')),
+    /^Error: Failed to decrypt keystore wallet\.json: incorrect password/
+  );
+});
+
+test('reads the address without the password', async () => {
+  assert.equal(getKeystoreAddress(await keystore), ACCOUNT.address);
+  assert.equal(getKeystoreAddress(JSON.stringify({ address: ACCOUNT.address.slice(2).toLowerCase() })), ACCOUNT.address);
+  assert.equal(getKeystoreAddress('{}'), undefined);
+  assert.equal(getKeystoreAddress('not json'), undefined);
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import { Wallet, decryptKeystoreJson, getAddress } from 'ethers';
+import { KeystoreConfig, KeystorePasswordSource } from '../types';
+import { askSecret, isInteractive } from '../utils/prompt';
+import { registerSecret } from '../utils/redact';
+
+/**
+ * Address stored in a keystore, readable without the password.
+ * Undefined when the keystore doesn't record it.
+ */
+export function getKeystoreAddress(json: string): string | undefined {
+  try {
+    const address = JSON.parse(json).address;
+    return typeof address === 'string' && address
+      ? getAddress(address.startsWith('0x') ? address : `0x${address}`)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a keystore password from its source and register it for log redaction.
+ * An environment variable is removed once read so the password doesn't linger in the process.
+ */
+export async function readKeystorePassword(
+  source: KeystorePasswordSource,
+  question: string = 'Keystore password: '
+): Promise<string> {
+  const password = await readPassword(source, question);
+  registerSecret(password);
+  return password;
+}
+
+/**
+ * Read the password from a file descriptor, the environment or the terminal
+ */
+async function readPassword(source: KeystorePasswordSource, question: string): Promise<string> {
+  switch (source.type) {
+    case 'fd': {
+      const password = fs.readFileSync(source.fd, 'utf-8');
+      fs.closeSync(source.fd);
+      return password.replace(/\r?\n$/, '');
+    }
+
+    case 'env': {
+      const password = process.env[source.variable];
+      if (password === undefined) {
+        throw new Error(`${source.variable} is not set`);
+      }
+      delete process.env[source.variable];
+      return password;
+    }
+
+    case 'prompt':
+    default:
+      if (!isInteractive()) {
+        throw new Error(
+          'Keystore password needed but there is no terminal to ask on; ' +
+          'set KEYSTORE_PASSWORD_FD or KEYSTORE_PASSWORD'
+        );
+      }
+      return askSecret(question);
+  }
+}
+
+/**
+ * Decrypt a keystore into a wallet. The private key only ever exists in memory.
+ */
+export async function decryptKeystore(keystore: KeystoreConfig): Promise<Wallet> {
+  const password = await readKeystorePassword(keystore.password, `Password for ${keystore.file}: `);
+
+  try {
+    const account = await decryptKeystoreJson(keystore.json, password);
+    return new Wallet(account.privateKey);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to decrypt keystore ${keystore.file}: ${message}`);
+  }
+}
+
+/**
+ * Encrypt a private key into an ethers JSON keystore
+ */
+export async function encryptKeystore(privateKey: string, password: string): Promise<string> {
+  return new Wallet(privateKey).encrypt(password);
+}
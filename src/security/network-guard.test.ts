@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { getAllowedHosts, installNetworkGuard } from './network-guard';
+import { loadConfig } from '../config';
+import { SecurityError } from '../utils/errors';
+
+/**
+ * GET a URL and resolve with the response body
+ */
+function get(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    http.get(url, res => {
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve(body));
+    }).on('error', reject);
+  });
+}
+
+/**
+ * Run a local server answering every request with "ok" and run the test against its port
+ */
+async function withServer(run: (port: number, requests: string[]) => Promise<void>): Promise<void> {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.url ?? '');
+    res.end('ok');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    await run((server.address() as AddressInfo).port, requests);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('allows connections to allowlisted hosts and blocks the rest before they are made', async t => {
+  t.mock.method(console, 'error', () => {});
+  installNetworkGuard(['127.0.0.1']);
+
+  await withServer(async (port, requests) => {
+    assert.equal(await get(`http://127.0.0.1:${port}/allowed`), 'ok');
+
+    // Same server, but under a name that is not on the allowlist
+    await assert.rejects(
+      get(`http://localhost:${port}/blocked`),
+      (error: unknown) => error instanceof SecurityError && /Blocked connection to localhost/.test(error.message)
+    );
+    assert.deepEqual(requests, ['/allowed']);
+  });
+});
+
+test('an empty allowlist blocks every connection until it is replaced', async t => {
+  t.mock.method(console, 'error', () => {});
+
+  await withServer(async (port, requests) => {
+    installNetworkGuard([]);
+    await assert.rejects(get(`http://127.0.0.1:${port}/`), SecurityError);
+
+    installNetworkGuard(['127.0.0.1']);
+    assert.equal(await get(`http://127.0.0.1:${port}/`), 'ok');
+    assert.equal(requests.length, 1);
+  });
+});
+
+test('allows the configured APIs and remote signer, and the RPC only with the chain listener', t => {
+  process.env.TARGET_ADDRESS = '0x' + '12'.repeat(20);
+  process.env.REMOTE_SIGNER_URL = 'https://signer.internal:8550';
+  process.env.REMOTE_SIGNER_AUTH_TOKEN = 'signer-token';
+  process.env.CHAIN_RPC_URL = 'https://rpc.example.org';
+  t.after(() => delete process.env.ENABLE_CHAIN_LISTENER);
+
+  const hosts = getAllowedHosts(loadConfig());
+  assert.ok(hosts.includes('clob.polymarket.com'));
+  assert.ok(hosts.includes('signer.internal'));
+  assert.ok(!hosts.includes('rpc.example.org'));
+
+  process.env.ENABLE_CHAIN_LISTENER = 'true';
+  assert.ok(getAllowedHosts(loadConfig()).includes('rpc.example.org'));
+});
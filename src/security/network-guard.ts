@@ -0,0 +1,93 @@
+import net from 'net';
+import { AppConfig } from '../config';
+import { SecurityError } from '../utils/errors';
+
+let allowedHosts: Set<string> = new Set();
+let installed = false;
+
+/**
+ * Hostname of a configured URL, or undefined when the URL is empty or invalid
+ */
+function getHostname(url: string): string | undefined {
+  try {
+    return url ? normalizeHost(new URL(url).hostname) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^\[(.*)\]$/, '$1'); // IPv6 literals come bracketed in URLs
+}
+
+/**
+ * Hosts the bot may connect to: the Polymarket APIs in AppConfig.api and chain.clobHost,
+ * the remote signer when one is configured, plus the CLOB WebSocket and the chain RPC
+ * when those features are enabled
+ */
+export function getAllowedHosts(config: AppConfig): string[] {
+  const urls = [
+    config.api.baseUrl,
+    config.api.dataApiUrl,
+    config.api.gammaApiUrl,
+    config.api.clobApiUrl,
+    config.chain.clobHost,
+    config.copyTrading.remoteSigner?.url ?? '',
+    config.monitoring.enableWebSocket ? config.monitoring.webSocketUrl : '',
+    config.monitoring.enableChainListener ? config.chain.rpcUrl : '',
+  ];
+
+  const hosts = urls.map(getHostname).filter((host): host is string => host !== undefined);
+  return Array.from(new Set(hosts));
+}
+
+/**
+ * Host a socket is about to connect to; undefined for IPC (Unix socket / named pipe) connections.
+ * Accepts the argument forms of net.Socket#connect, including Node's internal normalized array.
+ */
+function getConnectHost(args: unknown[]): string | undefined {
+  const first = Array.isArray(args[0]) ? args[0][0] : args[0];
+
+  if (first !== null && typeof first === 'object') {
+    const options = first as { host?: string; path?: string };
+    if (options.path) return undefined;
+    return normalizeHost(options.host || 'localhost');
+  }
+
+  if (typeof first === 'string' && isNaN(Number(first))) {
+    return undefined; // connect(path)
+  }
+  return normalizeHost(typeof args[1] === 'string' ? args[1] : 'localhost');
+}
+
+/**
+ * Network Guard
+ * Patches net.Socket#connect, which every HTTP, HTTPS and WebSocket client in Node goes through,
+ * so that outbound connections to hosts outside the allowlist fail with a SecurityError
+ * and are logged. Installing again replaces the allowlist.
+ */
+export function installNetworkGuard(hosts: string[]): void {
+  allowedHosts = new Set(hosts.map(normalizeHost));
+  if (installed) return;
+  installed = true;
+
+  const connect = net.Socket.prototype.connect;
+  net.Socket.prototype.connect = function (this: net.Socket, ...args: unknown[]) {
+    const host = getConnectHost(args);
+    if (host !== undefined && !allowedHosts.has(host)) {
+      const error = new SecurityError(`Blocked connection to ${host}: not in the network allowlist`);
+      console.error(`🚫 ${error.message}`);
+      // Fail the way a refused connection would, so callers see an error instead of a throw
+      process.nextTick(() => this.destroy(error));
+      return this;
+    }
+    return (connect as (...connectArgs: unknown[]) => net.Socket).apply(this, args);
+  } as typeof connect;
+}
+
+/**
+ * Get the hosts currently allowed
+ */
+export function getNetworkAllowlist(): string[] {
+  return Array.from(allowedHosts);
+}
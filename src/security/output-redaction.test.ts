@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { installOutputRedaction } from './output-redaction';
+import { PositionTracker } from '../tracking/position-tracker';
+import { MarketApiClient } from '../clients/market-api-client';
+import { REDACTED, registerSecret } from '../utils/redact';
+
+const execFileAsync = promisify(execFile);
+
+const PRIVATE_KEY = '0x' + '4c'.repeat(32);
+const TX_HASH = '0x' + 'ab'.repeat(32);
+
+let capturing = false;
+let output = '';
+
+// Capture what reaches the real streams, underneath the redaction installed below
+for (const stream of [process.stdout, process.stderr]) {
+  const write = stream.write.bind(stream) as (chunk: unknown, ...args: unknown[]) => boolean;
+  stream.write = ((chunk: unknown, ...args: unknown[]) => {
+    if (!capturing) return write(chunk, ...args);
+    output += String(chunk);
+    return true;
+  }) as typeof stream.write;
+}
+installOutputRedaction();
+registerSecret(PRIVATE_KEY); // As the config loader does
+
+/**
+ * Run code and return everything it wrote to stdout and stderr. Synchronous, so the test
+ * runner's own output can't be captured in between.
+ */
+function capture(run: () => unknown): string {
+  output = '';
+  capturing = true;
+  try {
+    run();
+  } finally {
+    capturing = false;
+  }
+  return output;
+}
+
+test('masks a registered key in console output but leaves transaction hashes readable', () => {
+  const text = capture(() => console.log(`Loaded key ${PRIVATE_KEY} for tx ${TX_HASH}`));
+  assert.equal(text, `Loaded key ${REDACTED} for tx ${TX_HASH}\n`);
+});
+
+test('masks keys in errors passed straight to console.error, stack included', () => {
+  const text = capture(() => console.error('Strategy error:', new Error(`bad key ${PRIVATE_KEY.slice(2)}`)));
+  assert.match(text, /Strategy error: Error: bad key \[REDACTED\]\n\s+at /);
+  assert.doesNotMatch(text, /4c4c4c4c/);
+});
+
+test('masks keys reported through the position tracker\'s default error handler', () => {
+  const tracker = new PositionTracker({} as unknown as MarketApiClient, { targetAddress: '0x' + '12'.repeat(20) });
+  const { onError } = (tracker as unknown as { options: { onError: (error: Error) => void } }).options;
+
+  const text = capture(() => onError(new Error(`signing failed for ${PRIVATE_KEY}`)));
+  assert.match(text, /Monitor error: Error: signing failed for \[REDACTED\]/);
+});
+
+test('masks registered credentials in order logs while order IDs stay readable', () => {
+  registerSecret('clob-api-secret-value');
+
+  const text = capture(() => console.warn(`⚠️  Failed to cancel order ${TX_HASH}: secret clob-api-secret-value rejected`));
+  assert.equal(text, `⚠️  Failed to cancel order ${TX_HASH}: secret ${REDACTED} rejected\n`);
+});
+
+test('masks the auth headers the CLOB client logs with a failed request once the startup guard is loaded', async () => {
+  const server = http.createServer((_req, res) => {
+    res.writeHead(401, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Unauthorized' }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const headers = {
+      POLY_ADDRESS: '0x' + '12'.repeat(20),
+      POLY_API_KEY: '0b8b1a58-7f5e-4d0a-9a3e-2f6c1d9e8b7a',
+      POLY_PASSPHRASE: 'correct-horse-battery',
+      POLY_SIGNATURE: 'c2lnbmF0dXJlLWJ5dGVzLWhlcmU=',
+      POLY_TIMESTAMP: '1700000000',
+    };
+
+    // A fresh process loads the guard the way the entry point does, before the CLOB client
+    const script = `
+      require(${JSON.stringify(require.resolve('./register'))});
+      const { get } = require('@polymarket/clob-client/dist/http-helpers');
+      get('http://127.0.0.1:${port}/orders', { headers: ${JSON.stringify(headers)} });
+    `;
+    const { stdout, stderr } = await execFileAsync(process.execPath, ['-r', 'ts-node/register', '-e', script], {
+      env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' },
+      timeout: 60000,
+    });
+
+    const text = stdout + stderr;
+    assert.match(text, /\[CLOB Client\] request error/);
+    assert.match(text, /"POLY_ADDRESS":"0x1212/);
+    for (const secret of [headers.POLY_API_KEY, headers.POLY_PASSPHRASE, headers.POLY_SIGNATURE]) {
+      assert.ok(!text.includes(secret), `${secret} was printed`);
+    }
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+test('passes binary chunks through unchanged', () => {
+  const chunk = Buffer.from(PRIVATE_KEY);
+  const text = capture(() => process.stdout.write(chunk));
+  assert.equal(text, PRIVATE_KEY);
+});
@@ -0,0 +1,32 @@
+import { redact } from '../utils/redact';
+
+type Write = (chunk: unknown, ...args: unknown[]) => boolean;
+
+let installed = false;
+
+/**
+ * Whether a write() encoding argument means the chunk is plain text
+ */
+function isTextEncoding(encoding: unknown): boolean {
+  return typeof encoding !== 'string' || /^utf-?8$/i.test(encoding);
+}
+
+/**
+ * Mask secrets in all text written to stdout and stderr.
+ * Covers every console call, including the CLOB client's, which logs failed requests with
+ * their POLY_* auth headers. Each console call is one write, so a secret is never split
+ * across chunks. Binary chunks pass through unchanged.
+ */
+export function installOutputRedaction(): void {
+  if (installed) return;
+  installed = true;
+
+  for (const stream of [process.stdout, process.stderr]) {
+    const write = stream.write as Write;
+    const redacted: Write = function (this: NodeJS.WriteStream, chunk, ...args) {
+      const text = typeof chunk === 'string' && isTextEncoding(args[0]) ? redact(chunk) : chunk;
+      return write.call(this, text, ...args);
+    };
+    stream.write = redacted as typeof stream.write;
+  }
+}
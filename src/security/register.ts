@@ -0,0 +1,11 @@
+/**
+ * Installs the secret file guard and output redaction when imported.
+ * The entry point imports this first so no other module can read key material before the guard
+ * is in place, or print anything before output is redacted.
+ */
+
+import { installSecretFileGuard } from './secret-guard';
+import { installOutputRedaction } from './output-redaction';
+
+installSecretFileGuard();
+installOutputRedaction();
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getSecretAccessViolations, installSecretFileGuard, isSecretPath } from './secret-guard';
+import { SecurityError } from '../utils/errors';
+
+test('treats .env files and keys directories as key material', () => {
+  assert.equal(isSecretPath('/app/.env'), true);
+  assert.equal(isSecretPath('/app/.env.production'), true);
+  assert.equal(isSecretPath('/app/keys/wallet.json'), true);
+  assert.equal(isSecretPath('/app/.env.example'), false);
+  assert.equal(isSecretPath('/app/node_modules/pkg/.env'), false);
+});
+
+test('blocks reading, copying, linking and renaming key material outside the config loader', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secret-guard-'));
+  const keysDir = path.join(dir, 'keys');
+  fs.mkdirSync(keysDir);
+  const keyFile = path.join(keysDir, 'wallet.json');
+  fs.writeFileSync(keyFile, '{}');
+
+  installSecretFileGuard();
+  try {
+    const copy = path.join(dir, 'copy.json');
+    assert.throws(() => fs.readFileSync(keyFile), SecurityError);
+    assert.throws(() => fs.copyFileSync(keyFile, copy), SecurityError);
+    assert.throws(() => fs.linkSync(keyFile, copy), SecurityError);
+    assert.throws(() => fs.renameSync(keyFile, copy), SecurityError);
+    await assert.rejects(fs.promises.copyFile(keyFile, copy), SecurityError);
+    await assert.rejects(fs.promises.cp(keysDir, path.join(dir, 'copied'), { recursive: true }), SecurityError);
+
+    assert.equal(fs.existsSync(copy), false);
+    assert.equal(getSecretAccessViolations().length, 6);
+
+    // Other files are unaffected
+    fs.writeFileSync(copy, 'ok');
+    assert.equal(fs.readFileSync(copy, 'utf8'), 'ok');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
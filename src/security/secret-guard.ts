@@ -0,0 +1,163 @@
+import fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { SecurityError } from '../utils/errors';
+
+/**
+ * Directory of the config loader, the only code allowed to read key material
+ */
+const CONFIG_LOADER_DIR = path.resolve(__dirname, '../config') + path.sep;
+
+/**
+ * Stack frames captured when checking who reads a secret file
+ */
+const STACK_DEPTH = 50;
+
+type GuardedCall = 'sync' | 'callback' | 'promise';
+
+const violations: string[] = [];
+let installed = false;
+
+/**
+ * Whether a path holds key material: .env files (other than .env.example) and anything
+ * in a keys directory. Installed packages are never key material.
+ */
+export function isSecretPath(file: unknown): boolean {
+  let filePath: string;
+  if (typeof file === 'string' || Buffer.isBuffer(file)) {
+    filePath = file.toString();
+  } else if (file instanceof URL && file.protocol === 'file:') {
+    filePath = fileURLToPath(file);
+  } else {
+    return false; // File descriptors and file handles were checked when opened
+  }
+
+  const segments = path.resolve(filePath).split(path.sep);
+  const name = segments[segments.length - 1];
+  if (segments.includes('node_modules')) {
+    return false;
+  }
+  return name === '.env' || (name.startsWith('.env.') && name !== '.env.example') || segments.includes('keys');
+}
+
+/**
+ * Whether open() flags allow reading; writing a new keystore is not a read
+ */
+function opensForReading(flags: unknown): boolean {
+  if (flags === undefined || flags === null) return true; // Defaults to 'r'
+  if (typeof flags === 'number') return (flags & 3) !== fs.constants.O_WRONLY; // Low two bits: access mode
+  return /[r+]/.test(String(flags));
+}
+
+/**
+ * Stack frames of the current call, innermost first, without the guard's own frames
+ */
+function getCallerFrames(): string[] {
+  const limit = Error.stackTraceLimit;
+  Error.stackTraceLimit = STACK_DEPTH;
+  const stack = new Error().stack ?? '';
+  Error.stackTraceLimit = limit;
+
+  return stack
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim())
+    .filter(line => !line.includes(__filename));
+}
+
+/**
+ * Record and log a blocked read (or copy, link or rename)
+ */
+function block(file: unknown, frames: string[]): SecurityError {
+  // The first frame outside Node's own modules is the code that asked for the file
+  const caller = frames.find(frame => !frame.includes('node:')) ?? 'unknown caller';
+  const message = `Blocked read of ${String(file)} (${caller.replace(/^at /, '')}): key material may only be read by the config loader`;
+  violations.push(message);
+  console.error(`🚫 ${message}`);
+  return new SecurityError(message);
+}
+
+/**
+ * Wrap an fs function so reads of key material outside the config loader fail
+ */
+function guard<T extends (...args: never[]) => unknown>(original: T, call: GuardedCall, opens = false): T {
+  return function (this: unknown, ...args: unknown[]): unknown {
+    if (isSecretPath(args[0]) && (!opens || opensForReading(args[1]))) {
+      const frames = getCallerFrames();
+      if (!frames.some(frame => frame.includes(CONFIG_LOADER_DIR))) {
+        const error = block(args[0], frames);
+        const callback = args[args.length - 1];
+        if (call === 'callback' && typeof callback === 'function') {
+          process.nextTick(() => callback(error));
+          return undefined;
+        }
+        if (call === 'promise') {
+          return Promise.reject(error);
+        }
+        throw error;
+      }
+    }
+    return Reflect.apply(original, this, args);
+  } as unknown as T;
+}
+
+/**
+ * Secret File Guard
+ * Patches the fs read and open functions so that only the config loader can read .env files
+ * and files in a keys directory. Every other attempt is blocked, logged and remembered, and
+ * assertNoSecretAccess() refuses to start the bot once any has happened.
+ * Copying, linking and renaming key material are blocked too, since the copy or link
+ * would otherwise be readable from an unguarded path.
+ * Install it before any other module is loaded (see ./register).
+ *
+ * This is a best-effort tripwire against dependencies that go looking for key material,
+ * not a security boundary: code running in this process can still reach the files through
+ * child_process, native addons or by copying a parent directory. Keep key material out of
+ * the process entirely (keystore or remote signer) when that matters.
+ */
+export function installSecretFileGuard(): void {
+  if (installed) return;
+  installed = true;
+
+  fs.readFileSync = guard(fs.readFileSync, 'sync');
+  fs.openSync = guard(fs.openSync, 'sync', true);
+  fs.createReadStream = guard(fs.createReadStream, 'sync');
+  fs.copyFileSync = guard(fs.copyFileSync, 'sync');
+  fs.cpSync = guard(fs.cpSync, 'sync');
+  fs.linkSync = guard(fs.linkSync, 'sync');
+  fs.symlinkSync = guard(fs.symlinkSync, 'sync');
+  fs.renameSync = guard(fs.renameSync, 'sync');
+  fs.readFile = guard(fs.readFile, 'callback') as typeof fs.readFile;
+  fs.open = guard(fs.open, 'callback', true) as typeof fs.open;
+  fs.copyFile = guard(fs.copyFile, 'callback') as typeof fs.copyFile;
+  fs.cp = guard(fs.cp, 'callback') as typeof fs.cp;
+  fs.link = guard(fs.link, 'callback') as typeof fs.link;
+  fs.symlink = guard(fs.symlink, 'callback') as typeof fs.symlink;
+  fs.rename = guard(fs.rename, 'callback') as typeof fs.rename;
+  fs.promises.readFile = guard(fs.promises.readFile, 'promise');
+  fs.promises.open = guard(fs.promises.open, 'promise', true);
+  fs.promises.copyFile = guard(fs.promises.copyFile, 'promise');
+  fs.promises.cp = guard(fs.promises.cp, 'promise');
+  fs.promises.link = guard(fs.promises.link, 'promise');
+  fs.promises.symlink = guard(fs.promises.symlink, 'promise');
+  fs.promises.rename = guard(fs.promises.rename, 'promise');
+}
+
+/**
+ * Get the blocked reads of key material so far
+ */
+export function getSecretAccessViolations(): string[] {
+  return [...violations];
+}
+
+/**
+ * Throw when any module has tried to read key material outside the config loader
+ */
+export function assertNoSecretAccess(): void {
+  if (violations.length === 0) return;
+
+  throw new SecurityError(
+    `Refusing to start: ${violations.length} attempt(s) to read key material outside the config loader\n` +
+    violations.map(violation => `   - ${violation}`).join('\n')
+  );
+}
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Wallet, verifyTypedData } from 'ethers';
+import { RemoteSigner } from './signers';
+import { RemoteSignerProtocol } from '../types';
+import { SecurityError } from '../utils/errors';
+
+const ACCOUNT = new Wallet('0x' + '11'.repeat(32));
+const OTHER = new Wallet('0x' + '22'.repeat(32));
+const AUTH_TOKEN = 'signer-token';
+
+const DOMAIN = { name: 'ClobAuthDomain', version: '1', chainId: 137 };
+const TYPES = { ClobAuth: [{ name: 'address', type: 'address' }, { name: 'nonce', type: 'uint256' }] };
+const VALUE = { address: ACCOUNT.address, nonce: 0 };
+
+/**
+ * How the stub signer answers signing requests
+ */
+type Behaviour = 'sign' | 'sign-as-other' | 'garbage';
+
+interface TypedDataPayload {
+  domain: Record<string, unknown>;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  message: Record<string, unknown>;
+}
+
+async function sign(behaviour: Behaviour, payload: TypedDataPayload): Promise<string> {
+  if (behaviour === 'garbage') return '0x1234';
+
+  const { EIP712Domain: _domain, ...types } = payload.types;
+  const wallet = behaviour === 'sign' ? ACCOUNT : OTHER;
+  return wallet.signTypedData(payload.domain, types, payload.message);
+}
+
+/**
+ * Run a local signing service speaking the given protocol for ACCOUNT and run the test against it
+ */
+async function withSigner(protocol: RemoteSignerProtocol, behaviour: Behaviour, run: (url: string) => Promise<void>) {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', async () => {
+      const reply = (status: number, data: unknown) =>
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+
+      if (req.headers.authorization !== `Bearer ${AUTH_TOKEN}`) {
+        return reply(401, { error: 'unauthorized' });
+      }
+
+      if (protocol === 'http') {
+        if (req.method === 'GET' && req.url === '/signer/address') {
+          return reply(200, { address: ACCOUNT.address.toLowerCase() });
+        }
+        if (req.method === 'POST' && req.url === '/signer/sign-typed-data') {
+          return reply(200, { signature: await sign(behaviour, JSON.parse(body)) });
+        }
+        return reply(404, {});
+      }
+
+      const { id, method, params } = JSON.parse(body);
+      if (method === 'eth_accounts') {
+        return reply(200, { jsonrpc: '2.0', id, result: [ACCOUNT.address] });
+      }
+      if (method === 'eth_signTypedData_v4') {
+        return reply(200, { jsonrpc: '2.0', id, result: await sign(behaviour, JSON.parse(params[1])) });
+      }
+      return reply(200, { jsonrpc: '2.0', id, error: { code: -32601, message: 'method not found' } });
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    await run(`http://127.0.0.1:${port}/signer/`);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+for (const protocol of ['json-rpc', 'http'] as const) {
+  test(`${protocol}: resolves the account and returns signatures that verify against it`, async () => {
+    await withSigner(protocol, 'sign', async url => {
+      const signer = new RemoteSigner({ url, protocol, authToken: AUTH_TOKEN });
+      assert.equal(await signer.getAddress(), ACCOUNT.address);
+
+      const signature = await signer._signTypedData(DOMAIN, TYPES, VALUE);
+      assert.equal(verifyTypedData(DOMAIN, TYPES, VALUE, signature), ACCOUNT.address);
+    });
+  });
+
+  test(`${protocol}: rejects a signature from another account`, async () => {
+    await withSigner(protocol, 'sign-as-other', async url => {
+      const signer = new RemoteSigner({ url, protocol, authToken: AUTH_TOKEN });
+      await assert.rejects(
+        signer._signTypedData(DOMAIN, TYPES, VALUE),
+        (error: unknown) => error instanceof SecurityError && error.message.includes(`signed as ${OTHER.address}`)
+      );
+    });
+  });
+
+  test(`${protocol}: rejects a malformed signature`, async () => {
+    await withSigner(protocol, 'garbage', async url => {
+      const signer = new RemoteSigner({ url, protocol, authToken: AUTH_TOKEN });
+      await assert.rejects(signer._signTypedData(DOMAIN, TYPES, VALUE), /returned a malformed signature/);
+    });
+  });
+}
+
+test('rejects signatures from the signer\'s account when another address is configured', async () => {
+  await withSigner('json-rpc', 'sign', async url => {
+    const signer = new RemoteSigner({ url, protocol: 'json-rpc', address: OTHER.address, authToken: AUTH_TOKEN });
+    assert.equal(await signer.getAddress(), OTHER.address);
+    await assert.rejects(signer._signTypedData(DOMAIN, TYPES, VALUE), SecurityError);
+  });
+});
@@ -0,0 +1,191 @@
+import axios, { AxiosInstance } from 'axios';
+import { TypedDataEncoder, Wallet, getAddress, isAddress, verifyTypedData } from 'ethers';
+import { KeystoreConfig, RemoteSignerConfig, Signer } from '../types';
+import { ApiError, SecurityError } from '../utils/errors';
+import { registerSecret } from '../utils/redact';
+import { decryptKeystore, getKeystoreAddress } from './keystore';
+
+type TypedDataTypes = Record<string, Array<{ name: string; type: string }>>;
+
+/**
+ * Remote signer request timeout in ms
+ */
+const DEFAULT_REMOTE_SIGNER_TIMEOUT = 10000;
+
+/**
+ * Local Signer
+ * Signs with an ethers v6 Wallet held in this process.
+ * ClobClient expects the ethers v5 _signTypedData method, which v6 renamed to signTypedData.
+ */
+export class LocalSigner implements Signer {
+  private wallet: Wallet;
+
+  constructor(wallet: Wallet | string) {
+    this.wallet = typeof wallet === 'string' ? new Wallet(wallet) : wallet;
+    registerSecret(this.wallet.privateKey);
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async _signTypedData(domain: Record<string, any>, types: TypedDataTypes, value: Record<string, any>): Promise<string> {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+}
+
+/**
+ * Keystore Signer
+ * Signs with an encrypted keystore, decrypted in memory on unlock() or the first signature.
+ * The address stored in the keystore is available without the password.
+ */
+export class KeystoreSigner implements Signer {
+  private keystore: KeystoreConfig;
+  private address?: string;
+  private unlocking?: Promise<LocalSigner>;
+
+  constructor(keystore: KeystoreConfig) {
+    this.keystore = keystore;
+    this.address = getKeystoreAddress(keystore.json);
+  }
+
+  async unlock(): Promise<void> {
+    await this.getWallet();
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address ?? (await this.getWallet()).getAddress();
+  }
+
+  async _signTypedData(domain: Record<string, any>, types: TypedDataTypes, value: Record<string, any>): Promise<string> {
+    return (await this.getWallet())._signTypedData(domain, types, value);
+  }
+
+  /**
+   * The decrypted wallet; concurrent callers share one decryption and a failed one can be retried
+   */
+  private getWallet(): Promise<LocalSigner> {
+    if (!this.unlocking) {
+      this.unlocking = this.decrypt().catch(error => {
+        this.unlocking = undefined;
+        throw error;
+      });
+    }
+    return this.unlocking;
+  }
+
+  private async decrypt(): Promise<LocalSigner> {
+    const wallet = await decryptKeystore(this.keystore);
+    if (this.address && wallet.address !== this.address) {
+      throw new SecurityError(`Keystore ${this.keystore.file} decrypted to ${wallet.address}, not the ${this.address} it records`);
+    }
+
+    this.address = wallet.address;
+    console.log(`🔓 Keystore ${this.keystore.file} unlocked`);
+    return new LocalSigner(wallet);
+  }
+}
+
+/**
+ * Remote Signer
+ * Asks a signing service (Clef, Web3Signer, a hardware wallet bridge, a KMS proxy) for every
+ * signature, so the private key never enters this process. Each signature is checked
+ * against the account before it is used.
+ */
+export class RemoteSigner implements Signer {
+  private config: RemoteSignerConfig;
+  private http: AxiosInstance;
+  private address?: string;
+  private requestId = 0;
+
+  constructor(config: RemoteSignerConfig) {
+    this.config = config;
+    this.address = config.address ? getAddress(config.address) : undefined;
+    registerSecret(config.authToken);
+    this.http = axios.create({
+      timeout: config.timeout ?? DEFAULT_REMOTE_SIGNER_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.authToken ? { Authorization: `Bearer ${config.authToken}` } : {}),
+      },
+    });
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const reported = this.config.protocol === 'http'
+        ? (await this.request<{ address?: unknown }>('GET', '/address'))?.address
+        : (await this.call<unknown[]>('eth_accounts', []))?.[0];
+
+      if (typeof reported !== 'string' || !isAddress(reported)) {
+        throw new ApiError(`Remote signer at ${this.config.url} did not report an account`);
+      }
+      this.address = getAddress(reported);
+    }
+    return this.address;
+  }
+
+  async _signTypedData(domain: Record<string, any>, types: TypedDataTypes, value: Record<string, any>): Promise<string> {
+    const address = await this.getAddress();
+    const payload = TypedDataEncoder.getPayload(domain, types, value);
+
+    const signature = this.config.protocol === 'http'
+      ? (await this.request<{ signature?: unknown }>('POST', '/sign-typed-data', { address, ...payload }))?.signature
+      : await this.call<unknown>('eth_signTypedData_v4', [address, JSON.stringify(payload)]);
+
+    if (typeof signature !== 'string') {
+      throw new ApiError(`Remote signer at ${this.config.url} returned no signature`);
+    }
+
+    let signer: string;
+    try {
+      signer = verifyTypedData(domain, types, value, signature);
+    } catch {
+      throw new SecurityError(`Remote signer at ${this.config.url} returned a malformed signature`);
+    }
+    if (signer !== address) {
+      throw new SecurityError(`Remote signer at ${this.config.url} signed as ${signer}, not ${address}`);
+    }
+    return signature;
+  }
+
+  /**
+   * Call a JSON-RPC method on the signer
+   */
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.request<{ result?: T; error?: { code?: number; message?: string } }>('POST', '', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params,
+    });
+
+    if (response?.error) {
+      throw new ApiError(`Remote signer ${method} failed: ${response.error.message ?? 'unknown error'}`);
+    }
+    return response?.result as T;
+  }
+
+  /**
+   * Send a request to the signer, relative to its URL
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, data?: unknown): Promise<T> {
+    const url = this.config.url.replace(/\/+$/, '') + path;
+    try {
+      const response = await this.http.request<T>({ method, url, data });
+      return response.data;
+    } catch (error: unknown) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ApiError(`Remote signer request to ${url} failed: ${message}`, status);
+    }
+  }
+}
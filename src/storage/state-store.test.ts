@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStateStore, STATE_SCHEMA_VERSION, migrateState } from './state-store';
+
+const V1_STATE = {
+  startupPolicy: 'ignore-existing',
+  executedPositions: ['token-1'],
+  baselineTaken: true,
+  targetPositions: [],
+  stats: { totalTradesExecuted: 3, totalTradesFailed: 1, totalVolume: '12.5', lastTradeTime: '2024-01-01T00:00:00Z' },
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+test('migrates a version 1 state to the current schema', () => {
+  const state = migrateState(V1_STATE);
+  assert.equal(state.version, STATE_SCHEMA_VERSION);
+  assert.deepEqual(state.executedPositions, ['token-1']);
+  assert.equal(state.targets.length, 1);
+  assert.equal(state.targets[0].baselineTaken, true);
+  assert.deepEqual(state.targets[0].holdings, []);
+  assert.equal(state.targets[0].stats.totalTradesExecuted, 3);
+  assert.deepEqual(state.consensus, []);
+  assert.equal(state.risk.realizedPnl, '0');
+  assert.equal(state.risk.unrealizedAtDayStart, undefined); // Taken at the first risk check
+});
+
+test('migrates numeric daily PnL of a version 5 state to decimal strings', () => {
+  const state = migrateState({
+    version: 5,
+    executedPositions: [],
+    targets: [],
+    consensus: [],
+    risk: { tradingDay: '2024-01-01', realizedPnl: -12.5, unrealizedAtDayStart: 3, circuitBreaker: { tripped: false } },
+    updatedAt: '2024-01-01T00:00:00Z',
+  });
+  assert.equal(state.risk.realizedPnl, '-12.5');
+  assert.equal(state.risk.unrealizedAtDayStart, '3');
+  assert.equal(state.risk.tradingDay, '2024-01-01');
+});
+
+test('rejects state from a newer schema version and non-object state', () => {
+  assert.throws(() => migrateState({ version: STATE_SCHEMA_VERSION + 1 }), /newer than supported/);
+  assert.throws(() => migrateState([]), /not a JSON object/);
+});
+
+test('file store round-trips state and reports a missing file as no state', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'state-store-'));
+  try {
+    const store = new JsonFileStateStore(path.join(dir, 'state.json'));
+    assert.equal(await store.load(), undefined);
+
+    const state = migrateState(V1_STATE);
+    await store.save(state);
+    assert.deepEqual(await store.load(), state);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PersistedState, StateStore } from '../types';
+
+/**
+ * Current schema version of the persisted state
+ */
+export const STATE_SCHEMA_VERSION = 6;
+
+/**
+ * Persisted state of some schema version, as parsed from JSON
+ */
+type RawState = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each migration returns the state in the next schema version.
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // v2 adds the holdings ledger; copies made before it are adopted from the wallet at startup
+  1: (state) => ({ ...state, holdings: [] }),
+  // v3 adds daily PnL and circuit breaker state; the day starts over on load, with its
+  // unrealized PnL baseline taken at the first risk check
+  2: (state) => ({
+    ...state,
+    risk: {
+      tradingDay: new Date().toISOString().slice(0, 10),
+      realizedPnl: 0,
+      circuitBreaker: { tripped: false },
+    },
+  }),
+  // v4 tracks several targets; the single target's snapshot is stored without an address
+  // and handed to the first configured target on load
+  3: ({ baselineTaken, targetPositions, holdings, ...state }) => {
+    const stats = isRecord(state.stats) ? state.stats : {};
+    return {
+      ...state,
+      targets: [{
+        address: '',
+        baselineTaken,
+        positions: targetPositions,
+        holdings,
+        stats: {
+          totalTradesExecuted: stats.totalTradesExecuted,
+          totalTradesFailed: stats.totalTradesFailed,
+          totalVolume: stats.totalVolume,
+          lastTradeTime: stats.lastTradeTime,
+        },
+      }],
+    };
+  },
+  // v5 adds the contributors of consensus positions
+  4: (state) => ({ ...state, consensus: [] }),
+  // v6 stores the daily PnL figures as exact decimal strings instead of numbers
+  5: (state) => {
+    const risk = isRecord(state.risk) ? state.risk : {};
+    return {
+      ...state,
+      risk: {
+        ...risk,
+        realizedPnl: String(risk.realizedPnl ?? 0),
+        ...(risk.unrealizedAtDayStart !== undefined && { unrealizedAtDayStart: String(risk.unrealizedAtDayStart) }),
+      },
+    };
+  },
+};
+
+/**
+ * Upgrade a raw state object to the current schema version
+ */
+export function migrateState(raw: unknown): PersistedState {
+  if (!isRecord(raw)) {
+    throw new Error('State is not a JSON object');
+  }
+
+  let state = raw;
+  let version: number = typeof state.version === 'number' ? state.version : 1;
+
+  if (version > STATE_SCHEMA_VERSION) {
+    throw new Error(
+      `State schema version ${version} is newer than supported version ${STATE_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < STATE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from state schema version ${version}`);
+    }
+    state = migrate(state);
+    version++;
+    state.version = version;
+  }
+
+  return state as unknown as PersistedState;
+}
+
+/**
+ * In-memory state store
+ * Keeps state for the lifetime of the process only
+ */
+export class MemoryStateStore implements StateStore {
+  private state?: PersistedState;
+
+  async load(): Promise<PersistedState | undefined> {
+    return this.state ? JSON.parse(JSON.stringify(this.state)) : undefined;
+  }
+
+  async save(state: PersistedState): Promise<void> {
+    this.state = JSON.parse(JSON.stringify(state));
+  }
+}
+
+/**
+ * JSON file state store
+ * Writes are serialized and atomic (temp file + rename) so a crash never leaves a truncated file
+ */
+export class JsonFileStateStore implements StateStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Load state from disk, migrating older schema versions
+   */
+  async load(): Promise<PersistedState | undefined> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read state file ${this.filePath}: ${message}`);
+    }
+
+    try {
+      return migrateState(JSON.parse(content));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load state file ${this.filePath}: ${message}`);
+    }
+  }
+
+  /**
+   * Save state to disk
+   */
+  save(state: PersistedState): Promise<void> {
+    const content = JSON.stringify(state, null, 2);
+
+    // A failed write must not block later ones
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, content, 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Get the resolved file path
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+}
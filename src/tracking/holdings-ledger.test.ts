@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HoldingsLedger } from './holdings-ledger';
+
+test('keeps quantity and cost basis exact across many small fills', () => {
+  const ledger = new HoldingsLedger();
+  for (let i = 0; i < 10; i++) {
+    ledger.recordBuy('token-1', '0.1', '0.3');
+  }
+
+  assert.equal(ledger.getQuantity('token-1').toString(), '1');
+  assert.equal(ledger.getEntries()[0].costBasis, '0.3');
+});
+
+test('realizes PnL at the average entry price and keeps the rest of the cost basis', () => {
+  const ledger = new HoldingsLedger();
+  ledger.recordBuy('token-1', '10', '0.4');
+  ledger.recordBuy('token-1', '10', '0.6');
+
+  const pnl = ledger.recordSell('token-1', '5', '0.7');
+  assert.equal(pnl.toString(), '1'); // 5 * (0.7 - 0.5)
+  assert.equal(ledger.getQuantity('token-1').toString(), '15');
+  assert.equal(ledger.getEntries()[0].costBasis, '7.5');
+});
+
+test('removes a token sold down to dust and caps a sell at the shares held', () => {
+  const ledger = new HoldingsLedger();
+  ledger.recordBuy('token-1', '2', '0.5');
+
+  const pnl = ledger.recordSell('token-1', '3', '0.25');
+  assert.equal(pnl.toString(), '-0.5');
+  assert.ok(ledger.getQuantity('token-1').isZero());
+  assert.deepEqual(ledger.getEntries(), []);
+  assert.ok(ledger.recordSell('token-2', '1', '0.5').isZero());
+});
+
+test('reports drift between the ledger and the wallet', () => {
+  const ledger = new HoldingsLedger();
+  ledger.recordBuy('token-1', '10', '0.5');
+
+  const report = ledger.reconcile('0xwallet', []);
+  assert.equal(report.inSync, false);
+  assert.deepEqual(report.drifts.map(d => [d.tokenId, d.drift]), [['token-1', '-10']]);
+});
@@ -0,0 +1,160 @@
+import { HoldingEntry, HoldingDrift, Market, Position, ReconciliationReport } from '../types';
+import { Decimal, DecimalLike } from '../utils/decimal';
+
+/**
+ * Share quantities below this are treated as zero (API rounding noise)
+ */
+const QUANTITY_EPSILON = Decimal.from('0.000001');
+
+/**
+ * Holdings Ledger
+ * Per-token record of the shares the follower wallet bought and sold through the bot.
+ * Sells are sized from this ledger instead of the target's quantities.
+ */
+export class HoldingsLedger {
+  private entries: Map<string, HoldingEntry> = new Map();
+
+  constructor(entries: HoldingEntry[] = []) {
+    entries.forEach(entry => this.entries.set(entry.tokenId, { ...entry }));
+  }
+
+  /**
+   * Sum several ledgers per token (e.g. the holdings copied from each target)
+   */
+  static combine(ledgers: HoldingsLedger[]): HoldingsLedger {
+    const combined = new HoldingsLedger();
+
+    for (const ledger of ledgers) {
+      for (const entry of ledger.entries.values()) {
+        const existing = combined.entries.get(entry.tokenId);
+        combined.entries.set(entry.tokenId, existing
+          ? {
+              ...existing,
+              quantity: Decimal.parse(existing.quantity).plus(Decimal.parse(entry.quantity)).toString(),
+              costBasis: Decimal.parse(existing.costBasis).plus(Decimal.parse(entry.costBasis)).toString(),
+              lastUpdated: existing.lastUpdated > entry.lastUpdated ? existing.lastUpdated : entry.lastUpdated,
+            }
+          : { ...entry });
+      }
+    }
+
+    return combined;
+  }
+
+  /**
+   * Record a buy fill
+   */
+  recordBuy(tokenId: string, quantity: DecimalLike, price: DecimalLike, market?: Market): void {
+    const entry = this.entries.get(tokenId);
+    const heldQty = Decimal.parse(entry?.quantity);
+    const costBasis = Decimal.parse(entry?.costBasis);
+
+    this.entries.set(tokenId, {
+      tokenId,
+      marketId: market?.id || entry?.marketId,
+      eventSlug: market?.eventSlug || entry?.eventSlug,
+      quantity: heldQty.plus(quantity).toString(),
+      costBasis: costBasis.plus(Decimal.from(quantity).times(price)).toString(),
+      lastUpdated: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a sell fill; cost basis is reduced at the average entry price
+   * @returns Realized PnL of the shares sold
+   */
+  recordSell(tokenId: string, quantity: DecimalLike, price: DecimalLike): Decimal {
+    const entry = this.entries.get(tokenId);
+    if (!entry) return Decimal.ZERO;
+
+    const heldQty = Decimal.parse(entry.quantity);
+    const costBasis = Decimal.parse(entry.costBasis);
+    const soldQty = Decimal.min(quantity, heldQty);
+    const soldCost = heldQty.isPositive() ? costBasis.times(soldQty).div(heldQty) : costBasis;
+    const realizedPnl = soldQty.times(price).minus(soldCost);
+    const remaining = heldQty.minus(quantity);
+
+    if (remaining.lte(QUANTITY_EPSILON)) {
+      this.entries.delete(tokenId);
+      return realizedPnl;
+    }
+
+    // The cost basis kept is what was not sold, so the two always add back up
+    this.entries.set(tokenId, {
+      ...entry,
+      quantity: remaining.toString(),
+      costBasis: costBasis.minus(soldCost).toString(),
+      lastUpdated: new Date().toISOString(),
+    });
+    return realizedPnl;
+  }
+
+  /**
+   * Overwrite the held quantity of a token (e.g. adopting the wallet's balance)
+   */
+  setQuantity(tokenId: string, quantity: DecimalLike, price: DecimalLike): void {
+    if (Decimal.from(quantity).lte(QUANTITY_EPSILON)) {
+      this.entries.delete(tokenId);
+      return;
+    }
+
+    const entry = this.entries.get(tokenId);
+    this.entries.set(tokenId, {
+      tokenId,
+      marketId: entry?.marketId,
+      eventSlug: entry?.eventSlug,
+      quantity: Decimal.from(quantity).toString(),
+      costBasis: Decimal.from(quantity).times(price).toString(),
+      lastUpdated: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Get the number of shares held for a token
+   */
+  getQuantity(tokenId: string): Decimal {
+    const entry = this.entries.get(tokenId);
+    return Decimal.parse(entry?.quantity);
+  }
+
+  /**
+   * Get a copy of all ledger entries
+   */
+  getEntries(): HoldingEntry[] {
+    return Array.from(this.entries.values()).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Compare the ledger against the wallet's positions from the API.
+   * Only the given token IDs are checked when provided.
+   */
+  reconcile(wallet: string, walletPositions: Position[], tokenIds?: string[]): ReconciliationReport {
+    const walletQuantities = new Map(
+      walletPositions.map(p => [p.id, Decimal.parse(p.quantity)])
+    );
+    const ids = tokenIds ?? Array.from(new Set([...this.entries.keys(), ...walletQuantities.keys()]));
+
+    const drifts: HoldingDrift[] = [];
+    for (const tokenId of ids) {
+      const ledgerQty = Decimal.parse(this.entries.get(tokenId)?.quantity);
+      const walletQty = walletQuantities.get(tokenId) ?? Decimal.ZERO;
+      const drift = walletQty.minus(ledgerQty);
+
+      if (drift.abs().gt(QUANTITY_EPSILON)) {
+        drifts.push({
+          tokenId,
+          ledgerQuantity: ledgerQty.toString(),
+          walletQuantity: walletQty.toString(),
+          drift: drift.toString(),
+        });
+      }
+    }
+
+    return {
+      wallet,
+      checkedAt: new Date().toISOString(),
+      inSync: drifts.length === 0,
+      drifts,
+    };
+  }
+}
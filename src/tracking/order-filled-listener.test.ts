@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Interface, Log, Provider, ZeroHash } from 'ethers';
+import { DEFAULT_EXCHANGE_ADDRESSES, OrderFilledListener, decodeOrderFilled } from './order-filled-listener';
+import { Trade } from '../types';
+
+const EXCHANGE = new Interface([
+  'event OrderFilled(bytes32 indexed orderHash, address indexed maker, address indexed taker, uint256 makerAssetId, uint256 takerAssetId, uint256 makerAmountFilled, uint256 takerAmountFilled, uint256 fee)',
+]);
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const STRANGER = '0x3333333333333333333333333333333333333333';
+const TOKEN_ID = 123456789n;
+
+/**
+ * An OrderFilled log; asset ID 0 is USDC, amounts have 6 decimals
+ */
+function orderFilled(maker: string, taker: string, makerAssetId: bigint, takerAssetId: bigint, makerAmount: bigint, takerAmount: bigint, index = 0): Log {
+  const { topics, data } = EXCHANGE.encodeEventLog('OrderFilled', [
+    ZeroHash, maker, taker, makerAssetId, takerAssetId, makerAmount, takerAmount, 0n,
+  ]);
+  return {
+    topics,
+    data,
+    address: DEFAULT_EXCHANGE_ADDRESSES[0],
+    blockNumber: 100,
+    transactionHash: `0x${'ab'.repeat(32)}`,
+    index,
+    removed: false,
+  } as unknown as Log;
+}
+
+/**
+ * Provider that hands logs to whatever subscribed through on()
+ */
+class MockProvider {
+  listeners: Array<(log: Log) => void> = [];
+
+  async on(_filter: unknown, listener: (log: Log) => void): Promise<this> {
+    this.listeners.push(listener);
+    return this;
+  }
+
+  async off(_filter: unknown, listener: (log: Log) => void): Promise<this> {
+    this.listeners = this.listeners.filter(l => l !== listener);
+    return this;
+  }
+
+  async getBlock(): Promise<{ timestamp: number }> {
+    return { timestamp: 1700000000 };
+  }
+
+  emit(log: Log): void {
+    for (const listener of this.listeners) listener(log);
+  }
+}
+
+test('decodes a maker-side buy exactly', () => {
+  // The wallet pays 1.234567 USDC for 3.3 shares
+  const fill = decodeOrderFilled(orderFilled(WALLET, OTHER, 0n, TOKEN_ID, 1234567n, 3300000n), WALLET);
+  assert.ok(fill);
+  assert.equal(fill.tokenId, TOKEN_ID.toString());
+  assert.equal(fill.side, 'buy');
+  assert.equal(fill.quantity.toString(), '3.3');
+  assert.equal(fill.price.toString(), '0.374111212121212121');
+});
+
+test('decodes the taker side of a maker buy as a sell', () => {
+  const fill = decodeOrderFilled(orderFilled(OTHER, WALLET, 0n, TOKEN_ID, 2000000n, 5000000n), WALLET);
+  assert.ok(fill);
+  assert.equal(fill.side, 'sell');
+  assert.equal(fill.quantity.toString(), '5');
+  assert.equal(fill.price.toString(), '0.4');
+});
+
+test('ignores fills of other wallets', () => {
+  assert.equal(decodeOrderFilled(orderFilled(OTHER, STRANGER, 0n, TOKEN_ID, 1000000n, 2000000n), WALLET), undefined);
+});
+
+test('reports each of the wallet\'s fills once as a trade', async () => {
+  const provider = new MockProvider();
+  const trades: Trade[] = [];
+  const listener = new OrderFilledListener(provider as unknown as Provider, {
+    address: WALLET,
+    onFill: trade => trades.push(trade),
+  });
+  await listener.start();
+  assert.equal(provider.listeners.length, 2);
+
+  // The wallet sells 10 shares as maker for 6.5 USDC
+  const sell = orderFilled(WALLET, OTHER, TOKEN_ID, 0n, 10000000n, 6500000n);
+  provider.emit(sell);
+  provider.emit(orderFilled(OTHER, STRANGER, 0n, TOKEN_ID, 1000000n, 2000000n, 1));
+  await new Promise(resolve => setImmediate(resolve));
+
+  assert.equal(trades.length, 1);
+  assert.equal(trades[0].side, 'sell');
+  assert.equal(trades[0].quantity, '10');
+  assert.equal(trades[0].price, '0.65');
+  assert.equal(trades[0].tokenId, TOKEN_ID.toString());
+  assert.equal(trades[0].timestamp, new Date(1700000000 * 1000).toISOString());
+
+  await listener.stop();
+  assert.equal(provider.listeners.length, 0);
+});
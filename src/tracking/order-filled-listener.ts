@@ -0,0 +1,199 @@
+import { Interface, Log, Provider, TopicFilter, formatUnits, zeroPadValue } from 'ethers';
+import { Trade } from '../types';
+import { Decimal } from '../utils/decimal';
+
+/**
+ * Polymarket exchange contracts on Polygon (CTF exchange and neg-risk CTF exchange)
+ */
+export const DEFAULT_EXCHANGE_ADDRESSES = [
+  '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E',
+  '0xC5d563A36AE78145C45a50134d48A1215220f80a',
+];
+
+const EXCHANGE_INTERFACE = new Interface([
+  'event OrderFilled(bytes32 indexed orderHash, address indexed maker, address indexed taker, uint256 makerAssetId, uint256 takerAssetId, uint256 makerAmountFilled, uint256 takerAmountFilled, uint256 fee)',
+]);
+
+const ORDER_FILLED_TOPIC = EXCHANGE_INTERFACE.getEvent('OrderFilled')!.topicHash;
+
+/**
+ * USDC and outcome tokens both use 6 decimals
+ */
+const AMOUNT_DECIMALS = 6;
+
+/**
+ * How many log IDs are remembered for deduplication
+ */
+const SEEN_LIMIT = 1000;
+
+/**
+ * A fill of the target decoded from an OrderFilled event
+ */
+export interface DecodedFill {
+  tokenId: string;
+  side: 'buy' | 'sell';
+  quantity: Decimal;
+  price: Decimal;
+}
+
+/**
+ * Decode an OrderFilled log from the point of view of a wallet.
+ * Asset ID 0 is USDC: the side paying USDC buys the outcome token, the other side sells it.
+ * Returns undefined when the wallet is neither maker nor taker, or the log is not an OrderFilled event.
+ */
+export function decodeOrderFilled(log: Pick<Log, 'topics' | 'data'>, wallet: string): DecodedFill | undefined {
+  const parsed = EXCHANGE_INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed || parsed.name !== 'OrderFilled') {
+    return undefined;
+  }
+
+  const { maker, taker, makerAssetId, takerAssetId, makerAmountFilled, takerAmountFilled } = parsed.args;
+  const isMaker = maker.toLowerCase() === wallet.toLowerCase();
+  const isTaker = taker.toLowerCase() === wallet.toLowerCase();
+  if (!isMaker && !isTaker) {
+    return undefined;
+  }
+
+  // Which side the maker took; the taker took the other
+  const makerBuys = makerAssetId === 0n;
+  const tokenId = (makerBuys ? takerAssetId : makerAssetId).toString();
+  const shares = Decimal.from(formatUnits(makerBuys ? takerAmountFilled : makerAmountFilled, AMOUNT_DECIMALS));
+  const usdc = Decimal.from(formatUnits(makerBuys ? makerAmountFilled : takerAmountFilled, AMOUNT_DECIMALS));
+  if (!shares.isPositive()) {
+    return undefined;
+  }
+
+  return {
+    tokenId,
+    side: makerBuys === isMaker ? 'buy' : 'sell',
+    quantity: shares,
+    price: usdc.div(shares),
+  };
+}
+
+/**
+ * Options for the OrderFilled listener
+ */
+export interface OrderFilledListenerOptions {
+  address: string; // Wallet whose fills are reported
+  exchangeAddresses?: string[];
+  onFill: (trade: Trade) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * OrderFilled Listener
+ * Subscribes to the exchange's OrderFilled events where the wallet is maker or taker and reports
+ * each as a fill. Works with any ethers provider: JSON-RPC providers poll for logs, WebSocket
+ * providers stream them.
+ */
+export class OrderFilledListener {
+  private provider: Provider;
+  private options: Required<OrderFilledListenerOptions>;
+  private filters: TopicFilter[];
+  private seen: Set<string> = new Set();
+  private blockTimes: Map<number, number> = new Map(); // Block number -> timestamp in ms
+  private listener = (log: Log) => {
+    void this.handleLog(log);
+  };
+  private running = false;
+
+  constructor(provider: Provider, options: OrderFilledListenerOptions) {
+    this.provider = provider;
+    this.options = {
+      address: options.address,
+      exchangeAddresses: options.exchangeAddresses ?? DEFAULT_EXCHANGE_ADDRESSES,
+      onFill: options.onFill,
+      onError: options.onError ?? ((error: Error) => console.error('OrderFilled listener error:', error.message)),
+    };
+
+    // Indexed topics: orderHash, maker, taker
+    const wallet = zeroPadValue(options.address, 32);
+    this.filters = [
+      [ORDER_FILLED_TOPIC, null, wallet],
+      [ORDER_FILLED_TOPIC, null, null, wallet],
+    ];
+  }
+
+  /**
+   * Subscribe to the wallet's fills as maker and as taker
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    for (const topics of this.filters) {
+      await this.provider.on({ address: this.options.exchangeAddresses, topics }, this.listener);
+    }
+  }
+
+  /**
+   * Unsubscribe from all fills
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+
+    this.running = false;
+    for (const topics of this.filters) {
+      await this.provider.off({ address: this.options.exchangeAddresses, topics }, this.listener);
+    }
+  }
+
+  private async handleLog(log: Log): Promise<void> {
+    // A self-trade matches both filters; a reorg can replay logs
+    const logId = `${log.transactionHash}:${log.index}`;
+    if (log.removed || this.seen.has(logId)) {
+      return;
+    }
+    this.remember(logId);
+
+    try {
+      const fill = decodeOrderFilled(log, this.options.address);
+      if (!fill) return;
+
+      const filledAt = await this.getBlockTime(log.blockNumber);
+      this.options.onFill({
+        id: logId,
+        market: { id: '', question: '', slug: '' },
+        outcome: '',
+        side: fill.side,
+        quantity: fill.quantity.toString(),
+        price: fill.price.round(6).toString(),
+        timestamp: new Date(filledAt).toISOString(),
+        transactionHash: log.transactionHash,
+        tokenId: fill.tokenId,
+        user: this.options.address,
+        source: 'chain',
+        detectedAt: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      this.options.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Timestamp of a block in ms; falls back to now when the block can't be fetched
+   */
+  private async getBlockTime(blockNumber: number): Promise<number> {
+    const cached = this.blockTimes.get(blockNumber);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const block = await this.provider.getBlock(blockNumber).catch(() => null);
+    const time = block ? block.timestamp * 1000 : Date.now();
+
+    this.blockTimes.set(blockNumber, time);
+    if (this.blockTimes.size > 100) {
+      this.blockTimes.delete(this.blockTimes.keys().next().value as number);
+    }
+    return time;
+  }
+
+  private remember(logId: string): void {
+    this.seen.add(logId);
+    while (this.seen.size > SEEN_LIMIT) {
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoundRobinScheduler } from './poll-scheduler';
+
+function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() > deadline) return reject(new Error('timed out'));
+      setTimeout(check, 2);
+    };
+    check();
+  });
+}
+
+test('spaces tasks evenly across the interval', () => {
+  const scheduler = new RoundRobinScheduler(30000);
+  assert.equal(scheduler.getSpacing(), 30000);
+
+  scheduler.add('a', async () => {});
+  scheduler.add('b', async () => {});
+  scheduler.add('c', async () => {});
+  assert.equal(scheduler.getSpacing(), 10000);
+  scheduler.stop();
+});
+
+test('runs tasks one at a time in turn', async () => {
+  const scheduler = new RoundRobinScheduler(10);
+  const runs: string[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const task = (id: string) => async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    runs.push(id);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+  };
+  scheduler.add('a', task('a'));
+  scheduler.add('b', task('b'));
+
+  await until(() => runs.length >= 4);
+  scheduler.stop();
+  assert.deepEqual(runs.slice(0, 4), ['a', 'b', 'a', 'b']);
+  assert.equal(maxInFlight, 1);
+});
+
+test('keeps polling after a task fails and stops once every task is removed', async () => {
+  const scheduler = new RoundRobinScheduler(5);
+  let failures = 0;
+  let runs = 0;
+
+  scheduler.add('failing', async () => {
+    failures++;
+    throw new Error('boom');
+  });
+  scheduler.add('ok', async () => {
+    runs++;
+  });
+
+  await until(() => failures >= 2 && runs >= 2);
+  scheduler.remove('failing');
+  scheduler.remove('ok');
+
+  const total = failures + runs;
+  await new Promise(resolve => setTimeout(resolve, 30));
+  assert.equal(failures + runs, total);
+});
@@ -0,0 +1,97 @@
+import { PollScheduler } from '../types';
+
+/**
+ * Round-Robin Scheduler
+ * Runs poll tasks one at a time, spaced evenly so that every task runs about once per interval.
+ * With N targets and a 30s interval, one target is polled every 30/N seconds.
+ */
+export class RoundRobinScheduler implements PollScheduler {
+  private interval: number;
+  private tasks: Map<string, () => Promise<void>> = new Map();
+  private queue: string[] = [];
+  private timer?: NodeJS.Timeout;
+  private running = false; // A task is in flight
+  private stopped = false;
+
+  constructor(interval: number) {
+    this.interval = interval;
+  }
+
+  /**
+   * Register a task; it first runs after the tasks already queued
+   */
+  add(id: string, task: () => Promise<void>): void {
+    if (!this.tasks.has(id)) {
+      this.queue.push(id);
+    }
+    this.tasks.set(id, task);
+    this.stopped = false;
+
+    if (!this.timer && !this.running) {
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * Unregister a task; the scheduler idles when none are left
+   */
+  remove(id: string): void {
+    this.tasks.delete(id);
+    this.queue = this.queue.filter(queued => queued !== id);
+
+    if (this.tasks.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stop scheduling; registered tasks are kept
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Delay between two tasks so the whole queue fits in one interval
+   */
+  getSpacing(): number {
+    return this.interval / Math.max(this.tasks.size, 1);
+  }
+
+  private scheduleNext(): void {
+    if (this.stopped || this.tasks.size === 0) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.runNext();
+    }, this.getSpacing());
+  }
+
+  private async runNext(): Promise<void> {
+    const id = this.queue.shift();
+    const task = id !== undefined ? this.tasks.get(id) : undefined;
+    if (id === undefined || !task) {
+      this.scheduleNext();
+      return;
+    }
+
+    this.queue.push(id);
+    this.running = true;
+
+    try {
+      await task();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Scheduled poll ${id} failed:`, message);
+    } finally {
+      this.running = false;
+      this.scheduleNext();
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffPositions } from './position-diff';
+import { DecimalString, Position } from '../types';
+
+function position(id: string, quantity: DecimalString, overrides: Partial<Position> = {}): Position {
+  return {
+    id,
+    market: { id: 'market-1', question: 'Will it rain?', slug: 'will-it-rain' },
+    outcome: 'Yes',
+    quantity,
+    price: '0.5',
+    value: '0',
+    timestamp: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+test('reports no events for identical snapshots', () => {
+  const snapshot = [position('a', '10')];
+  assert.deepEqual(diffPositions(snapshot, snapshot), []);
+});
+
+test('reports a new position as opened at its entry price', () => {
+  const [event] = diffPositions([], [position('a', '10', { initialValue: '4.2' })]);
+  assert.equal(event.type, 'opened');
+  assert.equal(event.delta, '10');
+  assert.equal(event.price, '0.42');
+});
+
+test('reports the exact delta of an increase without float error', () => {
+  const [event] = diffPositions(
+    [position('a', '0.1', { initialValue: '0.05' })],
+    [position('a', '0.3', { initialValue: '0.13' })]
+  );
+  assert.equal(event.type, 'increased');
+  assert.equal(event.delta, '0.2');
+  assert.equal(event.price, '0.4'); // (0.13 - 0.05) / 0.2
+});
+
+test('falls back to the current price when the cost basis gives an impossible price', () => {
+  const [event] = diffPositions(
+    [position('a', '1', { initialValue: '0.5' })],
+    [position('a', '2', { initialValue: '5', price: '0.6' })]
+  );
+  assert.equal(event.price, '0.6');
+});
+
+test('reports a partial exit as decreased', () => {
+  const [event] = diffPositions([position('a', '10')], [position('a', '4', { price: '0.7' })]);
+  assert.equal(event.type, 'decreased');
+  assert.equal(event.delta, '6');
+  assert.equal(event.price, '0.7');
+});
+
+test('ignores changes within API rounding noise', () => {
+  assert.deepEqual(diffPositions([position('a', '10')], [position('a', '10.0000001')]), []);
+});
+
+test('reports a position that disappears or drops to zero as closed', () => {
+  const gone = diffPositions([position('a', '10')], []);
+  const zeroed = diffPositions([position('a', '10')], [position('a', '0')]);
+  assert.equal(gone[0].type, 'closed');
+  assert.equal(gone[0].delta, '10');
+  assert.equal(zeroed[0].type, 'closed');
+});
+
+test('pairs a closed and an opened outcome of the same market as a flip', () => {
+  const events = diffPositions(
+    [position('yes', '10')],
+    [position('no', '8', { outcome: 'No', initialValue: '4' })]
+  );
+  assert.equal(events.length, 1);
+  assert.equal(events[0].type, 'flipped');
+  assert.equal(events[0].previous?.id, 'yes');
+  assert.equal(events[0].position.id, 'no');
+  assert.equal(events[0].delta, '8');
+});
+
+test('does not pair outcomes of different markets', () => {
+  const other = { id: 'market-2', question: 'Will it snow?', slug: 'will-it-snow' };
+  const events = diffPositions([position('yes', '10')], [position('no', '8', { outcome: 'No', market: other })]);
+  assert.deepEqual(events.map(e => e.type).sort(), ['closed', 'opened']);
+});
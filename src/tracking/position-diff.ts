@@ -0,0 +1,154 @@
+import { Position, PositionChangeEvent } from '../types';
+import { Decimal } from '../utils/decimal';
+
+/**
+ * Share quantities below this are treated as zero (API rounding noise)
+ */
+const QUANTITY_EPSILON = Decimal.from('0.000001');
+
+/**
+ * Decimals kept for prices derived by division
+ */
+const PRICE_DECIMALS = 6;
+
+/**
+ * Average entry price of a position (cost basis / shares), falling back to its current price
+ */
+function getEntryPrice(position: Position): Decimal {
+  const quantity = Decimal.parse(position.quantity);
+  const initialValue = Decimal.parse(position.initialValue);
+
+  if (quantity.isPositive() && initialValue.isPositive()) {
+    return initialValue.div(quantity).round(PRICE_DECIMALS);
+  }
+  return Decimal.parse(position.price);
+}
+
+/**
+ * Price paid for the shares added between two snapshots.
+ * Derived from the change in cost basis when the API reports it, otherwise the current price.
+ */
+function getIncreasePrice(previous: Position, current: Position, delta: Decimal): Decimal {
+  if (previous.initialValue !== undefined && current.initialValue !== undefined) {
+    const addedCost = Decimal.parse(current.initialValue).minus(Decimal.parse(previous.initialValue));
+    const price = addedCost.div(delta).round(PRICE_DECIMALS);
+    if (price.isPositive() && price.lte(1)) {
+      return price;
+    }
+  }
+  return Decimal.parse(current.price);
+}
+
+/**
+ * Position Diff Engine
+ * Compares two snapshots of a wallet's positions and returns typed change events
+ * with the exact share delta and the price at which each change happened.
+ *
+ * A market where one outcome was closed and another outcome opened in the same
+ * snapshot is reported as a single 'flipped' event instead of a close and an open.
+ */
+export function diffPositions(previous: Position[], current: Position[]): PositionChangeEvent[] {
+  const timestamp = new Date().toISOString();
+  const previousMap = new Map(previous.map(p => [p.id, p]));
+  const currentMap = new Map(current.map(p => [p.id, p]));
+
+  const events: PositionChangeEvent[] = [];
+  const opened: Position[] = [];
+  const closed: Position[] = [];
+
+  for (const position of current) {
+    const prev = previousMap.get(position.id);
+    const currQty = Decimal.parse(position.quantity);
+
+    if (!prev) {
+      if (currQty.gt(QUANTITY_EPSILON)) {
+        opened.push(position);
+      }
+      continue;
+    }
+
+    const prevQty = Decimal.parse(prev.quantity);
+    const delta = currQty.minus(prevQty);
+
+    if (delta.abs().lte(QUANTITY_EPSILON)) {
+      continue;
+    }
+
+    if (currQty.lte(QUANTITY_EPSILON)) {
+      closed.push(prev);
+    } else if (delta.isPositive()) {
+      events.push({
+        type: 'increased',
+        position,
+        previous: prev,
+        delta: delta.toString(),
+        price: getIncreasePrice(prev, position, delta).toString(),
+        timestamp,
+      });
+    } else {
+      events.push({
+        type: 'decreased',
+        position,
+        previous: prev,
+        delta: delta.negate().toString(),
+        price: position.price,
+        timestamp,
+      });
+    }
+  }
+
+  for (const position of previous) {
+    if (!currentMap.has(position.id) && Decimal.parse(position.quantity).gt(QUANTITY_EPSILON)) {
+      closed.push(position);
+    }
+  }
+
+  // Pair a closed outcome with an opened outcome of the same market as a flip
+  const openedByMarket = new Map<string, Position[]>();
+  for (const position of opened) {
+    if (!position.market.id) continue;
+    const list = openedByMarket.get(position.market.id) || [];
+    list.push(position);
+    openedByMarket.set(position.market.id, list);
+  }
+
+  const flippedIds = new Set<string>();
+  for (const prev of closed) {
+    const candidates = prev.market.id ? openedByMarket.get(prev.market.id) : undefined;
+    const next = candidates?.find(p => p.outcome !== prev.outcome && !flippedIds.has(p.id));
+
+    if (next) {
+      flippedIds.add(next.id);
+      events.push({
+        type: 'flipped',
+        position: next,
+        previous: prev,
+        delta: Decimal.parse(next.quantity).toString(),
+        price: getEntryPrice(next).toString(),
+        timestamp,
+      });
+    } else {
+      events.push({
+        type: 'closed',
+        position: prev,
+        previous: prev,
+        delta: Decimal.parse(prev.quantity).toString(),
+        price: prev.price,
+        timestamp,
+      });
+    }
+  }
+
+  for (const position of opened) {
+    if (flippedIds.has(position.id)) continue;
+    events.push({
+      type: 'opened',
+      position,
+      delta: Decimal.parse(position.quantity).toString(),
+      price: getEntryPrice(position).toString(),
+      timestamp,
+    });
+  }
+
+  return events;
+}
@@ -1,17 +1,44 @@
 import { MarketApiClient } from '../clients/market-api-client';
+import { ClobEvent, ClobWebSocket } from '../clients/clob-websocket';
+import { diffPositions } from './position-diff';
+import { TradeFeed, getFillKey } from './trade-feed';
+import { OrderFilledListener } from './order-filled-listener';
 import {
   TradingStatus,
   MonitorOptions,
   Position,
+  PollScheduler,
+  Trade,
+  FillSource,
+  DetectionLatency,
 } from '../types';
 
+/**
+ * Minimum delay in ms between refreshes triggered by streamed trades or chain fills, so busy markets don't flood the API
+ */
+const EVENT_REFRESH_DELAY = 2000;
+
+/**
+ * How many reported fills are remembered to drop the same fill arriving from another source
+ */
+const REPORTED_FILLS_LIMIT = 1000;
+
 /**
  * Position Tracker
  * Monitors a target account's trading status and provides real-time updates
  */
 export class PositionTracker {
   private client: MarketApiClient;
-  private options: Required<MonitorOptions>;
+  private options: Required<Omit<MonitorOptions, 'scheduler' | 'webSocketUrl' | 'chainProvider' | 'exchangeAddresses'>>;
+  private scheduler?: PollScheduler;
+  private webSocketUrl?: string;
+  private stream?: ClobWebSocket; // Market channel for the held tokens when WebSocket monitoring is enabled
+  private refreshTimer?: NodeJS.Timeout; // Pending refresh triggered by a streamed trade or chain fill
+  private tradeFeed?: TradeFeed; // Set when the trade feed is enabled
+  private chainListener?: OrderFilledListener; // Set when a chain provider is configured
+  private pendingFills: Trade[] = []; // Chain fills not yet included in a status update
+  private reportedFills: Map<string, FillSource> = new Map(); // Fill key -> source that reported it first
+  private latency: Map<FillSource, { fills: number; totalMs: number; maxMs: number }> = new Map();
   private pollIntervalId?: NodeJS.Timeout;
   private isMonitoring = false;
   private lastStatus?: TradingStatus;
@@ -27,12 +54,27 @@ export class PositionTracker {
     this.options = {
       pollInterval: options.pollInterval ?? 30000,
       enableWebSocket: options.enableWebSocket ?? false,
+      enableTradeFeed: options.enableTradeFeed ?? false,
       onUpdate: options.onUpdate ?? (() => {}),
+      onTrade: options.onTrade ?? (() => {}),
       onError:
         options.onError ??
         ((error: Error) => console.error('Monitor error:', error)),
       targetAddress: options.targetAddress,
     };
+    this.scheduler = options.scheduler;
+    this.webSocketUrl = options.webSocketUrl;
+    if (this.options.enableTradeFeed) {
+      this.tradeFeed = new TradeFeed(client, options.targetAddress);
+    }
+    if (options.chainProvider) {
+      this.chainListener = new OrderFilledListener(options.chainProvider, {
+        address: options.targetAddress,
+        exchangeAddresses: options.exchangeAddresses,
+        onFill: (trade: Trade) => this.handleChainFill(trade),
+        onError: (error: Error) => this.options.onError(error),
+      });
+    }
   }
 
   /**
@@ -50,16 +92,31 @@ export class PositionTracker {
 
     await this.updateStatus();
 
-    this.pollIntervalId = setInterval(() => {
-      if (!this.isPolling) {
-        void this.updateStatus();
-      }
-    }, this.options.pollInterval);
+    if (this.scheduler) {
+      // The scheduler runs one poll at a time, so polls never overlap
+      this.scheduler.add(this.options.targetAddress, () => this.updateStatus());
+    } else {
+      this.pollIntervalId = setInterval(() => {
+        if (!this.isPolling) {
+          void this.updateStatus();
+        }
+      }, this.options.pollInterval);
+    }
 
     console.log(`✅ Monitor started`);
 
     if (this.options.enableWebSocket) {
-      console.log('WebSocket monitoring not implemented yet, using polling');
+      this.startStream();
+    }
+
+    if (this.chainListener) {
+      try {
+        await this.chainListener.start();
+        console.log(`⛓️  Listening for OrderFilled events of ${this.options.targetAddress}`);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  OrderFilled listener for ${this.options.targetAddress} failed to start: ${message}`);
+      }
     }
   }
 
@@ -71,11 +128,24 @@ export class PositionTracker {
 
     this.isMonitoring = false;
 
+    this.scheduler?.remove(this.options.targetAddress);
     if (this.pollIntervalId) {
       clearInterval(this.pollIntervalId);
       this.pollIntervalId = undefined;
     }
 
+    this.stream?.close();
+    this.stream = undefined;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    this.chainListener?.stop().catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Failed to stop OrderFilled listener: ${message}`);
+    });
+
     console.log('Monitor stopped');
   }
 
@@ -87,12 +157,13 @@ export class PositionTracker {
       const result = await this.client.getUserPositions(
         this.options.targetAddress
       );
+      const recentTrades = await this.getNewTrades();
 
       return {
         user: this.options.targetAddress,
         totalPositions: result.positions.length,
         totalValue: result.totalValue,
-        recentTrades: [],
+        recentTrades,
         openPositions: result.positions,
         lastUpdated: new Date().toISOString(),
       };
@@ -103,6 +174,91 @@ export class PositionTracker {
     }
   }
 
+  /**
+   * Fills since the previous poll: chain fills received meanwhile plus new fills from the trade feed.
+   * A failing feed doesn't fail the poll; its fills are picked up on a later one.
+   */
+  private async getNewTrades(): Promise<Trade[]> {
+    const fills = this.pendingFills;
+    this.pendingFills = [];
+
+    if (this.tradeFeed) {
+      try {
+        const detectedAt = new Date().toISOString();
+        const feedFills = (await this.tradeFeed.poll())
+          .map(trade => ({ ...trade, source: 'trade-feed' as const, detectedAt }))
+          .filter(trade => this.reportFill(trade));
+        fills.push(...feedFills);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  Trade feed for ${this.options.targetAddress} unavailable: ${message}`);
+      }
+    }
+
+    return fills.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  /**
+   * Report a chain fill right away and refresh the positions so the change is copied
+   */
+  private handleChainFill(trade: Trade): void {
+    // OrderFilled carries only the token; take the market from the position when the target holds it
+    const position = this.lastStatus?.openPositions.find(p => p.id === trade.tokenId);
+    const fill = position ? { ...trade, market: position.market, outcome: position.outcome } : trade;
+
+    if (this.reportFill(fill)) {
+      this.pendingFills.push(fill);
+      if (this.isMonitoring) {
+        this.scheduleRefresh();
+      }
+    }
+  }
+
+  /**
+   * Record the detection latency of a fill and pass it on, unless another source reported it first
+   * @returns Whether the fill is new
+   */
+  private reportFill(trade: Trade): boolean {
+    const source = trade.source ?? 'trade-feed';
+    const filledAt = new Date(trade.timestamp).getTime();
+    const detectedAt = trade.detectedAt ? new Date(trade.detectedAt).getTime() : Date.now();
+    if (!isNaN(filledAt)) {
+      const delay = Math.max(detectedAt - filledAt, 0);
+      const stats = this.latency.get(source) ?? { fills: 0, totalMs: 0, maxMs: 0 };
+      this.latency.set(source, {
+        fills: stats.fills + 1,
+        totalMs: stats.totalMs + delay,
+        maxMs: Math.max(stats.maxMs, delay),
+      });
+    }
+
+    const key = getFillKey(trade);
+    const reportedBy = this.reportedFills.get(key);
+    if (reportedBy && reportedBy !== source) {
+      return false;
+    }
+
+    this.reportedFills.set(key, source);
+    while (this.reportedFills.size > REPORTED_FILLS_LIMIT) {
+      this.reportedFills.delete(this.reportedFills.keys().next().value as string);
+    }
+
+    this.options.onTrade(trade);
+    return true;
+  }
+
+  /**
+   * Average and worst delay between a fill and its detection, per source
+   */
+  getDetectionLatency(): DetectionLatency[] {
+    return Array.from(this.latency.entries()).map(([source, stats]) => ({
+      source,
+      fills: stats.fills,
+      averageMs: stats.fills > 0 ? Math.round(stats.totalMs / stats.fills) : 0,
+      maxMs: stats.maxMs,
+    }));
+  }
+
   /**
    * Update status and notify if there are changes
    */
@@ -127,6 +283,9 @@ export class PositionTracker {
         this.lastStatus = status;
         this.options.onUpdate(status);
       }
+
+      // Follow the tokens the target holds now; new tokens only show up through polling
+      this.stream?.setSubscriptions(status.openPositions.map(p => p.id));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       console.error(
@@ -139,30 +298,70 @@ export class PositionTracker {
     }
   }
 
+  /**
+   * Subscribe to the CLOB market channel for the held tokens.
+   * Polling keeps running alongside the stream and is the only source while the socket is down.
+   */
+  private startStream(): void {
+    this.stream = new ClobWebSocket({
+      url: this.webSocketUrl,
+      channel: 'market',
+      onEvent: (event: ClobEvent) => this.handleMarketEvent(event),
+      onHealthChange: (healthy: boolean) => {
+        if (healthy) {
+          console.log(`📡 Streaming market events for ${this.options.targetAddress}`);
+        } else if (this.isMonitoring) {
+          console.warn(`⚠️  Market stream for ${this.options.targetAddress} unavailable, falling back to polling`);
+        }
+      },
+    });
+
+    this.stream.setSubscriptions(this.lastStatus?.openPositions.map(p => p.id) ?? []);
+    this.stream.connect();
+  }
+
+  /**
+   * Refresh the target's positions when one of its tokens traded
+   */
+  private handleMarketEvent(event: ClobEvent): void {
+    if (event.event_type !== 'last_trade_price' || !this.lastStatus) {
+      return;
+    }
+
+    const held = this.lastStatus.openPositions.some(p => p.id === event.asset_id);
+    if (held) {
+      this.scheduleRefresh();
+    }
+  }
+
+  /**
+   * Refresh soon, at most once per EVENT_REFRESH_DELAY
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      if (this.isMonitoring && !this.isPolling) {
+        void this.updateStatus();
+      }
+    }, EVENT_REFRESH_DELAY);
+  }
+
   /**
    * Detect if there are significant changes in the status
    */
   private detectChanges(status: TradingStatus): boolean {
     if (!this.lastStatus) return true;
 
-    if (status.openPositions.length !== this.lastStatus.openPositions.length) {
+    // New fills matter even when they left the positions unchanged (e.g. a quick round-trip)
+    if (status.recentTrades.length > 0) {
       return true;
     }
 
-    const prevMap = new Map(
-      this.lastStatus.openPositions.map(p => [p.id, p])
-    );
-
-    for (const current of status.openPositions) {
-      const previous = prevMap.get(current.id);
-      if (!previous) return true;
-
-      const currQty = parseFloat(current.quantity);
-      const prevQty = parseFloat(previous.quantity);
-
-      if (Math.abs(currQty - prevQty) > Math.max(1, prevQty * 0.01)) {
-        return true;
-      }
+    // Any share change counts, however small; StrategyExecutor copies every delta
+    if (diffPositions(this.lastStatus.openPositions, status.openPositions).length > 0) {
+      return true;
     }
 
     const prevValue = parseFloat(this.lastStatus.totalValue);
@@ -208,6 +407,17 @@ export class PositionTracker {
       });
     }
 
+    if (status.recentTrades.length) {
+      lines.push(`\n🧾 New Fills (${status.recentTrades.length}):`);
+      status.recentTrades.slice(-10).forEach((t, i) => {
+        lines.push(
+          `   ${i + 1}. ${t.side.toUpperCase()} ${t.outcome}: ${parseFloat(
+            t.quantity
+          ).toLocaleString()} @ $${parseFloat(t.price).toFixed(4)}`
+        );
+      });
+    }
+
     lines.push(
       '\n╚══════════════════════════════════════════════════════════╝\n'
     );
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TradeFeed, getFillKey } from './trade-feed';
+import { MarketApiClient } from '../clients/market-api-client';
+import { Trade } from '../types';
+
+const TARGET = '0x' + '12'.repeat(20);
+
+function trade(hash: string, second: number, tokenId = 'token-1'): Trade {
+  return {
+    id: `${hash}-${tokenId}`,
+    market: { id: 'market-1', question: 'Will it rain?', slug: 'will-it-rain' },
+    outcome: 'Yes',
+    side: 'buy',
+    quantity: '10',
+    price: '0.5',
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, second)).toISOString(),
+    transactionHash: hash,
+    tokenId,
+    user: TARGET,
+  };
+}
+
+/**
+ * Trade feed over a data API stand-in that serves the pages queued on it, one per poll
+ */
+function createFeed(pageSize = 100) {
+  const pages: Trade[][] = [];
+  const client = {
+    getUserTrades: async () => ({ user: TARGET, trades: pages.shift() ?? [], totalTrades: 0, timestamp: '' }),
+  };
+  return { feed: new TradeFeed(client as unknown as MarketApiClient, TARGET, pageSize), pages };
+}
+
+const ids = (trades: Trade[]) => trades.map(t => t.id);
+
+test('places the cursor on the first poll without reporting older fills', async () => {
+  const { feed, pages } = createFeed();
+  pages.push([trade('0xa', 1), trade('0xb', 2)]);
+
+  assert.deepEqual(await feed.poll(), []);
+  assert.deepEqual(feed.getCursor(), { transactionHash: '0xb', timestamp: trade('0xb', 2).timestamp });
+});
+
+test('reports new fills oldest first whatever order the API returns them in', async () => {
+  const { feed, pages } = createFeed();
+  pages.push([trade('0xa', 1)]);
+  pages.push([trade('0xc', 3), trade('0xa', 1), trade('0xd', 4), trade('0xb', 2)]);
+
+  await feed.poll();
+  assert.deepEqual(ids(await feed.poll()), ['0xb-token-1', '0xc-token-1', '0xd-token-1']);
+});
+
+test('reports a fill once when consecutive pages overlap', async () => {
+  const { feed, pages } = createFeed();
+  pages.push([]);
+  pages.push([trade('0xa', 1), trade('0xb', 2)]);
+  pages.push([trade('0xb', 2), trade('0xc', 2), trade('0xa', 1)]);
+
+  await feed.poll();
+  assert.deepEqual(ids(await feed.poll()), ['0xa-token-1', '0xb-token-1']);
+  // 0xc shares the cursor's timestamp and is still picked up
+  assert.deepEqual(ids(await feed.poll()), ['0xc-token-1']);
+});
+
+test('keeps fills of different tokens settled in one transaction apart', async () => {
+  assert.notEqual(getFillKey(trade('0xa', 1, 'token-1')), getFillKey(trade('0xa', 1, 'token-2')));
+
+  const { feed, pages } = createFeed();
+  pages.push([]);
+  pages.push([trade('0xa', 1, 'token-1'), trade('0xa', 1, 'token-2')]);
+
+  await feed.poll();
+  assert.deepEqual(ids(await feed.poll()), ['0xa-token-2', '0xa-token-1']);
+});
+
+test('warns when a whole page is new, since older fills may have been missed', async t => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const { feed, pages } = createFeed(2);
+  pages.push([]);
+  pages.push([trade('0xa', 1), trade('0xb', 2)]);
+
+  await feed.poll();
+  assert.equal((await feed.poll()).length, 2);
+  assert.match(String(warn.mock.calls[0]?.arguments[0]), /More than 2 fills/);
+});
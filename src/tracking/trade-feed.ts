@@ -0,0 +1,111 @@
+import { MarketApiClient } from '../clients/market-api-client';
+import { Trade, TradeCursor } from '../types';
+
+/**
+ * How many fill keys are remembered for deduplication
+ */
+const SEEN_LIMIT = 1000;
+
+/**
+ * Key identifying a fill. One transaction can settle fills in several outcome tokens,
+ * so the token is part of the key; fills without a hash fall back to their contents.
+ */
+export function getFillKey(trade: Trade): string {
+  if (trade.transactionHash) {
+    return `${trade.transactionHash}:${trade.tokenId ?? trade.outcome}`;
+  }
+  return [trade.timestamp, trade.tokenId ?? trade.outcome, trade.side, trade.quantity, trade.price].join(':');
+}
+
+function getTime(trade: Trade): number {
+  const time = new Date(trade.timestamp).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+/**
+ * Trade Feed
+ * Reads a wallet's trade feed incrementally. A cursor (hash and timestamp of the newest fill seen)
+ * marks where the previous poll stopped, and recently seen fills are remembered so a fill
+ * is reported once even when pages overlap.
+ */
+export class TradeFeed {
+  private client: MarketApiClient;
+  private address: string;
+  private pageSize: number;
+  private cursor?: TradeCursor;
+  private seen: Set<string> = new Set();
+
+  constructor(client: MarketApiClient, address: string, pageSize: number = 100) {
+    this.client = client;
+    this.address = address;
+    this.pageSize = pageSize;
+  }
+
+  /**
+   * Fetch fills newer than the cursor, oldest first.
+   * The first poll only places the cursor; fills from before the bot started are not reported.
+   */
+  async poll(): Promise<Trade[]> {
+    const result = await this.client.getUserTrades(this.address, this.pageSize);
+    const page = [...result.trades].sort((a, b) => getTime(b) - getTime(a)); // Newest first
+
+    if (!this.cursor) {
+      page.forEach(trade => this.remember(trade));
+      this.cursor = { transactionHash: '', timestamp: new Date(0).toISOString() }; // Empty feed: every later fill is new
+      this.advance(page[0]);
+      return [];
+    }
+
+    const cursorTime = new Date(this.cursor.timestamp).getTime();
+    const fresh: Trade[] = [];
+
+    for (const trade of page) {
+      if (getTime(trade) < cursorTime) {
+        break;
+      }
+      if (this.seen.has(getFillKey(trade))) {
+        continue;
+      }
+      fresh.push(trade);
+    }
+
+    // A full page of new fills means the feed moved further than one page since the last poll
+    if (page.length >= this.pageSize && fresh.length === page.length) {
+      console.warn(
+        `⚠️  More than ${this.pageSize} fills for ${this.address} since the last poll; older fills were not read`
+      );
+    }
+
+    fresh.reverse();
+    fresh.forEach(trade => this.remember(trade));
+    this.advance(page[0]);
+    return fresh;
+  }
+
+  /**
+   * Get the newest fill processed so far
+   */
+  getCursor(): TradeCursor | undefined {
+    return this.cursor ? { ...this.cursor } : undefined;
+  }
+
+  private advance(newest?: Trade): void {
+    if (!newest) return;
+    if (this.cursor && getTime(newest) < new Date(this.cursor.timestamp).getTime()) return;
+
+    this.cursor = {
+      transactionHash: newest.transactionHash ?? '',
+      timestamp: newest.timestamp,
+    };
+  }
+
+  private remember(trade: Trade): void {
+    this.seen.add(getFillKey(trade));
+
+    // Sets iterate in insertion order, so the oldest keys go first
+    while (this.seen.size > SEEN_LIMIT) {
+      const oldest = this.seen.values().next().value as string;
+      this.seen.delete(oldest);
+    }
+  }
+}
@@ -2,10 +2,14 @@
  * Polymarket API Types and Interfaces
  */
 
+import type { Provider } from 'ethers';
+import type { Decimal } from '../utils/decimal';
+
 export interface Market {
   id: string;
   question: string;
   slug: string;
+  eventSlug?: string;
   description?: string;
   endDate?: string;
   image?: string;
@@ -17,14 +21,20 @@ export interface Market {
   active?: boolean;
 }
 
+/**
+ * Exact decimal number serialized as a string (read and computed with Decimal from utils/decimal).
+ * Only numeric strings are assignable, so a non-numeric string can't slip into an amount field.
+ */
+export type DecimalString = `${number}`;
+
 export interface Position {
   id: string;
   market: Market;
   outcome: string;
-  quantity: string;
-  price: string;
-  value: string;
-  initialValue?: string; // Original cost basis
+  quantity: DecimalString;
+  price: DecimalString;
+  value: DecimalString;
+  initialValue?: DecimalString; // Original cost basis
   timestamp: string;
 }
 
@@ -33,17 +43,81 @@ export interface Trade {
   market: Market;
   outcome: string;
   side: 'buy' | 'sell';
-  quantity: string;
-  price: string;
+  quantity: DecimalString;
+  price: DecimalString;
   timestamp: string;
   transactionHash?: string;
+  tokenId?: string; // Outcome token traded, when the API reports it
   user: string;
+  source?: FillSource; // How the fill was detected
+  detectedAt?: string; // When the bot saw the fill
+}
+
+/**
+ * Where a fill of the target was detected
+ * - trade-feed: the data API trade feed
+ * - chain: OrderFilled events of the exchange contracts
+ */
+export type FillSource = 'trade-feed' | 'chain';
+
+/**
+ * Delay between a fill happening and the bot seeing it, per detection source
+ */
+export interface DetectionLatency {
+  source: FillSource;
+  fills: number;
+  averageMs: number;
+  maxMs: number;
+}
+
+/**
+ * Position in a wallet's trade feed: the newest fill already processed
+ */
+export interface TradeCursor {
+  transactionHash: string;
+  timestamp: string;
+}
+
+/**
+ * Kind of change detected between two snapshots of the target's positions
+ */
+export type PositionChangeType = 'opened' | 'increased' | 'decreased' | 'closed' | 'flipped';
+
+export interface PositionChangeEvent {
+  type: PositionChangeType;
+  position: Position; // Position after the change (last known state for 'closed')
+  previous?: Position; // Position before the change (the exited outcome for 'flipped')
+  delta: DecimalString; // Absolute share delta of the change
+  price: DecimalString; // Price at which the change happened
+  timestamp: string;
+}
+
+export interface OrderBookLevel {
+  price: DecimalString;
+  size: DecimalString;
+}
+
+export interface OrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[]; // Sorted best (highest) first
+  asks: OrderBookLevel[]; // Sorted best (lowest) first
+  tickSize: DecimalString; // Order prices must be a multiple of this
+  minOrderSize: DecimalString;
+  timestamp: string;
+}
+
+/**
+ * Wallet balance and exchange allowance for collateral (USDC) or an outcome token
+ */
+export interface BalanceStatus {
+  balance: DecimalString; // USDC for collateral, shares for outcome tokens
+  allowance: DecimalString; // Amount the exchange may transfer on our behalf
 }
 
 export interface UserPositions {
   user: string;
   positions: Position[];
-  totalValue: string;
+  totalValue: DecimalString;
   timestamp: string;
 }
 
@@ -57,7 +131,7 @@ export interface UserTrades {
 export interface TradingStatus {
   user: string;
   totalPositions: number;
-  totalValue: string;
+  totalValue: DecimalString;
   recentTrades: Trade[];
   openPositions: Position[];
   lastUpdated: string;
@@ -69,47 +143,466 @@ export interface PolymarketConfig {
   dataApiUrl?: string;
   gammaApiUrl?: string;
   clobApiUrl?: string;
+  http?: HttpConfig; // Retry, rate limit and timeout settings (default: DEFAULT_HTTP_CONFIG)
+  validation?: ValidationMode; // Handling of responses that don't match their schema (default: strict)
+}
+
+/**
+ * How API responses that don't match their schema are handled
+ * - strict: throw a SchemaValidationError naming the payload path
+ * - lenient: fall back to a default for the field, count it and warn once per field
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * Polymarket API hosts, each with its own rate limit
+ */
+export type ApiHost = 'data' | 'gamma' | 'clob';
+
+/**
+ * API endpoints with their own request timeout
+ */
+export type ApiEndpoint = 'positions' | 'trades' | 'orderBook' | 'market';
+
+/**
+ * Shared HTTP request settings
+ */
+export interface HttpConfig {
+  maxRetries: number; // Retries of 429, 5xx and network errors
+  baseDelay: number; // First retry delay in ms, doubled on each retry (with jitter)
+  maxDelay: number; // Cap in ms for backoff and Retry-After delays
+  rateLimits: Record<ApiHost, number>; // Requests per second per host (0 = unlimited)
+  timeouts: Record<ApiEndpoint, number>; // Request timeout in ms per endpoint
+}
+
+/**
+ * Runs registered poll tasks spread evenly over the poll interval, one at a time,
+ * so trackers for several targets share the API budget instead of bursting together
+ */
+export interface PollScheduler {
+  add(id: string, task: () => Promise<void>): void;
+  remove(id: string): void;
 }
 
 export interface MonitorOptions {
   targetAddress: string;
   pollInterval?: number; // in milliseconds
-  enableWebSocket?: boolean;
+  enableWebSocket?: boolean; // Stream CLOB market events for held tokens; polling continues to find new tokens
+  webSocketUrl?: string; // CLOB WebSocket base URL (default: wss://ws-subscriptions-clob.polymarket.com/ws/)
+  enableTradeFeed?: boolean; // Poll the target's trade feed for individual fills alongside its positions
+  chainProvider?: Provider; // Listen for the target's OrderFilled events through this provider when set
+  exchangeAddresses?: string[]; // Exchange contracts emitting OrderFilled (default: CTF and neg-risk CTF exchanges)
+  scheduler?: PollScheduler; // Shared scheduler; the tracker polls on its own timer when not set
   onUpdate?: (status: TradingStatus) => void;
+  onTrade?: (trade: Trade) => void; // Called for each new fill, oldest first
   onError?: (error: Error) => void;
 }
 
+/**
+ * How positions the target already holds when the bot starts are handled
+ * - ignore-existing: snapshot them and copy only later changes
+ * - mirror-existing: buy into them at current prices, subject to the size limits
+ * - ask: list them and wait for confirmation before mirroring
+ */
+export type StartupPolicy = 'ignore-existing' | 'mirror-existing' | 'ask';
+
+/**
+ * Shares of one outcome token held by the follower wallet, built from our own fills
+ */
+export interface HoldingEntry {
+  tokenId: string;
+  marketId?: string;
+  eventSlug?: string;
+  quantity: DecimalString;
+  costBasis: DecimalString; // Total USD paid for the shares still held
+  lastUpdated: string;
+}
+
+export interface HoldingDrift {
+  tokenId: string;
+  ledgerQuantity: DecimalString;
+  walletQuantity: DecimalString;
+  drift: DecimalString; // walletQuantity - ledgerQuantity
+}
+
+export interface ReconciliationReport {
+  wallet: string;
+  checkedAt: string;
+  inSync: boolean;
+  drifts: HoldingDrift[];
+}
+
+/**
+ * Portfolio-level risk limits; 0 disables a limit
+ */
+export interface RiskLimits {
+  maxTotalExposure: number; // Max USD cost basis across all open positions
+  maxMarketExposure: number; // Max USD cost basis per market
+  maxEventExposure: number; // Max USD cost basis per event
+  maxOpenPositions: number; // Max number of tokens held at once
+  dailyLossLimit: number; // Max USD realized plus unrealized loss per trading day (UTC)
+}
+
+export interface CircuitBreakerState {
+  tripped: boolean;
+  reason?: string;
+  trippedAt?: string;
+}
+
+export interface RiskState {
+  tradingDay: string; // UTC date (YYYY-MM-DD) the daily figures belong to
+  realizedPnl: DecimalString; // Realized PnL since the start of the trading day
+  unrealizedAtDayStart?: DecimalString; // Unrealized PnL when the trading day started; unset until the day's first risk check
+  circuitBreaker: CircuitBreakerState;
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  quantity: DecimalString; // Shares allowed, possibly reduced to fit a cap
+  reason?: string; // Why the buy was rejected or reduced
+}
+
+/**
+ * Market filter settings; empty lists and 0 thresholds disable a filter
+ */
+export interface MarketFilterConfig {
+  requireActive: boolean;
+  includeTags: string[]; // Market must have at least one of these tags
+  excludeTags: string[]; // Market must have none of these tags
+  minLiquidity: number;
+  minVolume: number;
+  minHoursToEnd: number; // Skip markets resolving sooner than this
+  minPrice: number; // Skip outcomes priced below this
+  maxPrice: number; // Skip outcomes priced above this (0 = no maximum)
+  allowMarketIds: string[];
+  allowMarketSlugs: string[];
+  allowEventSlugs: string[];
+  denyMarketIds: string[];
+  denyMarketSlugs: string[];
+  denyEventSlugs: string[];
+}
+
+export interface MarketFilter {
+  readonly name: string;
+  /**
+   * Returns the reason the position is rejected, or undefined when it passes
+   */
+  check(position: Position): string | undefined;
+}
+
+export interface FilterResult {
+  passed: boolean;
+  filter?: string; // Name of the filter that rejected the position
+  reason?: string;
+}
+
+/**
+ * Per-target state persisted between restarts
+ */
+export interface TargetSnapshot {
+  address: string;
+  baselineTaken: boolean;
+  positions: Position[]; // Target's positions at the last update
+  holdings: HoldingEntry[]; // Shares we hold from copying this target
+  stats: TradeCounters;
+}
+
+/**
+ * Copy trading state persisted between restarts
+ */
+export interface PersistedState {
+  version: number; // Schema version, used to migrate older state files
+  startupPolicy: StartupPolicy;
+  executedPositions: string[];
+  targets: TargetSnapshot[];
+  consensus: ConsensusHolding[];
+  risk: RiskState;
+  stats: Omit<CopyTradingStatus, 'byTarget'>;
+  updatedAt: string;
+}
+
+export interface StateStore {
+  load(): Promise<PersistedState | undefined>;
+  save(state: PersistedState): Promise<void>;
+}
+
+/**
+ * Built-in position sizing strategies
+ * - multiplier: target quantity * positionSizeMultiplier
+ * - fixed-usd: a fixed USD amount per trade
+ * - portfolio-percent: a percentage of our portfolio value per trade
+ * - proportional: the trade's share of the target's total value, applied to our portfolio
+ * - kelly: a capped fraction of the Kelly criterion from a configured edge
+ */
+export type SizingStrategyName = 'multiplier' | 'fixed-usd' | 'portfolio-percent' | 'proportional' | 'kelly';
+
+export interface SizingConfig {
+  strategy: SizingStrategyName;
+  multiplier: number;
+  fixedUsd: number; // USD per trade (fixed-usd)
+  portfolioPercent: number; // % of portfolio per trade (portfolio-percent)
+  bankroll: number; // Cap in USD on the portfolio value sized from, 0 for none; the portfolio value in dry runs (portfolio-percent, proportional, kelly)
+  kellyEdge: number; // Assumed probability edge over the market price, e.g. 0.05 (kelly)
+  kellyFraction: number; // Fraction of full Kelly to bet, e.g. 0.25 (kelly)
+  kellyCap: number; // Maximum fraction of the bankroll per trade, e.g. 0.05 (kelly)
+}
+
+export interface SizingInput {
+  position: Position; // Target's change being copied (quantity is the target's share delta)
+  price: Decimal; // Price the copy is expected to trade at
+  targetPortfolioValue: Decimal; // Target's total position value
+  portfolioValue: Decimal; // Our portfolio value
+}
+
+export interface SizingDecision {
+  quantity: Decimal; // Shares to buy
+  inputs: Record<string, number | string>; // Values behind the decision, for logging
+}
+
+export interface SizingStrategy {
+  readonly name: SizingStrategyName;
+  size(input: SizingInput): SizingDecision;
+}
+
+/**
+ * A wallet to copy, with optional overrides of the copy trading defaults
+ */
+export interface TargetConfig {
+  address: string;
+  label?: string; // Name used in logs and stats
+  enabled?: boolean; // Disabled targets are neither polled nor copied (default: true)
+  sizingStrategy?: SizingStrategy; // Overrides the default sizing strategy for this target
+  marketFilters?: MarketFilter[]; // Overrides the default market filters for this target
+  weight?: number; // Weight of this wallet's vote in consensus mode (default: 1)
+  portfolioValue?: number; // Cap in USD on our portfolio value for this target's sizing (default: the shared portfolioValue)
+}
+
+/**
+ * Consensus mode: copy an outcome only when several targets open it within a time window
+ */
+export interface ConsensusConfig {
+  minWallets: number; // N: targets that must open the same outcome token (0 disables consensus mode)
+  window: number; // Time in ms within which they must open it
+}
+
+/**
+ * A target opening an outcome token, counted towards consensus
+ */
+export interface ConsensusVote {
+  address: string;
+  weight: number;
+  position: Position; // The target's trade: delta quantity at its entry price
+  observedAt: number; // Epoch ms
+}
+
+/**
+ * Synthetic copy signal produced when enough targets agree
+ */
+export interface ConsensusSignal {
+  tokenId: string;
+  position: Position; // Weighted average quantity and entry price of the agreeing targets
+  wallets: string[]; // Contributing target addresses
+  agreeing: number;
+  total: number; // Enabled targets
+  weight: number; // Combined weight of the agreeing targets
+  totalWeight: number; // Combined weight of all enabled targets
+  scale: number; // weight / totalWeight, applied to the sized quantity
+}
+
+/**
+ * Targets whose agreement led to a consensus position we still hold
+ */
+export interface ConsensusHolding {
+  tokenId: string;
+  wallets: string[]; // Contributing targets that still hold the token
+}
+
+/**
+ * Where the keystore password comes from
+ * - prompt: asked on the terminal without echo
+ * - fd: read from an open file descriptor (e.g. `3< password.txt`)
+ * - env: read from an environment variable, which is removed once read
+ */
+export type KeystorePasswordSource =
+  | { type: 'prompt' }
+  | { type: 'fd'; fd: number }
+  | { type: 'env'; variable: string };
+
+/**
+ * Encrypted ethers JSON keystore holding the trading key
+ */
+export interface KeystoreConfig {
+  file: string; // Where the keystore was read from, for messages
+  json: string;
+  password: KeystorePasswordSource;
+}
+
+/**
+ * Signs the bot's orders and CLOB API key requests (EIP-712 typed data).
+ * This is the interface ClobClient expects from an ethers v5 signer.
+ */
+export interface Signer {
+  getAddress(): Promise<string>;
+  _signTypedData(
+    domain: Record<string, any>,
+    types: Record<string, Array<{ name: string; type: string }>>,
+    value: Record<string, any>
+  ): Promise<string>;
+  unlock?(): Promise<void>; // Get ready to sign (e.g. decrypt a keystore) before the first signature is needed
+}
+
+/**
+ * Wire protocol of a remote signing service
+ * - json-rpc: eth_accounts and eth_signTypedData_v4, as served by Clef, Web3Signer and similar signers
+ * - http: GET <url>/address and POST <url>/sign-typed-data with JSON bodies
+ */
+export type RemoteSignerProtocol = 'json-rpc' | 'http';
+
+export interface RemoteSignerConfig {
+  url: string;
+  protocol: RemoteSignerProtocol;
+  address?: string; // Account to sign with (default: the first account the signer reports)
+  authToken?: string; // Sent as a bearer token
+  timeout?: number; // Request timeout in ms (default: 10000)
+}
+
+/**
+ * Kind of wallet that holds the funds the bot trades with
+ * - eoa: the signing key's own address
+ * - poly-proxy: a Polymarket proxy wallet (accounts created with an email login)
+ * - gnosis-safe: a Polymarket Gnosis Safe (accounts created with a browser wallet)
+ */
+export type WalletSignatureType = 'eoa' | 'poly-proxy' | 'gnosis-safe';
+
 export interface CopyTradingConfig {
   enabled: boolean;
-  privateKey: string; // Private key for wallet signing
+  privateKey?: string; // Plaintext private key for wallet signing (prefer keystore or signer)
+  keystore?: KeystoreConfig; // Encrypted key, decrypted in memory when the executor initializes; takes precedence over privateKey
+  signer?: Signer; // Signs orders instead of an in-process key, e.g. a RemoteSigner; takes precedence over keystore and privateKey
+  signatureType?: WalletSignatureType; // Kind of wallet holding the funds (default: eoa)
+  funderAddress?: string; // Proxy or Safe wallet holding the funds; required unless signatureType is eoa
   dryRun?: boolean; // If true, only simulate trades without executing
   positionSizeMultiplier?: number; // Multiply target position size by this (default: 1.0)
+  sizingStrategy?: SizingStrategy; // How copy buys are sized (default: multiplier strategy)
+  portfolioValue?: number; // Cap in USD on our live portfolio value for portfolio-based sizing; the value itself in dry runs (default: 0, no cap)
   maxPositionSize?: number; // Maximum position size in USD (default: unlimited)
   maxTradeSize?: number; // Maximum single trade size in USD (default: unlimited)
   slippageTolerance?: number; // Slippage tolerance as percentage (default: 1%)
   minTradeSize?: number; // Minimum trade size in USD to execute (default: 1)
   chainId?: number; // Chain ID (default: 137 for Polygon)
   clobHost?: string; // CLOB API host (default: https://clob.polymarket.com)
-  onTradeExecuted?: (result: TradeExecutionResult) => void;
+  buyOrderType?: CopyOrderType; // Order type for copied buys (default: GTC)
+  sellOrderType?: CopyOrderType; // Order type for copied sells (default: GTC)
+  gtdExpiration?: number; // Lifetime in seconds of GTD orders (default: 300)
+  orderTimeout?: number; // Cancel orders still unfilled after this many ms (default: 60000)
+  orderPollInterval?: number; // Interval in ms between order status checks (default: 2000)
+  priceDrift?: PriceDriftConfig; // Guard against chasing a buy the market has moved away from (default: disabled)
+  startupPolicy?: StartupPolicy; // Handling of positions held at startup (default: ignore-existing)
+  targets?: TargetConfig[]; // Wallets to copy (default: the monitor's target address)
+  consensus?: ConsensusConfig; // Copy only when several targets agree (default: disabled, every target is copied)
+  confirmExistingPositions?: (positions: Position[]) => Promise<boolean>; // Used by the 'ask' policy (default: terminal prompt)
+  marketFilters?: MarketFilter[]; // Filters every copy buy must pass (default: none)
+  riskLimits?: Partial<RiskLimits>; // Portfolio-level limits enforced before buys (default: none)
+  stateStore?: StateStore; // Persists executed positions, target snapshot and stats (default: in memory only)
+  onTradeExecuted?: (result: TradeExecutionResult) => void; // A trade filled (at least partially); live orders report once settled
   onTradeError?: (error: Error, position: Position) => void;
+  onOrderFill?: (result: TradeExecutionResult, fill: OrderFill) => void; // Shares of a posted order filled
+  onOrderSettled?: (result: TradeExecutionResult) => void; // A posted order filled, was cancelled or expired
+}
+
+/**
+ * What to do when the market has moved away from the target's entry price
+ * - skip: don't copy the trade
+ * - limit: rest a limit order at the target's entry price instead of chasing
+ */
+export type PriceDriftAction = 'skip' | 'limit';
+
+/**
+ * Price-drift guard settings; 0 disables a threshold
+ */
+export interface PriceDriftConfig {
+  maxAbsolute: number; // Max USD per share the best price may be above the target's entry
+  maxRelative: number; // Max percentage the best price may be above the target's entry
+  action: PriceDriftAction;
+}
+
+export interface PriceDrift {
+  entryPrice: DecimalString; // Target's average entry price
+  marketPrice: DecimalString; // Best price available now
+  absolute: DecimalString; // Adverse move in USD per share (negative when the price moved in our favour)
+  relative: DecimalString; // Adverse move as a percentage of the entry price
+  exceeded: boolean;
+}
+
+/**
+ * Order type used to copy a trade
+ * - GTC: resting limit order, good until cancelled (or the order timeout)
+ * - GTD: resting limit order that expires after a configured number of seconds
+ * - FOK: fill-or-kill limit order, fills completely or not at all
+ * - FAK: fill-and-kill limit order, takes what is available and cancels the rest
+ * - MARKET: fill-or-kill market order sized in USDC (shares for sells), capped at the slippage band
+ */
+export type CopyOrderType = 'GTC' | 'GTD' | 'FOK' | 'FAK' | 'MARKET';
+
+/**
+ * Lifecycle state of an order posted to the CLOB
+ */
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+export interface TrackedOrder {
+  orderId: string;
+  tokenId: string;
+  side: 'buy' | 'sell';
+  status: OrderStatus;
+  requestedSize: DecimalString;
+  filledSize: DecimalString;
+  averagePrice: DecimalString; // Average fill price, or the limit price while unfilled
+  limitPrice: DecimalString; // Price the order was posted at
+  postedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Shares of a tracked order filled since its previous status check
+ */
+export interface OrderFill {
+  orderId: string;
+  size: DecimalString;
+  price: DecimalString; // Average price of these shares
 }
 
 export interface TradeExecutionResult {
   success: boolean;
   position: Position;
   orderId?: string;
+  orderType?: CopyOrderType;
+  orderStatus?: OrderStatus;
+  unfilledReason?: string; // Why the order did not fill, or filled only partially
   transactionHash?: string;
-  executedQuantity?: string;
-  executedPrice?: string;
+  requestedQuantity?: DecimalString;
+  priceDrift?: PriceDrift; // Drift between the target's entry and the market when the buy was placed
+  contributingWallets?: string[]; // Targets whose agreement produced a consensus trade
+  executedQuantity?: DecimalString;
+  executedPrice?: DecimalString;
   error?: string;
   dryRun: boolean;
 }
 
-export interface CopyTradingStatus {
-  enabled: boolean;
-  dryRun: boolean;
+export interface TradeCounters {
   totalTradesExecuted: number;
   totalTradesFailed: number;
-  totalVolume: string;
+  totalVolume: DecimalString;
   lastTradeTime?: string;
 }
+
+export interface TargetTradingStats extends TradeCounters {
+  address: string;
+  label?: string;
+  enabled: boolean;
+}
+
+export interface CopyTradingStatus extends TradeCounters {
+  enabled: boolean;
+  dryRun: boolean;
+  byTarget: TargetTradingStats[];
+}
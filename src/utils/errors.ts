@@ -3,6 +3,8 @@
  * Provides specific error types for better error handling
  */
 
+import type { DecimalString } from '../types';
+
 /**
  * Base application error
  */
@@ -53,6 +55,21 @@ export class TradeExecutionError extends AppError {
   }
 }
 
+/**
+ * Insufficient balance or allowance for a trade
+ */
+export class InsufficientFundsError extends TradeExecutionError {
+  constructor(
+    message: string,
+    positionId?: string,
+    public readonly required?: DecimalString,
+    public readonly available?: DecimalString,
+    cause?: Error
+  ) {
+    super(message, positionId, cause);
+  }
+}
+
 /**
  * Validation error
  */
@@ -62,3 +79,25 @@ export class ValidationError extends AppError {
   }
 }
 
+
+/**
+ * API response that doesn't match the schema of its endpoint
+ */
+export class SchemaValidationError extends ValidationError {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly path: string // Location of the offending value in the payload, e.g. positions[3].size
+  ) {
+    super(`${endpoint} response invalid at ${path}: ${message}`);
+  }
+}
+
+/**
+ * Blocked network connection or access to key material
+ */
+export class SecurityError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 'SECURITY_ERROR', cause);
+  }
+}
@@ -1,8 +1,12 @@
 /**
  * Simple Logger Utility
- * Provides consistent logging throughout the application
+ * Provides consistent logging throughout the application.
+ * Every line is formatted first and passed through secret redaction before it is written.
  */
 
+import { format } from 'util';
+import { redact } from './redact';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -33,7 +37,7 @@ class Logger {
    */
   debug(message: string, ...args: unknown[]): void {
     if (this.enabled && this.level <= LogLevel.DEBUG) {
-      console.log(`[DEBUG] ${message}`, ...args);
+      console.log(redact(format(`[DEBUG] ${message}`, ...args)));
     }
   }
 
@@ -42,7 +46,7 @@ class Logger {
    */
   info(message: string, ...args: unknown[]): void {
     if (this.enabled && this.level <= LogLevel.INFO) {
-      console.log(`[INFO] ${message}`, ...args);
+      console.log(redact(format(`[INFO] ${message}`, ...args)));
     }
   }
 
@@ -51,7 +55,7 @@ class Logger {
    */
   warn(message: string, ...args: unknown[]): void {
     if (this.enabled && this.level <= LogLevel.WARN) {
-      console.warn(`[WARN] ${message}`, ...args);
+      console.warn(redact(format(`[WARN] ${message}`, ...args)));
     }
   }
 
@@ -61,9 +65,9 @@ class Logger {
   error(message: string, error?: Error | unknown, ...args: unknown[]): void {
     if (this.enabled && this.level <= LogLevel.ERROR) {
       if (error instanceof Error) {
-        console.error(`[ERROR] ${message}`, error.message, error.stack, ...args);
+        console.error(redact(format(`[ERROR] ${message}`, error.message, error.stack, ...args)));
       } else {
-        console.error(`[ERROR] ${message}`, error, ...args);
+        console.error(redact(format(`[ERROR] ${message}`, error, ...args)));
       }
     }
   }
@@ -0,0 +1,53 @@
+/**
+ * Terminal Prompt Utilities
+ * Helpers for interactive confirmation on stdin
+ */
+
+import * as readline from 'readline';
+
+/**
+ * Check whether the process can prompt the operator
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY);
+}
+
+/**
+ * Ask a question and resolve with the trimmed answer
+ */
+export function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Ask a yes/no question (defaults to no)
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const answer = await ask(`${question} (y/N) `);
+  return /^y(es)?$/i.test(answer);
+}
+
+/**
+ * Ask for a secret without echoing what is typed; the answer is not trimmed
+ */
+export function askSecret(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  process.stdout.write(question);
+  // Swallow readline's echo of the typed characters
+  (rl as unknown as { _writeToOutput: (text: string) => void })._writeToOutput = () => {};
+
+  return new Promise(resolve => {
+    rl.question('', answer => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Secret Redaction
+ * Masks key material and credentials in text before it is logged
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Shortest value registered as a secret; anything shorter would mask ordinary words
+ */
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Values labelled as secrets, in `name: value`, `name=value` and JSON / inspected-object form
+ */
+const LABELLED_SECRET_PATTERN =
+  /((?:private[_-]?key|secret|passphrase|password|api[_-]?key|auth[_-]?token|access[_-]?token|poly[_-]signature)["']?\s*[:=]\s*["']?)[^"'\s,;&{}[\]]+/gi;
+
+/**
+ * Credentials in Authorization headers
+ */
+const AUTH_SCHEME_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+
+/**
+ * Bare 32-byte hex without a 0x prefix, the usual way private keys are pasted.
+ * 0x-prefixed 32-byte hex is also a transaction hash, order ID or condition ID, which are
+ * public and needed for debugging, so it is only masked when registered or labelled.
+ */
+const BARE_HEX_KEY_PATTERN = /\b(?<!0x)[0-9a-fA-F]{64}\b/g;
+
+const secrets = new Set<string>();
+
+/**
+ * Register a known secret value (a private key, API credential, password) to mask wherever it appears.
+ * A hex private key is registered with and without its 0x prefix.
+ */
+export function registerSecret(value: string | undefined): void {
+  const secret = value?.trim();
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    return;
+  }
+
+  secrets.add(secret);
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(secret)) {
+    const hex = secret.replace(/^0x/, '');
+    secrets.add(hex);
+    secrets.add(`0x${hex}`);
+  }
+}
+
+/**
+ * Mask registered secrets, labelled secrets, Authorization credentials and bare hex keys
+ */
+export function redact(text: string): string {
+  let result = text;
+  // Longest first so a key's 0x form is masked whole
+  for (const secret of Array.from(secrets).sort((a, b) => b.length - a.length)) {
+    result = result.split(secret).join(REDACTED);
+  }
+
+  return result
+    .replace(AUTH_SCHEME_PATTERN, `$1 ${REDACTED}`)
+    .replace(LABELLED_SECRET_PATTERN, `$1${REDACTED}`)
+    .replace(BARE_HEX_KEY_PATTERN, REDACTED);
+}